@@ -0,0 +1,234 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * `lucky-draw`: draws and groupings from the command line, with the same
+ * core as the app. Given the same input file and `--seed`, the output is
+ * identical on every run, so results can be checked in CI.
+ */
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { AttributeFilter, FilterOperator, Group, GroupingSettings, Participant, RemainderPolicy } from '../src/types';
+import {
+  createEventData,
+  drawWinners,
+  generateSeed,
+  groupParticipants,
+  groupsToRows,
+  hashInput,
+  listAttributeKeys,
+  readParticipantsCsv,
+  toCsv,
+  toGroups,
+  type CsvRow,
+} from '../src/lib/core';
+
+const USAGE = `Usage:
+  lucky-draw group --input <file> (--size <n> | --groups <n>) [options]
+  lucky-draw draw  --input <file> [--count <n>] [options]
+
+Input is a CSV/TSV file (or - for stdin) with a name column; unique ID,
+email, department, role and other columns are picked up like in the app.
+
+Common options:
+  -i, --input <file>     Participant list (default: stdin)
+      --seed <text>      Seed for a reproducible result (default: random, printed)
+      --format <fmt>     text, json or csv (default: text)
+
+group:
+      --size <n>         People per group
+      --groups <n>       Number of groups
+      --remainder <p>    even, short or range (default: short)
+      --min <n>, --max <n>  Size limits for --remainder range
+      --balance <key>    Spread an attribute evenly (repeatable; "department" for the department column)
+      --leaders          One leader per group, from the role column (fewer groups if there are too few)
+      --note-takers      One note-taker per group while they last, from the role column
+
+draw:
+  -n, --count <n>        Winners to draw (default: 1)
+      --exclude <id>     Unique ID, email or name that can't win (repeatable)
+      --where <rule>     Attribute rule, e.g. "department=Sales" or "tenure>1" (repeatable)
+                         Operators: = != ~ (contains) > >= < <=
+`;
+
+class UsageError extends Error {}
+
+type Format = 'text' | 'json' | 'csv';
+
+interface Output {
+  json: unknown;
+  rows: CsvRow[];
+  text: string;
+}
+
+const { values, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        input: { type: 'string', short: 'i' },
+        seed: { type: 'string' },
+        format: { type: 'string', default: 'text' },
+        size: { type: 'string' },
+        groups: { type: 'string' },
+        remainder: { type: 'string' },
+        min: { type: 'string' },
+        max: { type: 'string' },
+        balance: { type: 'string', multiple: true },
+        leaders: { type: 'boolean' },
+        'note-takers': { type: 'boolean' },
+        count: { type: 'string', short: 'n' },
+        exclude: { type: 'string', multiple: true },
+        where: { type: 'string', multiple: true },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    fail(new UsageError((err as Error).message));
+  }
+})();
+
+function fail(err: unknown): never {
+  const message = err instanceof Error ? err.message : String(err);
+  process.stderr.write(`lucky-draw: ${message}\n`);
+  if (err instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+  process.exit(err instanceof UsageError ? 2 : 1);
+}
+
+function readPositiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${flag} must be a whole number of at least 1.`);
+  return n;
+}
+
+/** Rows get their line number as id, so the same file always gives the same result. */
+function readInput(file: string | undefined): Participant[] {
+  if (file === undefined && process.stdin.isTTY) throw new UsageError('No --input given.');
+  const bytes = readFileSync(file === undefined || file === '-' ? 0 : file);
+  const { participants, issues } = readParticipantsCsv(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+  for (const issue of issues) process.stderr.write(`lucky-draw: skipped row ${issue.row}: ${issue.reason}\n`);
+  if (participants.length === 0) throw new Error('The input has no participants.');
+  return participants.map((p, i) => ({ ...p, id: String(i + 1) }));
+}
+
+const WHERE_OPERATORS: [string, FilterOperator][] = [
+  ['>=', 'gte'], ['<=', 'lte'], ['!=', 'isNot'], ['=', 'is'], ['~', 'contains'], ['>', 'gt'], ['<', 'lt'],
+];
+
+/** The attribute key for a column name typed on the command line, regardless of case. */
+function findColumn(participants: Participant[], name: string, flag: string): string {
+  const key = listAttributeKeys(participants).find(k => k.toLowerCase() === name.trim().toLowerCase());
+  if (!key) throw new UsageError(`--${flag}: the input has no "${name}" column.`);
+  return key;
+}
+
+/** Reads `key<op>value`. */
+function parseWhere(participants: Participant[], rule: string, index: number): AttributeFilter {
+  for (const [symbol, operator] of WHERE_OPERATORS) {
+    const at = rule.indexOf(symbol);
+    if (at <= 0) continue;
+    const key = findColumn(participants, rule.slice(0, at), 'where');
+    return { id: `where-${index}`, key, operator, value: rule.slice(at + symbol.length).trim() };
+  }
+  throw new UsageError(`Can't read --where "${rule}".`);
+}
+
+function describe(p: Participant) {
+  return {
+    id: p.id,
+    name: p.name,
+    ...(p.externalId && { externalId: p.externalId }),
+    ...(p.email && { email: p.email }),
+    ...(p.department && { department: p.department }),
+  };
+}
+
+async function group(participants: Participant[], seed: string): Promise<Output> {
+  const size = readPositiveInt(values.size, 'size');
+  const count = readPositiveInt(values.groups, 'groups');
+  if (!size === !count) throw new UsageError('Give exactly one of --size and --groups.');
+  const remainder = (values.remainder ?? 'short') as RemainderPolicy;
+  if (!['even', 'short', 'range'].includes(remainder)) throw new UsageError('--remainder must be even, short or range.');
+
+  const settings: GroupingSettings = {
+    mode: size ? 'size' : 'count',
+    groupSize: size ?? 1,
+    groupCount: count,
+    remainder,
+    minSize: readPositiveInt(values.min, 'min'),
+    maxSize: readPositiveInt(values.max, 'max'),
+    balanceBy: (values.balance ?? []).map(name => findColumn(participants, name, 'balance')),
+    leaders: values.leaders,
+    noteTakers: values['note-takers'],
+  };
+  const run = groupParticipants(participants, settings, seed);
+  for (const warning of run.warnings) process.stderr.write(`lucky-draw: ${warning}\n`);
+  const groups = toGroups(run.groups, settings);
+  const label = (group: Group, p: Participant) => (p.id === group.leaderId ? `${p.name} (leader)` : p.name);
+
+  return {
+    json: {
+      command: 'group',
+      seed,
+      inputHash: await hashInput(run.input),
+      groups: groups.map(g => ({
+        name: g.name,
+        ...(g.leaderId && { leaderId: g.leaderId }),
+        members: g.members.map(p => ({ ...describe(p), ...(p.role && { role: p.role }) })),
+      })),
+    },
+    rows: groupsToRows(groups),
+    text: groups.map(g => `${g.name} (${g.members.length}): ${g.members.map(p => label(g, p)).join(', ')}`).join('\n'),
+  };
+}
+
+async function draw(participants: Participant[], seed: string): Promise<Output> {
+  const count = readPositiveInt(values.count, 'count') ?? 1;
+  const settings = createEventData().drawSettings;
+  settings.eligibility = {
+    ...settings.eligibility,
+    excluded: values.exclude ?? [],
+    filters: (values.where ?? []).map((rule, i) => parseWhere(participants, rule, i)),
+  };
+  const { pool, winners } = drawWinners(participants, count, settings, seed);
+  if (winners.length < count) {
+    process.stderr.write(`lucky-draw: only ${pool.length} of ${participants.length} participants are eligible.\n`);
+  }
+
+  return {
+    json: {
+      command: 'draw',
+      seed,
+      inputHash: await hashInput(pool),
+      eligible: pool.length,
+      winners: winners.map((p, i) => ({ rank: i + 1, ...describe(p) })),
+    },
+    rows: winners.map((p, i) => ({ Rank: i + 1, Name: p.name, 'Unique ID': p.externalId ?? '', Email: p.email ?? '' })),
+    text: winners.map((p, i) => `${i + 1}. ${p.name}`).join('\n'),
+  };
+}
+
+const COMMANDS: Record<string, (participants: Participant[], seed: string) => Promise<Output>> = { group, draw };
+
+async function main() {
+  const [command] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(`Unknown command "${command}".`);
+  const format = values.format as Format;
+  if (!['text', 'json', 'csv'].includes(format)) throw new UsageError('--format must be text, json or csv.');
+
+  const seed = values.seed ?? generateSeed();
+  const output = await run(readInput(values.input), seed);
+  if (format === 'json') {
+    process.stdout.write(`${JSON.stringify(output.json, null, 2)}\n`);
+  } else {
+    // Keeps stdout to the result itself; the seed is what reproduces it.
+    process.stderr.write(`seed: ${seed}\n`);
+    process.stdout.write(`${format === 'csv' ? toCsv(output.rows) : output.text}\n`);
+  }
+}
+
+main().catch(fail);
@@ -0,0 +1,229 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { AuditEntry, DrawRecord, EventData, EventMeta, Participant, StoredEvent } from '../src/types';
+import { normalizeEventData } from '../src/lib/events';
+import { createId } from '../src/lib/utils';
+
+export type Db = InstanceType<typeof Database>;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0,
+    -- Settings, prizes, groups and rounds as JSON; the growing lists live in their own tables.
+    state TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS participants (
+    event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (event_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS draws (
+    id TEXT PRIMARY KEY,
+    event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    prize_id TEXT,
+    participant_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS draws_event ON draws (event_id, seq);
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_log_event ON audit_log (event_id, timestamp);
+`;
+
+interface EventRow {
+  id: string;
+  name: string;
+  created_at: number;
+  updated_at: number;
+  archived: number;
+  state: string;
+}
+
+type EventState = Omit<EventData, 'participants' | 'drawHistory' | 'auditLog'>;
+
+export function openDatabase(file: string): Db {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  return db;
+}
+
+const toMeta = (row: EventRow): EventMeta => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  archived: row.archived === 1,
+});
+
+/** Event metadata, most recently updated first. */
+export function listEvents(db: Db): EventMeta[] {
+  const rows = db.prepare('SELECT * FROM events ORDER BY updated_at DESC').all() as EventRow[];
+  return rows.map(toMeta);
+}
+
+export function getEventMeta(db: Db, id: string): EventMeta | null {
+  const row = db.prepare('SELECT * FROM events WHERE id = ?').get(id) as EventRow | undefined;
+  return row ? toMeta(row) : null;
+}
+
+export function loadEvent(db: Db, id: string): StoredEvent | null {
+  const row = db.prepare('SELECT * FROM events WHERE id = ?').get(id) as EventRow | undefined;
+  if (!row) return null;
+  const state = JSON.parse(row.state) as Partial<EventState>;
+  return {
+    ...toMeta(row),
+    data: normalizeEventData({
+      ...state,
+      participants: listParticipants(db, id),
+      drawHistory: listDraws(db, id),
+      auditLog: listAudit(db, id),
+    }),
+  };
+}
+
+/**
+ * Writes an event as edited by a client. Draw history and draw audit entries
+ * are only ever written by the server's own draw endpoint, so a client cannot
+ * rewrite who won; group audit entries are added if new.
+ */
+export function saveEvent(db: Db, event: StoredEvent) {
+  const { participants, drawHistory: _drawHistory, auditLog, ...state } = event.data;
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO events (id, name, created_at, updated_at, archived, state)
+      VALUES (@id, @name, @createdAt, @updatedAt, @archived, @state)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name, updated_at = excluded.updated_at, archived = excluded.archived, state = excluded.state
+    `).run({
+      id: event.id,
+      name: event.name,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+      archived: event.archived ? 1 : 0,
+      state: JSON.stringify(state),
+    });
+    replaceParticipants(db, event.id, participants);
+    for (const entry of auditLog) {
+      if (entry.kind === 'group') addAuditEntry(db, event.id, entry);
+    }
+  })();
+}
+
+/**
+ * Writes a new event together with its draw history and whole audit log,
+ * e.g. a restored snapshot or a copy. Taking draws from the client is safe
+ * here because the event has none yet. Draws and audit entries get fresh
+ * ids, since a copy's would clash with the original's.
+ */
+export function insertEvent(db: Db, event: StoredEvent) {
+  const drawIds = new Map(event.data.drawHistory.map(r => [r.id, createId()]));
+  const draws = event.data.drawHistory.map(r => ({
+    ...r,
+    id: drawIds.get(r.id)!,
+    replaces: r.replaces && drawIds.get(r.replaces),
+    replacedBy: r.replacedBy && drawIds.get(r.replacedBy),
+  }));
+  db.transaction(() => {
+    saveEvent(db, { ...event, data: { ...event.data, auditLog: [] } });
+    addDraws(db, event.id, [...draws].reverse());
+    for (const entry of event.data.auditLog) addAuditEntry(db, event.id, { ...entry, id: createId() });
+  })();
+}
+
+export function updateEventMeta(db: Db, id: string, patch: Partial<Pick<EventMeta, 'name' | 'archived'>>) {
+  const meta = getEventMeta(db, id);
+  if (!meta) return null;
+  const next = { ...meta, ...patch, updatedAt: Date.now() };
+  db.prepare('UPDATE events SET name = ?, archived = ?, updated_at = ? WHERE id = ?')
+    .run(next.name, next.archived ? 1 : 0, next.updatedAt, id);
+  return next;
+}
+
+/** Updates the JSON state of an event without touching its lists. */
+export function updateEventState(db: Db, id: string, update: (state: EventState) => EventState) {
+  const row = db.prepare('SELECT state FROM events WHERE id = ?').get(id) as Pick<EventRow, 'state'> | undefined;
+  if (!row) return;
+  db.prepare('UPDATE events SET state = ?, updated_at = ? WHERE id = ?')
+    .run(JSON.stringify(update(JSON.parse(row.state))), Date.now(), id);
+}
+
+/** Marks an event as changed after one of its lists was edited directly. */
+export function touchEvent(db: Db, id: string) {
+  db.prepare('UPDATE events SET updated_at = ? WHERE id = ?').run(Date.now(), id);
+}
+
+export function deleteEvent(db: Db, id: string): boolean {
+  return db.prepare('DELETE FROM events WHERE id = ?').run(id).changes > 0;
+}
+
+export function listParticipants(db: Db, eventId: string): Participant[] {
+  const rows = db.prepare('SELECT data FROM participants WHERE event_id = ? ORDER BY position')
+    .all(eventId) as { data: string }[];
+  return rows.map(row => JSON.parse(row.data));
+}
+
+export function replaceParticipants(db: Db, eventId: string, participants: Participant[]) {
+  db.prepare('DELETE FROM participants WHERE event_id = ?').run(eventId);
+  const insert = db.prepare('INSERT OR REPLACE INTO participants (event_id, id, position, data) VALUES (?, ?, ?, ?)');
+  participants.forEach((p, i) => insert.run(eventId, p.id, i, JSON.stringify(p)));
+}
+
+/** Draw history, newest first (the order the app keeps it in). */
+export function listDraws(db: Db, eventId: string): DrawRecord[] {
+  const rows = db.prepare('SELECT data FROM draws WHERE event_id = ? ORDER BY seq DESC')
+    .all(eventId) as { data: string }[];
+  return rows.map(row => JSON.parse(row.data));
+}
+
+/** Appends one round's winners, given in the order they were drawn. */
+export function addDraws(db: Db, eventId: string, records: DrawRecord[]) {
+  const { last } = db.prepare('SELECT COALESCE(MAX(seq), 0) AS last FROM draws WHERE event_id = ?')
+    .get(eventId) as { last: number };
+  const insert = db.prepare(
+    'INSERT INTO draws (id, event_id, seq, timestamp, prize_id, participant_id, data) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+  records.forEach((r, i) =>
+    insert.run(r.id, eventId, last + i + 1, r.timestamp, r.prizeId, r.participant.id, JSON.stringify(r))
+  );
+}
+
+export function updateDraw(db: Db, eventId: string, record: DrawRecord) {
+  db.prepare('UPDATE draws SET participant_id = ?, data = ? WHERE id = ? AND event_id = ?')
+    .run(record.participant.id, JSON.stringify(record), record.id, eventId);
+}
+
+export function clearDraws(db: Db, eventId: string) {
+  db.prepare('DELETE FROM draws WHERE event_id = ?').run(eventId);
+}
+
+/** Audit entries, newest first. */
+export function listAudit(db: Db, eventId: string, kind?: AuditEntry['kind']): AuditEntry[] {
+  const rows = (kind
+    ? db.prepare('SELECT data FROM audit_log WHERE event_id = ? AND kind = ? ORDER BY timestamp DESC').all(eventId, kind)
+    : db.prepare('SELECT data FROM audit_log WHERE event_id = ? ORDER BY timestamp DESC').all(eventId)
+  ) as { data: string }[];
+  return rows.map(row => JSON.parse(row.data));
+}
+
+/** Audit entries are append-only: an id that is already stored is left as it was. */
+export function addAuditEntry(db: Db, eventId: string, entry: AuditEntry) {
+  db.prepare('INSERT OR IGNORE INTO audit_log (id, event_id, kind, timestamp, data) VALUES (?, ?, ?, ?, ?)')
+    .run(entry.id, eventId, entry.kind, entry.timestamp, JSON.stringify(entry));
+}
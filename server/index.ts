@@ -0,0 +1,30 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import express from 'express';
+import { openDatabase } from './db';
+import { createApiRouter } from './routes';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const port = Number(process.env.PORT ?? 3000);
+const dbPath = path.resolve(root, process.env.DB_PATH ?? 'data/lucky-draw.db');
+const production = process.env.NODE_ENV === 'production';
+
+const db = openDatabase(dbPath);
+const app = express();
+
+app.use('/api', createApiRouter(db));
+
+if (production) {
+  // Serves the output of `npm run build`.
+  const dist = path.join(root, 'dist');
+  app.use(express.static(dist));
+  app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+} else {
+  const { createServer } = await import('vite');
+  const vite = await createServer({ root, server: { middlewareMode: true }, appType: 'spa' });
+  app.use(vite.middlewares);
+}
+
+app.listen(port, '0.0.0.0', () => {
+  console.log(`Lucky Draw server on http://localhost:${port} (database: ${dbPath})`);
+});
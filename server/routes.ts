@@ -0,0 +1,521 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import type { DrawStatus, EventData, EventMeta, GroupAuditEntry, GroupingConstraint, GroupingSettings, GroupRound, Participant, StoredEvent } from '../src/types';
+import { createAuditEntry, hideUnrevealedSeeds, isSeedHidden, nextSeed, publishSeed, withholdSeed } from '../src/lib/audit';
+import { filterCheckedIn } from '../src/lib/attendance';
+import { executeDraw, groupParticipants, readParticipantsCsv, reshuffleGroups, toGroups } from '../src/lib/core';
+import { applyRedraw, canSetDrawStatus, collectPastWinners, parseWeight, planDrawRound, planRedraw, setDrawStatus, type DrawPlan } from '../src/lib/draw';
+import { mergeEventParticipants } from '../src/lib/duplicates';
+import { createEvent, normalizeEventData, selectPreviousEvents } from '../src/lib/events';
+import { GroupingError } from '../src/lib/grouping';
+import { parseGroupRole } from '../src/lib/roles';
+import { buildPairHistory, getNewPairRatio, roundsToIds } from '../src/lib/rotation';
+import { createId } from '../src/lib/utils';
+import * as store from './db';
+
+/** An error with the HTTP status it should be reported with. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+type Handler = (req: Request, res: Response) => unknown;
+
+// Express 4 does not forward rejected promises to the error handler by itself.
+const handle = (fn: Handler) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve().then(() => fn(req, res)).catch(next);
+};
+
+function requireEvent(db: store.Db, id: string): StoredEvent {
+  const event = store.loadEvent(db, id);
+  if (!event) throw new HttpError(404, `Event ${id} not found.`);
+  return event;
+}
+
+/**
+ * An event as sent to clients: until the reveal, without the published seed's
+ * secret or the audit seeds derived from it, which would give it away.
+ */
+function withHiddenSeeds(event: StoredEvent): StoredEvent {
+  const { auditLog, publishedSeed } = event.data;
+  return {
+    ...event,
+    data: { ...event.data, publishedSeed: withholdSeed(publishedSeed), auditLog: hideUnrevealedSeeds(auditLog, publishedSeed) },
+  };
+}
+
+/** Accepts participant objects from JSON, filling in ids and checking names. */
+function readParticipants(items: unknown[]) {
+  const participants: Participant[] = [];
+  const issues: { row: number; reason: string }[] = [];
+  items.forEach((item, i) => {
+    const raw = (typeof item === 'string' ? { name: item } : item) as Partial<Participant> | null;
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+      issues.push({ row: i + 1, reason: 'Missing name.' });
+      return;
+    }
+    participants.push({
+      ...raw,
+      id: typeof raw!.id === 'string' && raw!.id ? raw!.id : createId(),
+      name,
+      weight: raw!.weight === undefined ? undefined : parseWeight(raw!.weight),
+      role: typeof raw!.role === 'string' ? parseGroupRole(raw!.role) : undefined,
+    });
+  });
+  return { participants, issues };
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isConstraint = (value: unknown): value is GroupingConstraint => {
+  const c = value as Partial<GroupingConstraint> | null;
+  return typeof c === 'object' && c !== null && typeof c.id === 'string'
+    && (c.kind === 'together' || c.kind === 'apart') && isStringList(c.memberIds);
+};
+
+/**
+ * Grouping settings from a request body, to be merged over the saved ones.
+ * Only the settings a client may choose are taken; anything else is ignored.
+ */
+function readGroupingOverrides(value: unknown): Partial<GroupingSettings> {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, 'Expected `settings` to be an object.');
+  }
+  const settings = value as Partial<Record<keyof GroupingSettings, unknown>>;
+  const overrides: Partial<GroupingSettings> = {};
+  if (settings.mode !== undefined) {
+    if (settings.mode !== 'size' && settings.mode !== 'count') throw new HttpError(400, '`settings.mode` must be "size" or "count".');
+    overrides.mode = settings.mode;
+  }
+  if (settings.remainder !== undefined) {
+    if (settings.remainder !== 'even' && settings.remainder !== 'short' && settings.remainder !== 'range') {
+      throw new HttpError(400, '`settings.remainder` must be "even", "short" or "range".');
+    }
+    overrides.remainder = settings.remainder;
+  }
+  for (const key of ['groupSize', 'groupCount', 'minSize', 'maxSize'] as const) {
+    const n = settings[key];
+    if (n === undefined) continue;
+    if (typeof n !== 'number' || !(Number.isInteger(n) && n > 0)) {
+      throw new HttpError(400, `\`settings.${key}\` must be a positive integer.`);
+    }
+    overrides[key] = n;
+  }
+  for (const key of ['checkedInOnly', 'leaders', 'noteTakers', 'avoidRepeats'] as const) {
+    const flag = settings[key];
+    if (flag === undefined) continue;
+    if (typeof flag !== 'boolean') throw new HttpError(400, `\`settings.${key}\` must be true or false.`);
+    overrides[key] = flag;
+  }
+  if (settings.balanceBy !== undefined) {
+    if (!isStringList(settings.balanceBy)) throw new HttpError(400, '`settings.balanceBy` must be an array of strings.');
+    overrides.balanceBy = settings.balanceBy;
+  }
+  if (settings.constraints !== undefined) {
+    if (!Array.isArray(settings.constraints) || !settings.constraints.every(isConstraint)) {
+      throw new HttpError(400, '`settings.constraints` must be an array of `{ id, kind: "together" | "apart", memberIds: string[] }`.');
+    }
+    overrides.constraints = settings.constraints.map(({ id, kind, memberIds }) => ({ id, kind, memberIds }));
+  }
+  return overrides;
+}
+
+function requireDraw(data: EventData, drawId: string) {
+  const record = data.drawHistory.find(r => r.id === drawId);
+  if (!record) throw new HttpError(404, `Draw ${drawId} not found.`);
+  return record;
+}
+
+/** Winners of the events that the eligibility rules block, if any. */
+function loadPastWinners(db: store.Db, event: StoredEvent) {
+  const previous = selectPreviousEvents(store.listEvents(db), event.id, event.data.drawSettings.eligibility.blockRecentEvents);
+  return collectPastWinners(previous.map(meta => store.loadEvent(db, meta.id)).filter(Boolean) as StoredEvent[]);
+}
+
+/** Picks the winners for a planned round from the event's next seed. */
+async function draw(data: EventData, plan: DrawPlan) {
+  const { seed, commitment } = nextSeed(data.publishedSeed);
+  const { winners, records } = executeDraw(plan, seed);
+  const audit = await createAuditEntry({
+    kind: 'draw',
+    seed,
+    commitment,
+    input: plan.pool,
+    params: { count: plan.count },
+    result: winners.map(w => w.id),
+  });
+  const publishedSeed = commitment && data.publishedSeed
+    ? { ...data.publishedSeed, uses: data.publishedSeed.uses + 1 }
+    : data.publishedSeed;
+  return { records, audit, publishedSeed };
+}
+
+export function createApiRouter(db: store.Db) {
+  const router = express.Router();
+  router.use(express.json({ limit: '20mb' }));
+
+  // Draws and groupings read the event, await the audit hash and then write.
+  // Handlers that change an event's draws or seed take turns per event, so
+  // two of them never plan from the same state (and pick the same winner).
+  const queues = new Map<string, Promise<unknown>>();
+  const inTurn = (fn: Handler): Handler => (req, res) => {
+    const id = req.params.id;
+    const turn = (queues.get(id) ?? Promise.resolve()).catch(() => undefined).then(() => fn(req, res));
+    queues.set(id, turn);
+    const release = () => {
+      if (queues.get(id) === turn) queues.delete(id);
+    };
+    turn.then(release, release);
+    return turn;
+  };
+
+  router.get('/health', (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  // Events
+
+  router.get('/events', handle((_req, res) => {
+    res.json(store.listEvents(db));
+  }));
+
+  /**
+   * Creates an event from `{ name, id?, data? }`. Unlike a save, `data` may
+   * bring draw history and audit entries along, as restoring a snapshot or
+   * copying an event does; see store.insertEvent.
+   */
+  router.post('/events', handle((req, res) => {
+    const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : 'Untitled Event';
+    const event = createEvent(name, normalizeEventData(req.body?.data ?? {}));
+    if (typeof req.body?.id === 'string' && req.body.id) event.id = req.body.id;
+    if (store.getEventMeta(db, event.id)) throw new HttpError(409, `Event ${event.id} already exists.`);
+    store.insertEvent(db, event);
+    res.status(201).json(withHiddenSeeds(store.loadEvent(db, event.id)!));
+  }));
+
+  router.get('/events/:id', handle((req, res) => {
+    res.json(withHiddenSeeds(requireEvent(db, req.params.id)));
+  }));
+
+  /**
+   * Full save from the app. Draw history is ignored (see store.saveEvent), and
+   * so is the published seed: it only changes through the seed endpoints and
+   * as draws and groupings use it, so a stale save can't rewind it.
+   */
+  router.put('/events/:id', handle(inTurn((req, res) => {
+    const body = req.body as Partial<StoredEvent> | undefined;
+    if (!body?.data || typeof body.name !== 'string') throw new HttpError(400, 'Expected an event with a name and data.');
+    const existing = store.loadEvent(db, req.params.id);
+    const now = Date.now();
+    store.saveEvent(db, {
+      id: req.params.id,
+      name: body.name,
+      createdAt: existing?.createdAt ?? body.createdAt ?? now,
+      updatedAt: now,
+      archived: Boolean(body.archived),
+      data: { ...normalizeEventData(body.data), publishedSeed: existing?.data.publishedSeed ?? null },
+    });
+    res.json(store.getEventMeta(db, req.params.id));
+  })));
+
+  router.patch('/events/:id', handle((req, res) => {
+    const patch: Partial<Pick<EventMeta, 'name' | 'archived'>> = {};
+    if (typeof req.body?.name === 'string' && req.body.name.trim()) patch.name = req.body.name.trim();
+    if (typeof req.body?.archived === 'boolean') patch.archived = req.body.archived;
+    const meta = store.updateEventMeta(db, req.params.id, patch);
+    if (!meta) throw new HttpError(404, `Event ${req.params.id} not found.`);
+    res.json(meta);
+  }));
+
+  router.delete('/events/:id', handle((req, res) => {
+    if (!store.deleteEvent(db, req.params.id)) throw new HttpError(404, `Event ${req.params.id} not found.`);
+    res.status(204).end();
+  }));
+
+  // Participants
+
+  router.get('/events/:id/participants', handle((req, res) => {
+    res.json(requireEvent(db, req.params.id).data.participants);
+  }));
+
+  /**
+   * Body: `{ participants: (string | Participant)[] }` or `{ csv: string }`,
+   * plus `replace: true` to drop the current list first. CSV columns are
+   * mapped the same way the import wizard guesses them.
+   */
+  router.post('/events/:id/participants', handle((req, res) => {
+    const event = requireEvent(db, req.params.id);
+    let result: ReturnType<typeof readParticipants>;
+    if (typeof req.body?.csv === 'string') {
+      result = readParticipantsCsv(req.body.csv);
+    } else if (Array.isArray(req.body?.participants)) {
+      result = readParticipants(req.body.participants);
+    } else {
+      throw new HttpError(400, 'Expected `participants` (array) or `csv` (string).');
+    }
+
+    const current = req.body.replace ? [] : event.data.participants;
+    const ids = new Set(current.map(p => p.id));
+    const added = result.participants.filter(p => !ids.has(p.id) && ids.add(p.id));
+    store.replaceParticipants(db, event.id, [...current, ...added]);
+    store.touchEvent(db, event.id);
+    res.status(201).json({ added: added.length, total: current.length + added.length, issues: result.issues });
+  }));
+
+  /**
+   * Body: `{ merges: [keepId, dropId][] }`. Folds each duplicate into the
+   * entry it is kept as, moving its draws, groups and rules along with it
+   * (see mergeEventParticipants). Responds with the updated event.
+   */
+  router.post('/events/:id/participants/merge', handle(inTurn((req, res) => {
+    const event = requireEvent(db, req.params.id);
+    const merges = req.body?.merges;
+    const isPair = (m: unknown): m is [string, string] =>
+      Array.isArray(m) && m.length === 2 && m.every(id => typeof id === 'string');
+    if (!Array.isArray(merges) || !merges.every(isPair)) {
+      throw new HttpError(400, 'Expected `merges` as an array of [keepId, dropId] pairs.');
+    }
+    const data = merges.reduce((current, [keepId, dropId]) => mergeEventParticipants(current, keepId, dropId), event.data);
+    const before = new Map(event.data.drawHistory.map(r => [r.id, r]));
+    db.transaction(() => {
+      store.replaceParticipants(db, event.id, data.participants);
+      for (const record of data.drawHistory) {
+        if (record !== before.get(record.id)) store.updateDraw(db, event.id, record);
+      }
+      store.updateEventState(db, event.id, state => ({
+        ...state,
+        groups: data.groups,
+        groupingSettings: data.groupingSettings,
+        groupRounds: data.groupRounds,
+      }));
+    })();
+    res.json(withHiddenSeeds(store.loadEvent(db, event.id)!));
+  })));
+
+  // Draws
+
+  router.get('/events/:id/draws', handle((req, res) => {
+    res.json(requireEvent(db, req.params.id).data.drawHistory);
+  }));
+
+  /**
+   * Runs the next draw round on the server: the pool, prize tier and number
+   * of winners come from the stored event, and the seed from its published
+   * seed when one is active. Responds with the new records (in draw order),
+   * the audit entry and the updated published seed.
+   */
+  router.post('/events/:id/draws', handle(inTurn(async (req, res) => {
+    const event = requireEvent(db, req.params.id);
+    const { id, data } = event;
+    const round = planDrawRound(data.participants, data.drawHistory, data.drawSettings, data.prizes, loadPastWinners(db, event));
+    if (data.drawSettings.mode === 'prizes' && !round.prize) throw new HttpError(409, 'Every prize has been drawn.');
+    if (round.count === 0) throw new HttpError(409, 'Nobody is left to draw.');
+
+    const result = await draw(data, round);
+    db.transaction(() => {
+      store.addDraws(db, id, result.records);
+      store.addAuditEntry(db, id, result.audit);
+      store.updateEventState(db, id, state => ({ ...state, publishedSeed: result.publishedSeed }));
+    })();
+    res.status(201).json({
+      ...result,
+      audit: hideUnrevealedSeeds([result.audit], result.publishedSeed)[0],
+      publishedSeed: withholdSeed(result.publishedSeed),
+    });
+  })));
+
+  /** Confirms or forfeits a pending winner, or takes a confirmation back (see canSetDrawStatus). */
+  router.patch('/events/:id/draws/:drawId', handle(inTurn((req, res) => {
+    const { id, data } = requireEvent(db, req.params.id);
+    const record = requireDraw(data, req.params.drawId);
+    const status = req.body?.status as DrawStatus;
+    if (!canSetDrawStatus(record, status)) {
+      throw new HttpError(409, `A ${record.status} winner cannot be set to ${status}.`);
+    }
+    const updated = setDrawStatus(data.drawHistory, record.id, status).find(r => r.id === record.id)!;
+    store.updateDraw(db, id, updated);
+    store.touchEvent(db, id);
+    res.json(updated);
+  })));
+
+  /**
+   * Replaces an absent (pending) winner: draws one person for the same prize,
+   * excluding everyone already in the record's chain. Responds like a draw,
+   * with `records` holding the replacement and `replaced` the updated original.
+   */
+  router.post('/events/:id/draws/:drawId/redraw', handle(inTurn(async (req, res) => {
+    const event = requireEvent(db, req.params.id);
+    const { id, data } = event;
+    const record = requireDraw(data, req.params.drawId);
+    const plan = planRedraw(data.participants, data.drawHistory, data.drawSettings, record.id, loadPastWinners(db, event));
+    if (!plan) throw new HttpError(409, 'Only a pending winner can be redrawn.');
+    if (plan.count === 0) throw new HttpError(409, 'Nobody is left to draw.');
+
+    const result = await draw(data, plan);
+    const history = applyRedraw(data.drawHistory, record.id, result.records[0]);
+    const [replacement] = history;
+    const replaced = history.find(r => r.id === record.id)!;
+    db.transaction(() => {
+      store.addDraws(db, id, [replacement]);
+      store.updateDraw(db, id, replaced);
+      store.addAuditEntry(db, id, result.audit);
+      store.updateEventState(db, id, state => ({ ...state, publishedSeed: result.publishedSeed }));
+    })();
+    res.status(201).json({
+      ...result,
+      audit: hideUnrevealedSeeds([result.audit], result.publishedSeed)[0],
+      publishedSeed: withholdSeed(result.publishedSeed),
+      records: [replacement],
+      replaced,
+    });
+  })));
+
+  router.delete('/events/:id/draws', handle(inTurn((req, res) => {
+    const { id } = requireEvent(db, req.params.id);
+    store.clearDraws(db, id);
+    store.touchEvent(db, id);
+    res.status(204).end();
+  })));
+
+  // Groupings
+
+  router.get('/events/:id/groupings', handle((req, res) => {
+    const { id, data } = requireEvent(db, req.params.id);
+    const entries = store.listAudit(db, id, 'group') as GroupAuditEntry[];
+    res.json(entries.map(entry => {
+      const byId = new Map(entry.input.map(p => [p.id, p]));
+      return {
+        id: entry.id,
+        timestamp: entry.timestamp,
+        seed: isSeedHidden(entry, data.publishedSeed) ? null : entry.seed,
+        commitment: entry.commitment,
+        groups: entry.result.map(ids => ids.map(pid => ({ id: pid, name: byId.get(pid)?.name ?? null }))),
+      };
+    }));
+  }));
+
+  /**
+   * Groups the event's participants with its saved settings, optionally
+   * overridden by `settings` in the body. The result replaces the event's
+   * current groups and, with rotation on, is saved as a new round.
+   */
+  router.post('/events/:id/groupings', handle(inTurn(async (req, res) => {
+    const { id, data } = requireEvent(db, req.params.id);
+    if (data.participants.length === 0) throw new HttpError(409, 'The event has no participants.');
+    const base: GroupingSettings = { ...data.groupingSettings, ...readGroupingOverrides(req.body?.settings), lockedLayout: undefined };
+    if (filterCheckedIn(data.participants, base.checkedInOnly).length === 0) throw new HttpError(409, 'Nobody has checked in yet.');
+    const history = roundsToIds(data.groupRounds);
+
+    const { seed, commitment } = nextSeed(data.publishedSeed);
+    const { input, settings, groups: result, warnings } = groupParticipants(data.participants, base, seed, history);
+    const ids = result.map(g => g.map(p => p.id));
+    const audit = await createAuditEntry({ kind: 'group', seed, commitment, input, params: settings, result: ids });
+    const groups = toGroups(result, settings);
+    const round: GroupRound | null = settings.avoidRepeats
+      ? { id: createId(), timestamp: Date.now(), groups: ids, newPairRatio: getNewPairRatio(ids, buildPairHistory(history)) }
+      : null;
+    const publishedSeed = commitment && data.publishedSeed
+      ? { ...data.publishedSeed, uses: data.publishedSeed.uses + 1 }
+      : data.publishedSeed;
+
+    db.transaction(() => {
+      store.addAuditEntry(db, id, audit);
+      store.updateEventState(db, id, state => ({
+        ...state,
+        publishedSeed,
+        groups,
+        groupRounds: round ? [...state.groupRounds, round] : state.groupRounds,
+      }));
+    })();
+    res.status(201).json({
+      groups,
+      round,
+      audit: hideUnrevealedSeeds([audit], publishedSeed)[0],
+      publishedSeed: withholdSeed(publishedSeed),
+      warnings,
+    });
+  })));
+
+  /**
+   * Keeps the locked groups and members of the event's current groups in
+   * place and re-randomizes everyone else, like the app's Reshuffle Unlocked.
+   * Responds with the groups, the audit entry and the updated published seed.
+   */
+  router.post('/events/:id/groupings/reshuffle', handle(inTurn(async (req, res) => {
+    const { id, data } = requireEvent(db, req.params.id);
+    if (!data.groups.some(g => g.locked || (g.lockedMemberIds ?? []).length > 0)) {
+      throw new HttpError(409, 'Lock a member or group first.');
+    }
+    const { seed, commitment } = nextSeed(data.publishedSeed);
+    const { input, settings, groups } = reshuffleGroups(data.groups, data.participants, data.groupingSettings, seed, roundsToIds(data.groupRounds));
+    const audit = await createAuditEntry({
+      kind: 'group',
+      seed,
+      commitment,
+      input,
+      params: settings,
+      result: groups.map(g => g.members.map(p => p.id)),
+    });
+    const publishedSeed = commitment && data.publishedSeed
+      ? { ...data.publishedSeed, uses: data.publishedSeed.uses + 1 }
+      : data.publishedSeed;
+
+    db.transaction(() => {
+      store.addAuditEntry(db, id, audit);
+      store.updateEventState(db, id, state => ({ ...state, publishedSeed, groups }));
+    })();
+    res.status(201).json({ groups, audit: hideUnrevealedSeeds([audit], publishedSeed)[0], publishedSeed: withholdSeed(publishedSeed) });
+  })));
+
+  // Published seed
+
+  /**
+   * Commits to a new secret seed that the following draws and groupings are
+   * derived from. Responds with its commitment; the seed itself stays on the
+   * server until the reveal.
+   */
+  router.post('/events/:id/seed', handle(inTurn(async (req, res) => {
+    const { id, data } = requireEvent(db, req.params.id);
+    if (data.publishedSeed && !data.publishedSeed.revealed) throw new HttpError(409, 'A published seed is already active.');
+    const publishedSeed = await publishSeed();
+    store.updateEventState(db, id, state => ({ ...state, publishedSeed }));
+    res.status(201).json(withholdSeed(publishedSeed));
+  })));
+
+  /** Reveals the published seed. Responds with it and the audit log, whose seeds are no longer withheld. */
+  router.post('/events/:id/seed/reveal', handle(inTurn((req, res) => {
+    const { id, data } = requireEvent(db, req.params.id);
+    if (!data.publishedSeed || data.publishedSeed.revealed) throw new HttpError(409, 'There is no unrevealed seed.');
+    const publishedSeed = { ...data.publishedSeed, revealed: true };
+    store.updateEventState(db, id, state => ({ ...state, publishedSeed }));
+    res.json({ publishedSeed, auditLog: data.auditLog });
+  })));
+
+  // Audit
+
+  router.get('/events/:id/audit', handle((req, res) => {
+    const { data } = requireEvent(db, req.params.id);
+    res.json(hideUnrevealedSeeds(data.auditLog, data.publishedSeed));
+  }));
+
+  router.use((_req: Request, _res: Response, next: NextFunction) => next(new HttpError(404, 'Not found.')));
+
+  router.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof HttpError) {
+      res.status(err.status).json({ error: err.message });
+    } else if (err instanceof GroupingError) {
+      res.status(422).json({ error: err.message, key: err.key, params: err.params, constraintId: err.constraintId });
+    } else if (err instanceof SyntaxError) {
+      res.status(400).json({ error: 'Malformed JSON body.' });
+    } else {
+      console.error(err);
+      res.status(500).json({ error: 'Internal server error.' });
+    }
+  });
+
+  return router;
+}
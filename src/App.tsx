@@ -3,162 +3,751 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useMemo } from 'react';
-import { Users, Gift, LayoutGrid, Trash2, Upload, Download, Plus, CheckCircle2, AlertCircle } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Users, Gift, LayoutGrid, Trash2, Upload, Download, Plus, CheckCircle2, AlertCircle, Shuffle, Server, HardDrive, MonitorPlay, Share2, Crown } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import Papa from 'papaparse';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
+import type { AppTab, AuditEntry, DrawMode, DrawRecord, DrawSettings, DrawStatus, EventData, EventMeta, Group, GroupingMode, GroupingSettings, GroupRole, GroupRound, Participant, Prize, PublishedSeed, RemainderPolicy } from './types';
+import { cn, createId, downloadFile } from './lib/utils';
+import { createEvent, createEventData, selectPreviousEvents } from './lib/events';
+import { deleteEvent, getActiveEventId, importEvent, listEvents, loadEvent, saveEvent, setActiveEventId } from './lib/storage';
+import { createAuditEntry, nextSeed, publishSeed } from './lib/audit';
+import { GroupingError, planGroups } from './lib/grouping';
+import { buildPairHistory, getNewPairRatio, roundsToIds } from './lib/rotation';
+import { getAttributeLabel, listAttributeKeys, sortByName } from './lib/participants';
+import { filterCheckedIn, isCheckedIn, setCheckedIn } from './lib/attendance';
+import { executeDraw, groupParticipants, readNameList, reshuffleGroups, toGroups } from './lib/core';
+import { countRole, drawGroupLeaders, dropDepartedLeader, GROUP_ROLES } from './lib/roles';
+import { exportDrawResults, exportGroups, scheduleToRows, toCsv, toFileName } from './lib/export';
+import { createSnapshot, parseSnapshot, serializeSnapshot, snapshotFileName, SnapshotError, type SessionSnapshot } from './lib/snapshot';
+import { collectSharedResults, type SharedResults } from './lib/share';
+import { dropExactDuplicates, findDuplicates, markDistinct, mergeEventParticipants } from './lib/duplicates';
+import { applyRedraw, canSetDrawStatus, collectPastWinners, countWinnersByPrize, getEligibility, getOdds, getWeight, holdsPrize, parseWeight, planDrawRound, planRedraw, setDrawStatus, type DrawPlan } from './lib/draw';
+import { buildPlayback, type DrawPlayback } from './lib/animation';
+import { api, ApiError, hasServer, type ServerGrouping } from './lib/api';
+import { amendCurrent, canRedo, canUndo, createHistory, moveTo, recordAction, restoreData, type History } from './lib/history';
+import { useI18n } from './lib/i18n';
+import PrizeEditor from './components/PrizeEditor';
+import FairnessPanel from './components/FairnessPanel';
+import ImportWizard from './components/ImportWizard';
+import ConstraintsEditor from './components/ConstraintsEditor';
+import RotationPanel from './components/RotationPanel';
+import GroupCard, { type DragPayload } from './components/GroupCard';
+import EventSwitcher from './components/EventSwitcher';
+import DrawStage from './components/DrawStage';
+import AnimationSettings from './components/AnimationSettings';
+import DrawHistoryPanel from './components/DrawHistoryPanel';
+import CheckInPanel from './components/CheckInPanel';
+import DuplicateReview from './components/DuplicateReview';
+import ExportDialog from './components/ExportDialog';
+import ShareDialog from './components/ShareDialog';
+import EligibilityPanel from './components/EligibilityPanel';
+import HistoryPanel from './components/HistoryPanel';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import type { PastWinner } from './lib/eligibility';
+import { openStageChannel, openStageWindow, type StageChannel, type StageState } from './lib/stage';
 
-// Utility for tailwind classes
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-// Types
-interface Participant {
-  id: string;
-  name: string;
-}
-
-type Tab = 'source' | 'draw' | 'group';
+const DEFAULTS = createEventData();
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('source');
+  const { locale, collation, t, rich } = useI18n();
+  const [activeTab, setActiveTab] = useState<AppTab>('source');
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [inputText, setInputText] = useState('');
   const [autoDeduplicate, setAutoDeduplicate] = useState(true);
+  const [sourceView, setSourceView] = useState<'list' | 'checkin'>('list');
+  const [listOrder, setListOrder] = useState<'name' | 'added'>('name');
+  const [reviewingDuplicates, setReviewingDuplicates] = useState(false);
+  const [exporting, setExporting] = useState<'groups' | 'draws' | null>(null);
+  const [sharing, setSharing] = useState<SharedResults | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
   
   // Lucky Draw State
-  const [drawHistory, setDrawHistory] = useState<Participant[]>([]);
+  const [drawHistory, setDrawHistory] = useState<DrawRecord[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [currentWinner, setCurrentWinner] = useState<Participant | null>(null);
-  const [allowRepeat, setAllowRepeat] = useState(false);
+  const [currentWinners, setCurrentWinners] = useState<Participant[]>([]);
+  const [playback, setPlayback] = useState<DrawPlayback | null>(null);
+  const [revealedAt, setRevealedAt] = useState<number | null>(null);
+  // Prize of the round being drawn, which differs from the current tier during a redraw.
+  const [stagePrize, setStagePrize] = useState<DrawPlan['prize']>(null);
+  const [drawSettings, setDrawSettings] = useState<DrawSettings>(DEFAULTS.drawSettings);
+  const [prizes, setPrizes] = useState<Prize[]>([]);
+
+  // Fairness State
+  const [publishedSeed, setPublishedSeed] = useState<PublishedSeed | null>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  // Hashing needs crypto.subtle, which browsers only offer on https and
+  // localhost; opened by LAN address, local draws go unaudited.
+  const [auditUnavailable, setAuditUnavailable] = useState(() => !globalThis.crypto?.subtle);
 
   // Grouping State
-  const [groupSize, setGroupSize] = useState(3);
-  const [groups, setGroups] = useState<Participant[][]>([]);
+  const [groupingSettings, setGroupingSettings] = useState<GroupingSettings>(DEFAULTS.groupingSettings);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupingError, setGroupingError] = useState<GroupingError | null>(null);
+  const [groupRounds, setGroupRounds] = useState<GroupRound[]>([]);
+
+  // Event State
+  const [events, setEvents] = useState<EventMeta[]>([]);
+  const [activeEventId, setActiveEventIdState] = useState<string | null>(null);
+  // True when served by the local server, which then stores events and runs draws.
+  const [serverMode, setServerMode] = useState(false);
+
+  // Stage State
+  const [stageIds, setStageIds] = useState<string[]>([]);
+  const stageChannel = useRef<StageChannel | null>(null);
+  // Set when an event has just been loaded, so restoring it doesn't count as an edit.
+  const skipNextSave = useRef(false);
+
+  // Undo State
+  const [history, setHistory] = useState<History>(() => createHistory(DEFAULTS));
+  // Label for the next change to the event data; set by `track` right before an action's state updates.
+  const pendingAction = useRef<string | null>(null);
+  const historyEventId = useRef<string | null>(null);
+
+  const eventData = useMemo<EventData>(() => ({
+    participants,
+    drawSettings,
+    prizes,
+    drawHistory,
+    publishedSeed,
+    auditLog,
+    groupingSettings,
+    groups,
+    groupRounds,
+  }), [participants, drawSettings, prizes, drawHistory, publishedSeed, auditLog, groupingSettings, groups, groupRounds]);
+
+  const applyEventData = (data: EventData) => {
+    setParticipants(data.participants);
+    setDrawSettings(data.drawSettings);
+    setPrizes(data.prizes);
+    setDrawHistory(data.drawHistory);
+    setPublishedSeed(data.publishedSeed);
+    setAuditLog(data.auditLog);
+    setGroupingSettings(data.groupingSettings);
+    setGroups(data.groups);
+    setGroupRounds(data.groupRounds);
+    setCurrentWinners([]);
+    setGroupingError(null);
+  };
+
+  const refreshEvents = async () => setEvents(await listEvents());
+
+  const saveActiveEvent = async () => {
+    const meta = events.find(e => e.id === activeEventId);
+    if (meta) await saveEvent({ ...meta, updatedAt: Date.now(), data: eventData });
+  };
+
+  const openEvent = async (id: string) => {
+    const event = await loadEvent(id);
+    if (!event) return;
+    skipNextSave.current = true;
+    applyEventData(event.data);
+    setActiveEventIdState(id);
+    setActiveEventId(id);
+  };
+
+  const switchEvent = async (id: string) => {
+    if (id === activeEventId || isDrawing) return;
+    await saveActiveEvent();
+    await openEvent(id);
+    await refreshEvents();
+  };
+
+  const handleCreateEvent = async (name: string) => {
+    if (isDrawing) return;
+    await saveActiveEvent();
+    const event = createEvent(name);
+    await saveEvent(event);
+    await openEvent(event.id);
+    await refreshEvents();
+  };
+
+  const updateEventMeta = async (id: string, patch: Partial<EventMeta>) => {
+    const meta = events.find(e => e.id === id);
+    const stored = id === activeEventId && meta ? { ...meta, data: eventData } : await loadEvent(id);
+    if (!stored) return;
+    await saveEvent({ ...stored, ...patch, updatedAt: Date.now() });
+    await refreshEvents();
+  };
+
+  const handleDuplicateEvent = async (id: string) => {
+    const source = id === activeEventId ? { ...events.find(e => e.id === id)!, data: eventData } : await loadEvent(id);
+    if (!source) return;
+    await importEvent(createEvent(t('events.copyName', { name: source.name }), structuredClone(source.data)));
+    await refreshEvents();
+  };
+
+  const handleExportEvent = async (id: string) => {
+    const source = id === activeEventId ? { ...events.find(e => e.id === id)!, data: eventData } : await loadEvent(id);
+    if (!source) return;
+    const snapshot = createSnapshot(source.name, source.data);
+    downloadFile(serializeSnapshot(snapshot), toFileName(snapshotFileName(snapshot), 'json'), 'application/json');
+  };
+
+  // A snapshot always opens as a new event, so importing never overwrites anything.
+  const handleImportEvent = async (file: File) => {
+    if (isDrawing) return;
+    let snapshot: SessionSnapshot;
+    try {
+      snapshot = parseSnapshot(await file.text());
+    } catch (err) {
+      if (!(err instanceof SnapshotError)) throw err;
+      window.alert(t('events.importFailed', { file: file.name, message: err }));
+      return;
+    }
+    await saveActiveEvent();
+    const event = createEvent(snapshot.name, snapshot.data);
+    await importEvent(event);
+    await openEvent(event.id);
+    await refreshEvents();
+  };
+
+  const handleDeleteEvent = async (id: string) => {
+    if (id === activeEventId && isDrawing) return;
+    await deleteEvent(id);
+    const remaining = await listEvents();
+    if (id === activeEventId) {
+      const next = remaining.find(e => !e.archived) ?? remaining[0];
+      if (next) {
+        await openEvent(next.id);
+      } else {
+        const event = createEvent(t('events.defaultName'));
+        await saveEvent(event);
+        await openEvent(event.id);
+      }
+    }
+    await refreshEvents();
+  };
+
+  // Restore the last active event on load, creating a first one if needed.
+  useEffect(() => {
+    (async () => {
+      setServerMode(await hasServer());
+      let list = await listEvents();
+      if (list.length === 0) {
+        await saveEvent(createEvent(t('events.defaultName')));
+        list = await listEvents();
+      }
+      const preferred = getActiveEventId();
+      const id = list.find(e => e.id === preferred)?.id ?? list.find(e => !e.archived)?.id ?? list[0].id;
+      await openEvent(id);
+      setEvents(list);
+    })();
+  }, []);
+
+  // Autosave the active event shortly after every change.
+  useEffect(() => {
+    if (!activeEventId) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    const timer = setTimeout(saveActiveEvent, 300);
+    return () => clearTimeout(timer);
+  }, [activeEventId, eventData]);
+
+  // Every change to the event lands in the timeline: tracked actions as new
+  // steps, anything else folded into the current one. Opening an event starts over.
+  useEffect(() => {
+    if (!activeEventId) return;
+    const label = pendingAction.current;
+    pendingAction.current = null;
+    if (historyEventId.current !== activeEventId) {
+      historyEventId.current = activeEventId;
+      setHistory(createHistory(eventData, t('history.opened')));
+      return;
+    }
+    setHistory(prev => (label ? recordAction(prev, label, eventData) : amendCurrent(prev, eventData)));
+  }, [activeEventId, eventData]);
+
+  // Winners of the previous events that the eligibility rules block.
+  const [pastWinners, setPastWinners] = useState<PastWinner[]>([]);
+  const blockRecentEvents = drawSettings.eligibility.blockRecentEvents;
+  useEffect(() => {
+    const previous = activeEventId ? selectPreviousEvents(events, activeEventId, blockRecentEvents) : [];
+    let cancelled = false;
+    (async () => {
+      const loaded = await Promise.all(previous.map(e => loadEvent(e.id)));
+      if (!cancelled) setPastWinners(collectPastWinners(loaded.filter(Boolean)));
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeEventId, events, blockRecentEvents]);
 
   // Derived State
-  const availableParticipants = useMemo(() => {
-    if (allowRepeat) return participants;
-    return participants.filter(p => !drawHistory.find(h => h.id === p.id));
-  }, [participants, drawHistory, allowRepeat]);
+  const eligibility = useMemo(
+    () => getEligibility(participants, drawHistory, drawSettings, pastWinners),
+    [participants, drawHistory, drawSettings, pastWinners]
+  );
+  const drawRound = useMemo(
+    () => planDrawRound(participants, drawHistory, drawSettings, prizes, pastWinners),
+    [participants, drawHistory, drawSettings, prizes, pastWinners]
+  );
+  const availableParticipants = drawRound.pool;
 
-  // Handlers
-  const handleAddFromText = () => {
-    const names = inputText.split('\n').map(n => n.trim()).filter(n => n !== '');
-    let newParticipants = names.map(name => ({
-      id: Math.random().toString(36).substr(2, 9),
-      name
-    }));
-
-    if (autoDeduplicate) {
-      const existingNames = new Set(participants.map(p => p.name));
-      newParticipants = newParticipants.filter(p => {
-        if (existingNames.has(p.name)) return false;
-        existingNames.add(p.name);
-        return true;
-      });
+  const odds = useMemo(() => getOdds(availableParticipants), [availableParticipants]);
+
+  const attributeKeys = useMemo(() => listAttributeKeys(participants), [participants]);
+
+  const listedParticipants = useMemo(
+    () => (listOrder === 'name' ? sortByName(participants, collation) : participants),
+    [participants, listOrder, collation]
+  );
+
+  const checkedInCount = useMemo(() => participants.filter(isCheckedIn).length, [participants]);
+  const groupingPool = useMemo(
+    () => filterCheckedIn(participants, groupingSettings.checkedInOnly),
+    [participants, groupingSettings.checkedInOnly]
+  );
+
+  const groupPlan = useMemo(() => {
+    try {
+      return planGroups(groupingPool, groupingSettings);
+    } catch (err) {
+      if (err instanceof GroupingError) return err;
+      throw err;
     }
+  }, [groupingPool, groupingSettings]);
+
+  const prizeWinCounts = useMemo(() => countWinnersByPrize(drawHistory), [drawHistory]);
+
+  const currentPrize = drawRound.prize;
+  const roundSize = drawRound.count;
+
+  const shownPrize = (stagePrize && prizes.find(p => p.id === stagePrize.id)) ?? currentPrize;
+
+  const activeEventName = events.find(e => e.id === activeEventId)?.name ?? '';
+
+  const stageState = useMemo<StageState>(() => ({
+    eventName: activeEventName,
+    prize: shownPrize && {
+      name: shownPrize.name,
+      image: shownPrize.image,
+      won: prizeWinCounts[shownPrize.id] ?? 0,
+      quantity: shownPrize.quantity,
+    },
+    winners: currentWinners.map(w => ({ id: w.id, name: w.name })),
+    isDrawing,
+    playback,
+    revealedAt,
+    confetti: drawSettings.animation.confetti,
+    sound: drawSettings.animation.sound,
+    message: drawSettings.mode === 'prizes' && !currentPrize
+      ? (prizes.length ? t('draw.allPrizesDrawn') : t('draw.addPrize'))
+      : t('draw.ready'),
+    availableCount: availableParticipants.length,
+  }), [activeEventName, shownPrize, currentPrize, prizeWinCounts, currentWinners, isDrawing, playback, revealedAt, drawSettings, prizes.length, availableParticipants.length, locale]);
+
+  const latestStageState = useRef(stageState);
+  latestStageState.current = stageState;
 
-    setParticipants(prev => [...prev, ...newParticipants]);
+  // Stage windows announce themselves; each gets the current state right away
+  // and every change after that.
+  useEffect(() => {
+    const channel = openStageChannel(message => {
+      if (message.type === 'hello') {
+        setStageIds(prev => [...prev.filter(id => id !== message.stageId), message.stageId]);
+        channel.post({ type: 'state', state: latestStageState.current });
+      } else if (message.type === 'bye') {
+        setStageIds(prev => prev.filter(id => id !== message.stageId));
+      }
+    });
+    stageChannel.current = channel;
+    channel.post({ type: 'presenter' });
+    return () => channel.close();
+  }, []);
+
+  useEffect(() => {
+    stageChannel.current?.post({ type: 'state', state: stageState });
+  }, [stageState]);
+
+  // Handlers
+  const track = (label: string) => {
+    pendingAction.current = label;
+  };
+
+  const jumpTo = (index: number) => {
+    if (isDrawing || index === history.index) return;
+    applyEventData(restoreData(history, index, eventData, serverMode));
+    setHistory(prev => moveTo(prev, index));
+  };
+
+  const undo = () => {
+    if (canUndo(history)) jumpTo(history.index - 1);
+  };
+
+  const redo = () => {
+    if (canRedo(history)) jumpTo(history.index + 1);
+  };
+
+  // Text fields keep their own undo.
+  const handleHistoryKeys = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleHistoryKeys.current = (e: KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || (key !== 'z' && key !== 'y')) return;
+    if ((e.target as HTMLElement | null)?.closest('input, textarea, select, [contenteditable]')) return;
+    e.preventDefault();
+    if (key === 'y' || e.shiftKey) redo();
+    else undo();
+  };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => handleHistoryKeys.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Exact duplicates are skipped when auto-dedupe is on; anything that still
+  // looks like a duplicate (similar names) opens the review.
+  const addParticipants = (incoming: Participant[]) => {
+    const added = autoDeduplicate ? dropExactDuplicates(participants, incoming) : incoming;
+    const next = [...participants, ...added];
+    track(t('history.added', { count: added.length }));
+    setParticipants(next);
+    if (autoDeduplicate && added.length > 0 && findDuplicates(next).length > 0) setReviewingDuplicates(true);
+  };
+
+  const handleAddFromText = () => {
+    addParticipants(readNameList(inputText));
     setInputText('');
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Reset so picking the same file again reopens the wizard.
+    e.target.value = '';
     if (!file) return;
+    setImportFile(file);
+  };
 
-    Papa.parse(file, {
-      complete: (results) => {
-        const names = results.data.flat().map(n => String(n).trim()).filter(n => n !== '');
-        let newParticipants = names.map(name => ({
-          id: Math.random().toString(36).substr(2, 9),
-          name
-        }));
-
-        if (autoDeduplicate) {
-          const existingNames = new Set(participants.map(p => p.name));
-          newParticipants = newParticipants.filter(p => {
-            if (existingNames.has(p.name)) return false;
-            existingNames.add(p.name);
-            return true;
-          });
-        }
+  const handleImport = (imported: Participant[]) => {
+    addParticipants(imported);
+    setImportFile(null);
+  };
 
-        setParticipants(prev => [...prev, ...newParticipants]);
-      },
-      header: false
-    });
+  // Draws, groups and rules move to the kept entry too; on the server, which owns the draws, first.
+  const mergeDuplicates = async (merges: [string, string][]) => {
+    if (serverMode && activeEventId) await api.mergeParticipants(activeEventId, merges);
+    const merged = merges.reduce((data, [keepId, dropId]) => mergeEventParticipants(data, keepId, dropId), eventData);
+    track(t('history.merged', { count: merges.length }));
+    setParticipants(merged.participants);
+    setDrawHistory(merged.drawHistory);
+    setGroups(merged.groups);
+    setGroupingSettings(merged.groupingSettings);
+    setGroupRounds(merged.groupRounds);
   };
 
-  const deduplicate = () => {
-    const seen = new Set();
-    const unique = participants.filter(p => {
-      const duplicate = seen.has(p.name);
-      seen.add(p.name);
-      return !duplicate;
-    });
-    setParticipants(unique);
+  const checkIn = (ids: string[], checkedIn: boolean) => {
+    const names = ids.length === 1 ? participants.find(p => p.id === ids[0])?.name : t('history.people', { count: ids.length });
+    track(t(checkedIn ? 'history.checkedIn' : 'history.undidCheckIn', { names }));
+    setParticipants(prev => setCheckedIn(prev, ids, checkedIn));
+  };
+
+  const updateWeight = (id: string, value: string) => {
+    const weight = parseWeight(value) ?? 1;
+    setParticipants(prev => prev.map(p => (p.id === id ? { ...p, weight } : p)));
+  };
+
+  const updateRole = (id: string, role: GroupRole | '') => {
+    track(t('history.setRole', { name: participants.find(p => p.id === id)?.name }));
+    setParticipants(prev => prev.map(p => (p.id === id ? { ...p, role: role || undefined } : p)));
+  };
+
+  const removeParticipant = (participant: Participant) => {
+    track(t('history.removed', { name: participant.name }));
+    setParticipants(prev => prev.filter(p => p.id !== participant.id));
   };
 
-  const clearParticipants = () => {
+  const clearParticipants = async () => {
+    if (!window.confirm(t('source.confirmClearAll', { count: participants.length }))) return;
+    if (serverMode && activeEventId) await api.clearDraws(activeEventId);
+    track(t('history.clearedParticipants'));
     setParticipants([]);
     setDrawHistory([]);
     setGroups([]);
   };
 
-  const startDraw = () => {
-    if (availableParticipants.length === 0) return;
-    
+  const clearDrawHistory = async () => {
+    if (serverMode && activeEventId) await api.clearDraws(activeEventId);
+    track(t('history.clearedDraws'));
+    setDrawHistory([]);
+  };
+
+  // Draws `plan` (a regular round, or the replacement for `redrawId`) and
+  // plays it back on stage before it enters the history.
+  const playDraw = async (plan: DrawPlan, redrawId?: string) => {
+    const { pool, prize, count } = plan;
+
     setIsDrawing(true);
-    setCurrentWinner(null);
-
-    let counter = 0;
-    const duration = 2000;
-    const interval = 50;
-    const steps = duration / interval;
-
-    const timer = setInterval(() => {
-      const randomIndex = Math.floor(Math.random() * availableParticipants.length);
-      setCurrentWinner(availableParticipants[randomIndex]);
-      counter++;
-
-      if (counter >= steps) {
-        clearInterval(timer);
-        const finalWinner = availableParticipants[Math.floor(Math.random() * availableParticipants.length)];
-        setCurrentWinner(finalWinner);
-        setDrawHistory(prev => [finalWinner, ...prev]);
+    setCurrentWinners([]);
+    setStagePrize(prize);
+
+    // The result is fixed up front, by the server when there is one and from
+    // the audited seed otherwise.
+    let records: DrawRecord[];
+    if (serverMode) {
+      try {
+        await saveActiveEvent();
+        const result = redrawId ? await api.redraw(activeEventId!, redrawId) : await api.draw(activeEventId!);
+        records = result.records;
+        setAuditLog(prev => [result.audit, ...prev]);
+        setPublishedSeed(result.publishedSeed);
+      } catch (err) {
         setIsDrawing(false);
+        setStagePrize(null);
+        window.alert(t('draw.failed', { message: err instanceof Error ? err.message : String(err) }));
+        return;
       }
-    }, interval);
+    } else {
+      const { seed, commitment } = takeSeed();
+      const { winners, records: drawn } = executeDraw(plan, seed);
+      recordAudit({
+        kind: 'draw',
+        seed,
+        commitment,
+        input: pool,
+        params: { count },
+        result: winners.map(w => w.id),
+      });
+      records = drawn;
+    }
+    const finalWinners = records.map(r => r.participant);
+
+    // The animation only plays back the decided winners.
+    const animation = drawSettings.animation;
+    setPlayback(buildPlayback(createId(), pool, finalWinners, animation));
+    setTimeout(() => {
+      setPlayback(null);
+      setCurrentWinners(finalWinners);
+      setRevealedAt(Date.now());
+      const names = finalWinners.map(w => w.name).join(', ');
+      track(redrawId
+        ? t('history.drewReplacement', { name: finalWinners[0]?.name })
+        : prize ? t('history.drewForPrize', { names, prize: prize.name }) : t('history.drew', { names }));
+      setDrawHistory(prev => (redrawId ? applyRedraw(prev, redrawId, records[0]) : [...[...records].reverse(), ...prev]));
+      setIsDrawing(false);
+      setStagePrize(null);
+    }, animation.durationMs);
   };
 
-  const handleGrouping = () => {
-    if (participants.length === 0) return;
-    const shuffled = [...participants].sort(() => Math.random() - 0.5);
-    const newGroups: Participant[][] = [];
-    for (let i = 0; i < shuffled.length; i += groupSize) {
-      newGroups.push(shuffled.slice(i, i + groupSize));
+  const startDraw = () => {
+    if (roundSize === 0) return;
+    if (drawSettings.mode === 'prizes' && !currentPrize) return;
+    playDraw(drawRound);
+  };
+
+  const redrawWinner = (recordId: string) => {
+    if (isDrawing) return;
+    const plan = planRedraw(participants, drawHistory, drawSettings, recordId, pastWinners);
+    if (!plan) return;
+    if (plan.count === 0) {
+      window.alert(t('draw.noReplacement'));
+      return;
     }
-    setGroups(newGroups);
+    playDraw(plan, recordId);
+  };
+
+  const updateDrawStatus = async (recordId: string, status: DrawStatus) => {
+    const record = drawHistory.find(r => r.id === recordId);
+    if (!record || !canSetDrawStatus(record, status)) return;
+    if (serverMode && activeEventId) await api.setDrawStatus(activeEventId, recordId, status);
+    track(t('history.markedStatus', { name: record.participant.name, status: t(`drawStatus.${status}`) }));
+    setDrawHistory(prev => setDrawStatus(prev, recordId, status));
   };
 
-  const exportGroupsCSV = () => {
-    const csvData = groups.flatMap((group, idx) => 
-      group.map(p => ({ Group: `Group ${idx + 1}`, Name: p.name }))
-    );
-    const csv = Papa.unparse(csvData);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'groups.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const nameGroup = (number: number) => t('grouping.groupName', { number });
+
+  // Groups from the server's published seed, which the app doesn't know until
+  // the reveal. Returns the GroupingError, and reports any other failure.
+  const groupOnServer = async (request: () => Promise<ServerGrouping>): Promise<ServerGrouping | GroupingError | null> => {
+    try {
+      return await request();
+    } catch (err) {
+      if (err instanceof GroupingError) return err;
+      if (!(err instanceof ApiError)) throw err;
+      window.alert(t('grouping.failed', { message: err.message }));
+      return null;
+    }
+  };
+
+  // Runs `count` groupings back to back, on the server when there is one. In
+  // rotation mode each one is saved as a round and steers away from the
+  // pairings of every round before it.
+  const generateRounds = async (count: number) => {
+    if (groupingPool.length === 0) return;
+    let history = roundsToIds(groupRounds);
+    const created: GroupRound[] = [];
+    let latest: Participant[][] | null = null;
+    let error: GroupingError | null = null;
+
+    // Server results are applied once all rounds are in, so no autosave in
+    // between writes back the rounds from before them.
+    const audits: AuditEntry[] = [];
+    let seedAfter = publishedSeed;
+    if (serverMode) await saveActiveEvent();
+    for (let i = 0; i < count; i++) {
+      let round: GroupRound | null = null;
+      if (serverMode) {
+        const result = await groupOnServer(() => api.group(activeEventId!));
+        if (result instanceof GroupingError) error = result;
+        if (!result || result instanceof GroupingError) break;
+        audits.unshift(result.audit);
+        seedAfter = result.publishedSeed;
+        latest = result.groups.map(g => g.members);
+        round = result.round ?? null;
+      } else {
+        const { seed, commitment } = takeSeed(i);
+        try {
+          const run = groupParticipants(participants, groupingSettings, seed, history);
+          latest = run.groups;
+          recordAudit({ kind: 'group', seed, commitment, input: run.input, params: run.settings, result: latest.map(g => g.map(p => p.id)) });
+        } catch (err) {
+          if (!(err instanceof GroupingError)) throw err;
+          error = err;
+          break;
+        }
+        const ids = latest.map(g => g.map(p => p.id));
+        if (groupingSettings.avoidRepeats) {
+          round = { id: createId(), timestamp: Date.now(), groups: ids, newPairRatio: getNewPairRatio(ids, buildPairHistory(history)) };
+        }
+      }
+      if (round) {
+        created.push(round);
+        history = [...history, round.groups];
+      }
+    }
+
+    setGroupingError(error);
+    if (audits.length > 0) {
+      setAuditLog(prev => [...audits, ...prev]);
+      setPublishedSeed(seedAfter);
+    }
+    if (latest) track(created.length > 1 ? t('history.plannedRounds', { count: created.length }) : t('history.generatedGroups', { count: latest.length }));
+    if (created.length > 0) setGroupRounds(prev => [...prev, ...created]);
+    if (latest) setGroups(toGroups(latest, groupingSettings, nameGroup));
+  };
+
+  const handleGrouping = () => generateRounds(1);
+
+  const showRound = (round: GroupRound) => {
+    const byId = new Map<string, Participant>(participants.map(p => [p.id, p]));
+    const lists = round.groups.map(ids => ids.flatMap(id => byId.get(id) ?? []));
+    track(t('history.showedRound', { number: groupRounds.indexOf(round) + 1 }));
+    setGroups(toGroups(lists.filter(g => g.length > 0), groupingSettings, nameGroup));
+  };
+
+  const updateGroup = (id: string, update: (group: Group) => Group) => {
+    setGroups(prev => prev.map(g => (g.id === id ? update(g) : g)));
+  };
+
+  const moveMember = ({ memberId, fromGroupId }: DragPayload, toGroupId: string) => {
+    const name = groups.find(g => g.id === fromGroupId)?.members.find(p => p.id === memberId)?.name;
+    track(t('history.moved', { name, group: groups.find(g => g.id === toGroupId)?.name }));
+    setGroups(prev => {
+      const member = prev.find(g => g.id === fromGroupId)?.members.find(p => p.id === memberId);
+      if (!member) return prev;
+      return prev.map(g => {
+        if (g.id === fromGroupId) return dropDepartedLeader({ ...g, members: g.members.filter(p => p.id !== memberId) });
+        if (g.id === toGroupId) return { ...g, members: [...g.members, member] };
+        return g;
+      });
+    });
+  };
+
+  const toggleMemberLock = (groupId: string, memberId: string) => {
+    updateGroup(groupId, g => {
+      const locked = g.lockedMemberIds ?? [];
+      return {
+        ...g,
+        lockedMemberIds: locked.includes(memberId) ? locked.filter(id => id !== memberId) : [...locked, memberId],
+      };
+    });
+  };
+
+  const addGroup = () => {
+    track(t('history.addedGroup'));
+    setGroups(prev => [...prev, { id: createId(), name: nameGroup(prev.length + 1), members: [] }]);
+  };
+
+  // Keeps locked groups and members where they are and re-randomizes everyone
+  // else into the remaining seats, keeping each group's current size.
+  const reshuffleUnlocked = async () => {
+    let next: Group[];
+    if (serverMode) {
+      await saveActiveEvent();
+      const result = await groupOnServer(() => api.reshuffle(activeEventId!));
+      if (result instanceof GroupingError) setGroupingError(result);
+      if (!result || result instanceof GroupingError) return;
+      setAuditLog(prev => [result.audit, ...prev]);
+      setPublishedSeed(result.publishedSeed);
+      next = result.groups;
+    } else {
+      const { seed, commitment } = takeSeed();
+      try {
+        const run = reshuffleGroups(groups, participants, groupingSettings, seed, roundsToIds(groupRounds));
+        next = run.groups;
+        recordAudit({ kind: 'group', seed, commitment, input: run.input, params: run.settings, result: next.map(g => g.members.map(p => p.id)) });
+      } catch (err) {
+        if (!(err instanceof GroupingError)) throw err;
+        setGroupingError(err);
+        return;
+      }
+    }
+    setGroupingError(null);
+    track(t('history.reshuffled'));
+    setGroups(next);
+  };
+
+  const setGroupLeader = (groupId: string, memberId: string) => {
+    track(t('history.changedLeader'));
+    updateGroup(groupId, g => ({ ...g, leaderId: g.leaderId === memberId ? undefined : memberId }));
+  };
+
+  const hasLocks = groups.some(g => g.locked || (g.lockedMemberIds ?? []).length > 0);
+
+  const exportScheduleCSV = () => {
+    downloadFile(toCsv(scheduleToRows(groupRounds, participants, t), true), 'rotation-schedule.csv', 'text/csv;charset=utf-8;');
+  };
+
+  const takeSeed = (offset = 0) => {
+    const next = nextSeed(publishedSeed, offset);
+    if (next.commitment) setPublishedSeed(prev => prev && { ...prev, uses: prev.uses + 1 });
+    return next;
+  };
+
+  const recordAudit = (entry: Parameters<typeof createAuditEntry>[0]) => {
+    createAuditEntry(entry)
+      .then(e => setAuditLog(prev => [e, ...prev]))
+      .catch(() => setAuditUnavailable(true));
+  };
+
+  // With a server, the seed is made and kept there; the app only sees its commitment.
+  const handlePublishSeed = () => {
+    if (serverMode) {
+      api.publishSeed(activeEventId!)
+        .then(setPublishedSeed)
+        .catch(err => window.alert(t('fairness.publishFailed', { message: err instanceof Error ? err.message : String(err) })));
+      return;
+    }
+    publishSeed()
+      .then(setPublishedSeed)
+      .catch(() => {
+        setAuditUnavailable(true);
+        window.alert(t('fairness.unavailable'));
+      });
+  };
+
+  // The server withholds the seeds derived from an unrevealed seed; the
+  // reveal hands them out, so fill them in.
+  const handleRevealSeed = async () => {
+    if (!publishedSeed) return;
+    if (!serverMode) {
+      setPublishedSeed({ ...publishedSeed, revealed: true });
+      return;
+    }
+    const result = await api.revealSeed(activeEventId!);
+    setPublishedSeed(result.publishedSeed);
+    const byId = new Map(result.auditLog.map(e => [e.id, e]));
+    setAuditLog(prev => prev.map(e => (e.seed ? e : byId.get(e.id) ?? e)));
   };
 
   return (
@@ -170,32 +759,66 @@ export default function App() {
             <Gift size={24} />
           </div>
           <div>
-            <h1 className="font-bold text-lg leading-tight">Lucky Draw & Grouping</h1>
-            <p className="text-xs text-black/40 uppercase tracking-wider font-semibold">Professional Tool</p>
+            <h1 className="font-bold text-lg leading-tight">{t('app.title')}</h1>
+            <p className="text-xs text-black/40 uppercase tracking-wider font-semibold">{t('app.subtitle')}</p>
+          </div>
+          <div className="ml-4">
+            <EventSwitcher
+              events={events}
+              activeId={activeEventId}
+              onSelect={switchEvent}
+              onCreate={handleCreateEvent}
+              onRename={(id, name) => updateEventMeta(id, { name })}
+              onDuplicate={handleDuplicateEvent}
+              onExport={handleExportEvent}
+              onImport={handleImportEvent}
+              onToggleArchive={(id) => updateEventMeta(id, { archived: !events.find(e => e.id === id)?.archived })}
+              onDelete={handleDeleteEvent}
+            />
           </div>
+          <span
+            title={serverMode ? t('app.storedOnServer') : t('app.storedInBrowser')}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-black/40"
+          >
+            {serverMode ? <Server size={12} /> : <HardDrive size={12} />}
+            {serverMode ? t('app.server') : t('app.local')}
+          </span>
+          <button
+            onClick={() => setSharing(collectSharedResults(activeEventName, groups, drawHistory))}
+            disabled={groups.length === 0 && !drawHistory.some(holdsPrize)}
+            title={t('app.shareTitle')}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-black/40 hover:text-black disabled:opacity-50 disabled:hover:text-black/40"
+          >
+            <Share2 size={12} />
+            {t('app.share')}
+          </button>
         </div>
         
-        <nav className="flex bg-black/5 p-1 rounded-xl">
-          {[
-            { id: 'source', label: 'Participants', icon: Users },
-            { id: 'draw', label: 'Lucky Draw', icon: Gift },
-            { id: 'group', label: 'Grouping', icon: LayoutGrid },
-          ].map((tab) => (
-            <button
-              key={tab.id}
-              onClick={() => setActiveTab(tab.id as Tab)}
-              className={cn(
-                "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all",
-                activeTab === tab.id 
-                  ? "bg-white text-black shadow-sm" 
-                  : "text-black/50 hover:text-black"
-              )}
-            >
-              <tab.icon size={16} />
-              {tab.label}
-            </button>
-          ))}
-        </nav>
+        <div className="flex items-center gap-3">
+          <LanguageSwitcher />
+          <HistoryPanel history={history} disabled={isDrawing} keepsDraws={serverMode} onUndo={undo} onRedo={redo} onJump={jumpTo} />
+          <nav className="flex bg-black/5 p-1 rounded-xl">
+            {[
+              { id: 'source', label: t('nav.participants'), icon: Users },
+              { id: 'draw', label: t('nav.draw'), icon: Gift },
+              { id: 'group', label: t('nav.group'), icon: LayoutGrid },
+            ].map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id as AppTab)}
+                className={cn(
+                  "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                  activeTab === tab.id 
+                    ? "bg-white text-black shadow-sm" 
+                    : "text-black/50 hover:text-black"
+                )}
+              >
+                <tab.icon size={16} />
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
       </header>
 
       <main className="max-w-5xl mx-auto p-6">
@@ -209,113 +832,183 @@ export default function App() {
               exit={{ opacity: 0, y: -10 }}
               className="space-y-6"
             >
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="md:col-span-2 space-y-4">
-                  <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5">
-                    <label className="block text-sm font-semibold mb-2 text-black/60 uppercase tracking-wide">
-                      Paste Names (One per line)
-                    </label>
-                    <textarea
-                      value={inputText}
-                      onChange={(e) => setInputText(e.target.value)}
-                      placeholder="Enter names here..."
-                      className="w-full h-64 p-4 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 resize-none font-mono text-sm"
-                    />
-                    <div className="mt-4 flex gap-3">
-                      <button
-                        onClick={handleAddFromText}
-                        className="flex-1 bg-black text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-black/80 transition-colors"
-                      >
-                        <Plus size={18} />
-                        Add to List
-                      </button>
-                      <div className="relative">
-                        <input
-                          type="file"
-                          accept=".csv"
-                          onChange={handleFileUpload}
-                          className="absolute inset-0 opacity-0 cursor-pointer"
-                        />
-                        <button className="bg-white border border-black/10 px-6 py-3 rounded-xl font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors">
-                          <Upload size={18} />
-                          Upload CSV
+              <div className="flex bg-black/5 p-1 rounded-xl w-fit">
+                {[
+                  { id: 'list', label: t('source.manageList') },
+                  { id: 'checkin', label: t('source.checkIn', { checked: checkedInCount, total: participants.length }) },
+                ].map((view) => (
+                  <button
+                    key={view.id}
+                    onClick={() => setSourceView(view.id as 'list' | 'checkin')}
+                    className={cn(
+                      "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                      sourceView === view.id ? "bg-white text-black shadow-sm" : "text-black/50 hover:text-black"
+                    )}
+                  >
+                    {view.label}
+                  </button>
+                ))}
+              </div>
+
+              {sourceView === 'checkin' ? (
+                <CheckInPanel participants={participants} onCheckIn={checkIn} />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="md:col-span-2 space-y-4">
+                    <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5">
+                      <label className="block text-sm font-semibold mb-2 text-black/60 uppercase tracking-wide">
+                        {t('source.pasteLabel')}
+                      </label>
+                      <textarea
+                        value={inputText}
+                        onChange={(e) => setInputText(e.target.value)}
+                        placeholder={t('source.pastePlaceholder')}
+                        className="w-full h-64 p-4 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 resize-none font-mono text-sm"
+                      />
+                      <div className="mt-4 flex gap-3">
+                        <button
+                          onClick={handleAddFromText}
+                          className="flex-1 bg-black text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-black/80 transition-colors"
+                        >
+                          <Plus size={18} />
+                          {t('source.addToList')}
                         </button>
+                        <div className="relative">
+                          <input
+                            type="file"
+                            accept=".csv,.tsv,.txt"
+                            onChange={handleFileUpload}
+                            className="absolute inset-0 opacity-0 cursor-pointer"
+                          />
+                          <button className="bg-white border border-black/10 px-6 py-3 rounded-xl font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors">
+                            <Upload size={18} />
+                            {t('source.uploadCsv')}
+                          </button>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="space-y-6">
-                  <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5">
-                    <h3 className="font-bold mb-4 flex items-center justify-between">
-                      List Summary
-                      <span className="bg-black text-white text-xs px-2 py-1 rounded-full">
-                        {participants.length}
-                      </span>
-                    </h3>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between p-4 bg-black/5 rounded-xl mb-2">
-                        <div>
-                          <p className="text-sm font-semibold">Auto-Deduplicate</p>
-                          <p className="text-[10px] text-black/40">Remove duplicates on import</p>
+                  <div className="space-y-6">
+                    <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5">
+                      <h3 className="font-bold mb-4 flex items-center justify-between">
+                        {t('source.summary')}
+                        <span className="bg-black text-white text-xs px-2 py-1 rounded-full">
+                          {participants.length}
+                        </span>
+                      </h3>
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between p-4 bg-black/5 rounded-xl mb-2">
+                          <div>
+                            <p className="text-sm font-semibold">{t('source.autoDedupe')}</p>
+                            <p className="text-[10px] text-black/40">{t('source.autoDedupeHint')}</p>
+                          </div>
+                          <button
+                            onClick={() => setAutoDeduplicate(!autoDeduplicate)}
+                            className={cn(
+                              "w-10 h-5 rounded-full transition-colors relative",
+                              autoDeduplicate ? "bg-emerald-500" : "bg-black/20"
+                            )}
+                          >
+                            <div className={cn(
+                              "absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all",
+                              autoDeduplicate ? "left-5.5" : "left-0.5"
+                            )} />
+                          </button>
                         </div>
                         <button
-                          onClick={() => setAutoDeduplicate(!autoDeduplicate)}
-                          className={cn(
-                            "w-10 h-5 rounded-full transition-colors relative",
-                            autoDeduplicate ? "bg-emerald-500" : "bg-black/20"
-                          )}
+                          onClick={() => setReviewingDuplicates(true)}
+                          disabled={participants.length < 2}
+                          className="w-full text-left px-4 py-3 rounded-xl border border-black/10 text-sm font-medium flex items-center justify-between hover:bg-black/5 transition-colors disabled:opacity-50"
+                        >
+                          {t('source.reviewDuplicates')}
+                          <CheckCircle2 size={16} className="text-emerald-500" />
+                        </button>
+                        <button
+                          onClick={clearParticipants}
+                          disabled={participants.length === 0}
+                          className="w-full text-left px-4 py-3 rounded-xl border border-black/10 text-sm font-medium flex items-center justify-between hover:bg-red-50 text-red-600 border-red-100 transition-colors disabled:opacity-50"
                         >
-                          <div className={cn(
-                            "absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all",
-                            autoDeduplicate ? "left-5.5" : "left-0.5"
-                          )} />
+                          {t('source.clearAll')}
+                          <Trash2 size={16} />
                         </button>
                       </div>
-                      <button
-                        onClick={deduplicate}
-                        disabled={participants.length === 0}
-                        className="w-full text-left px-4 py-3 rounded-xl border border-black/10 text-sm font-medium flex items-center justify-between hover:bg-black/5 transition-colors disabled:opacity-50"
-                      >
-                        Manual Deduplicate
-                        <CheckCircle2 size={16} className="text-emerald-500" />
-                      </button>
-                      <button
-                        onClick={clearParticipants}
-                        disabled={participants.length === 0}
-                        className="w-full text-left px-4 py-3 rounded-xl border border-black/10 text-sm font-medium flex items-center justify-between hover:bg-red-50 text-red-600 border-red-100 transition-colors disabled:opacity-50"
-                      >
-                        Clear All
-                        <Trash2 size={16} />
-                      </button>
                     </div>
-                  </div>
 
-                  <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5 max-h-[400px] overflow-y-auto">
-                    <h3 className="font-bold mb-4 text-sm text-black/60 uppercase tracking-wide">Current List</h3>
-                    <div className="space-y-2">
-                      {participants.length === 0 ? (
-                        <p className="text-sm text-black/30 italic">No participants added yet.</p>
-                      ) : (
-                        participants.map((p, i) => (
-                          <div key={p.id} className="flex items-center justify-between p-2 hover:bg-black/5 rounded-lg text-sm group">
-                            <span className="flex items-center gap-3">
-                              <span className="text-black/20 font-mono w-4">{i + 1}</span>
-                              {p.name}
-                            </span>
-                            <button 
-                              onClick={() => setParticipants(prev => prev.filter(item => item.id !== p.id))}
-                              className="text-black/0 group-hover:text-black/40 hover:text-red-500 transition-all"
+                    <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5 max-h-[400px] overflow-y-auto">
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-bold text-sm text-black/60 uppercase tracking-wide">{t('source.currentList')}</h3>
+                        <div className="flex bg-black/5 p-0.5 rounded-lg text-[10px] font-bold">
+                          {([
+                            { id: 'name', label: t('source.sortByName'), title: t('source.sortByName.title') },
+                            { id: 'added', label: t('source.sortAdded'), title: t('source.sortAdded.title') },
+                          ] as const).map(order => (
+                            <button
+                              key={order.id}
+                              onClick={() => setListOrder(order.id)}
+                              title={order.title}
+                              className={cn(
+                                "px-2 py-0.5 rounded-md transition-all",
+                                listOrder === order.id ? "bg-white text-black shadow-sm" : "text-black/40 hover:text-black"
+                              )}
                             >
-                              <Trash2 size={14} />
+                              {order.label}
                             </button>
-                          </div>
-                        ))
-                      )}
+                          ))}
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        {participants.length === 0 ? (
+                          <p className="text-sm text-black/30 italic">{t('source.empty')}</p>
+                        ) : (
+                          listedParticipants.map((p, i) => (
+                            <div key={p.id} className="flex items-center justify-between p-2 hover:bg-black/5 rounded-lg text-sm group">
+                              <span className="flex items-center gap-3 min-w-0">
+                                <span className="text-black/20 font-mono w-4">{i + 1}</span>
+                                <span className="truncate">{p.name}</span>
+                                {p.department && (
+                                  <span className="text-[10px] bg-black/5 px-2 py-0.5 rounded-full text-black/50 truncate">{p.department}</span>
+                                )}
+                              </span>
+                              <span className="flex items-center gap-2 shrink-0">
+                                <select
+                                  title={t('source.role')}
+                                  value={p.role ?? ''}
+                                  onChange={(e) => updateRole(p.id, e.target.value as GroupRole | '')}
+                                  className={cn(
+                                    "px-1 py-0.5 rounded border border-black/10 text-xs bg-transparent focus:outline-none focus:ring-2 focus:ring-black/5",
+                                    !p.role && "text-black/30"
+                                  )}
+                                >
+                                  <option value="">{t('source.noRole')}</option>
+                                  {GROUP_ROLES.map(role => (
+                                    <option key={role} value={role}>{t(`role.${role}`)}</option>
+                                  ))}
+                                </select>
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="any"
+                                  title={t('source.tickets')}
+                                  value={p.weight ?? 1}
+                                  onChange={(e) => updateWeight(p.id, e.target.value)}
+                                  className="w-12 px-1 py-0.5 rounded border border-black/10 text-xs text-right font-mono focus:outline-none focus:ring-2 focus:ring-black/5"
+                                />
+                                <button 
+                                  onClick={() => removeParticipant(p)}
+                                  className="text-black/0 group-hover:text-black/40 hover:text-red-500 transition-all"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              </span>
+                            </div>
+                          ))
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
+              )}
             </motion.div>
           )}
 
@@ -330,114 +1023,154 @@ export default function App() {
             >
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="md:col-span-2 space-y-6">
-                  <div className="bg-black rounded-3xl p-12 text-center relative overflow-hidden min-h-[400px] flex flex-col items-center justify-center">
-                    {/* Background Animation */}
-                    <div className="absolute inset-0 opacity-20 pointer-events-none">
-                      <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-white/20 via-transparent to-transparent animate-pulse" />
-                    </div>
-
-                    <AnimatePresence mode="wait">
-                      {currentWinner ? (
-                        <motion.div
-                          key={currentWinner.id}
-                          initial={{ scale: 0.5, opacity: 0, y: 20 }}
-                          animate={{ scale: 1, opacity: 1, y: 0 }}
-                          className="relative z-10"
-                        >
-                          <p className="text-white/40 text-sm uppercase tracking-[0.3em] font-bold mb-4">
-                            {isDrawing ? "Choosing..." : "Winner!"}
-                          </p>
-                          <h2 className={cn(
-                            "text-6xl md:text-8xl font-black text-white tracking-tighter",
-                            !isDrawing && "animate-bounce"
-                          )}>
-                            {currentWinner.name}
-                          </h2>
-                        </motion.div>
-                      ) : (
-                        <motion.div
-                          initial={{ opacity: 0 }}
-                          animate={{ opacity: 1 }}
-                          className="text-white/30 text-center"
-                        >
-                          <Gift size={64} className="mx-auto mb-4 opacity-20" />
-                          <p className="text-xl font-medium">Ready to start the draw?</p>
-                          <p className="text-sm mt-2">{availableParticipants.length} participants available</p>
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
+                  <DrawStage state={stageState} muted={stageIds.length > 0}>
+                    <button
+                      onClick={startDraw}
+                      disabled={isDrawing || roundSize === 0 || (drawSettings.mode === 'prizes' && !currentPrize)}
+                      className="bg-white text-black px-12 py-4 rounded-2xl font-black text-xl hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100"
+                    >
+                      {isDrawing ? t('draw.drawing') : roundSize > 1 ? t('draw.drawCount', { count: roundSize }) : t('draw.drawNow')}
+                    </button>
+                  </DrawStage>
 
-                    <div className="mt-12 relative z-10">
+                  <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+                    <div className="flex items-center justify-between mb-6">
+                      <h3 className="font-bold text-lg">{t('draw.settings')}</h3>
                       <button
-                        onClick={startDraw}
-                        disabled={isDrawing || availableParticipants.length === 0}
-                        className="bg-white text-black px-12 py-4 rounded-2xl font-black text-xl hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100"
+                        onClick={openStageWindow}
+                        className="text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider flex items-center gap-1"
                       >
-                        {isDrawing ? "DRAWING..." : "DRAW NOW"}
+                        <MonitorPlay size={14} />
+                        {stageIds.length > 0 ? t('draw.stageConnected') : t('draw.openStage')}
                       </button>
                     </div>
-                  </div>
-
-                  <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
-                    <div className="flex items-center justify-between mb-6">
-                      <h3 className="font-bold text-lg">Draw Settings</h3>
+                    <div className="flex bg-black/5 p-1 rounded-xl mb-4">
+                      {[
+                        { id: 'single', label: t('draw.single') },
+                        { id: 'prizes', label: t('draw.prizes') },
+                      ].map((mode) => (
+                        <button
+                          key={mode.id}
+                          onClick={() => setDrawSettings(prev => ({ ...prev, mode: mode.id as DrawMode }))}
+                          disabled={isDrawing}
+                          className={cn(
+                            "flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                            drawSettings.mode === mode.id
+                              ? "bg-white text-black shadow-sm"
+                              : "text-black/50 hover:text-black"
+                          )}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
                     </div>
+                    {drawSettings.mode === 'prizes' && (
+                      <div className="mb-4">
+                        <PrizeEditor
+                          prizes={prizes}
+                          wonCounts={prizeWinCounts}
+                          currentPrizeId={currentPrize?.id ?? null}
+                          disabled={isDrawing}
+                          onChange={setPrizes}
+                        />
+                      </div>
+                    )}
                     <div className="flex items-center justify-between p-4 bg-black/5 rounded-xl">
                       <div>
-                        <p className="font-semibold">Allow Repeated Winners</p>
-                        <p className="text-xs text-black/40">If enabled, the same person can win multiple times.</p>
+                        <p className="font-semibold">{t('draw.allowRepeat')}</p>
+                        <p className="text-xs text-black/40">{t('draw.allowRepeatHint')}</p>
                       </div>
                       <button
-                        onClick={() => setAllowRepeat(!allowRepeat)}
+                        onClick={() => setDrawSettings(prev => ({ ...prev, allowRepeat: !prev.allowRepeat }))}
                         className={cn(
                           "w-12 h-6 rounded-full transition-colors relative",
-                          allowRepeat ? "bg-black" : "bg-black/20"
+                          drawSettings.allowRepeat ? "bg-black" : "bg-black/20"
                         )}
                       >
                         <div className={cn(
                           "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
-                          allowRepeat ? "left-7" : "left-1"
+                          drawSettings.allowRepeat ? "left-7" : "left-1"
                         )} />
                       </button>
                     </div>
                     {participants.length === 0 && (
                       <div className="mt-4 p-4 bg-amber-50 rounded-xl flex items-start gap-3 text-amber-800 text-sm">
                         <AlertCircle size={18} className="shrink-0 mt-0.5" />
-                        <p>No participants found. Please add names in the <b>Participants</b> tab first.</p>
+                        <p>{rich('draw.noParticipants', { tab: <b>{t('nav.participants')}</b> })}</p>
                       </div>
                     )}
                   </div>
-                </div>
 
-                <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm h-fit">
-                  <div className="flex items-center justify-between mb-6">
-                    <h3 className="font-bold">History</h3>
-                    <button 
-                      onClick={() => setDrawHistory([])}
-                      className="text-xs text-black/40 hover:text-red-500 font-bold uppercase tracking-wider"
-                    >
-                      Clear
-                    </button>
+                  <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+                    <h3 className="font-bold text-lg mb-6">{t('draw.eligibility')}</h3>
+                    <EligibilityPanel
+                      participants={participants}
+                      rules={drawSettings.eligibility}
+                      eligibleCount={eligibility.eligible.length}
+                      excluded={eligibility.excluded}
+                      pastWinnerCount={new Set(pastWinners.map(w => w.key)).size}
+                      checkedInCount={checkedInCount}
+                      disabled={isDrawing}
+                      onChange={(eligibility) => setDrawSettings(prev => ({ ...prev, eligibility }))}
+                    />
                   </div>
-                  <div className="space-y-3">
-                    {drawHistory.length === 0 ? (
-                      <p className="text-sm text-black/30 italic">No history yet.</p>
-                    ) : (
-                      drawHistory.map((winner, i) => (
-                        <motion.div
-                          initial={{ x: -10, opacity: 0 }}
-                          animate={{ x: 0, opacity: 1 }}
-                          key={`${winner.id}-${i}`}
-                          className="flex items-center justify-between p-3 bg-black/5 rounded-xl"
-                        >
-                          <span className="font-semibold text-sm">{winner.name}</span>
-                          <span className="text-[10px] bg-black/10 px-2 py-1 rounded-full font-bold">
-                            #{drawHistory.length - i}
-                          </span>
-                        </motion.div>
-                      ))
-                    )}
+
+                  <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+                    <h3 className="font-bold text-lg mb-6">{t('draw.animation')}</h3>
+                    <AnimationSettings
+                      settings={drawSettings.animation}
+                      disabled={isDrawing}
+                      onChange={(animation) => setDrawSettings(prev => ({ ...prev, animation }))}
+                    />
                   </div>
+
+                  {availableParticipants.length > 0 && (
+                    <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-bold">{t('draw.odds')}</h3>
+                        <span className="text-xs text-black/40 font-semibold">
+                          {t('draw.ticketsInPool', { count: availableParticipants.reduce((sum, p) => sum + getWeight(p), 0) })}
+                        </span>
+                      </div>
+                      <div className="space-y-1 max-h-64 overflow-y-auto">
+                        {[...availableParticipants]
+                          .sort((a, b) => getWeight(b) - getWeight(a))
+                          .map(p => {
+                            const chance = odds.get(p.id) ?? 0;
+                            return (
+                              <div key={p.id} className="flex items-center gap-3 text-sm">
+                                <span className="flex-1 truncate">{p.name}</span>
+                                <span className="text-xs text-black/40 font-mono w-10 text-right">×{getWeight(p)}</span>
+                                <div className="w-24 h-1.5 bg-black/5 rounded-full overflow-hidden">
+                                  <div className="h-full bg-black" style={{ width: `${chance * 100}%` }} />
+                                </div>
+                                <span className="text-xs font-bold font-mono w-14 text-right">{(chance * 100).toFixed(1)}%</span>
+                              </div>
+                            );
+                          })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-6">
+                  <DrawHistoryPanel
+                    history={drawHistory}
+                    disabled={isDrawing}
+                    onSetStatus={updateDrawStatus}
+                    onRedraw={redrawWinner}
+                    onClear={clearDrawHistory}
+                    onExport={() => setExporting('draws')}
+                  />
+
+                  <FairnessPanel
+                    publishedSeed={publishedSeed}
+                    entries={auditLog}
+                    disabled={isDrawing}
+                    unavailable={auditUnavailable && !serverMode}
+                    onPublishSeed={handlePublishSeed}
+                    onRevealSeed={handleRevealSeed}
+                  />
                 </div>
               </div>
             </motion.div>
@@ -455,85 +1188,376 @@ export default function App() {
               <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
                 <div className="flex flex-col md:flex-row md:items-end gap-6">
                   <div className="flex-1">
-                    <label className="block text-sm font-semibold mb-2 text-black/60 uppercase tracking-wide">
-                      People per Group
-                    </label>
-                    <input
-                      type="number"
-                      min="1"
-                      max={participants.length}
-                      value={groupSize}
-                      onChange={(e) => setGroupSize(parseInt(e.target.value) || 1)}
-                      className="w-full p-4 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 font-bold text-xl"
-                    />
+                    <div className="flex bg-black/5 p-1 rounded-xl mb-3 w-fit">
+                      {[
+                        { id: 'size', label: t('grouping.bySize') },
+                        { id: 'count', label: t('grouping.byCount') },
+                      ].map((mode) => (
+                        <button
+                          key={mode.id}
+                          onClick={() => setGroupingSettings(prev => ({ ...prev, mode: mode.id as GroupingMode }))}
+                          className={cn(
+                            "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                            (groupingSettings.mode ?? 'size') === mode.id
+                              ? "bg-white text-black shadow-sm"
+                              : "text-black/50 hover:text-black"
+                          )}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                    {(groupingSettings.mode ?? 'size') === 'size' ? (
+                      <input
+                        type="number"
+                        min="1"
+                        max={groupingPool.length}
+                        value={groupingSettings.groupSize}
+                        onChange={(e) => setGroupingSettings(prev => ({ ...prev, groupSize: parseInt(e.target.value) || 1 }))}
+                        className="w-full p-4 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 font-bold text-xl"
+                      />
+                    ) : (
+                      <input
+                        type="number"
+                        min="1"
+                        max={groupingPool.length}
+                        value={groupingSettings.groupCount ?? 1}
+                        onChange={(e) => setGroupingSettings(prev => ({ ...prev, groupCount: parseInt(e.target.value) || 1 }))}
+                        className="w-full p-4 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 font-bold text-xl"
+                      />
+                    )}
                   </div>
                   <div className="flex gap-3">
                     <button
                       onClick={handleGrouping}
-                      disabled={participants.length === 0}
+                      disabled={groupingPool.length === 0}
                       className="bg-black text-white px-8 py-4 rounded-xl font-bold flex items-center gap-2 hover:bg-black/80 transition-colors disabled:opacity-50"
                     >
                       <LayoutGrid size={20} />
-                      Generate Groups
+                      {t('grouping.generate')}
                     </button>
                     {groups.length > 0 && (
                       <button
-                        onClick={exportGroupsCSV}
+                        onClick={() => setExporting('groups')}
                         className="bg-white border border-black/10 px-8 py-4 rounded-xl font-bold flex items-center gap-2 hover:bg-black/5 transition-colors"
                       >
                         <Download size={20} />
-                        Export CSV
+                        {t('common.export')}
                       </button>
                     )}
                   </div>
                 </div>
+                <div className="mt-6 flex flex-col md:flex-row md:items-end gap-4">
+                  <label className="flex-1 text-sm font-semibold text-black/60 uppercase tracking-wide space-y-2">
+                    <span>{t('grouping.leftover')}</span>
+                    <select
+                      value={groupingSettings.remainder ?? 'short'}
+                      onChange={(e) => setGroupingSettings(prev => ({ ...prev, remainder: e.target.value as RemainderPolicy }))}
+                      className="w-full p-3 rounded-xl border border-black/10 text-sm normal-case font-medium text-black"
+                    >
+                      <option value="even">{t('grouping.leftover.even')}</option>
+                      <option value="short">{t('grouping.leftover.short')}</option>
+                      <option value="range">{t('grouping.leftover.range')}</option>
+                    </select>
+                  </label>
+                  {groupingSettings.remainder === 'range' && (
+                    <>
+                      <label className="text-sm font-semibold text-black/60 uppercase tracking-wide space-y-2">
+                        <span>{t('grouping.min')}</span>
+                        <input
+                          type="number"
+                          min="1"
+                          value={groupingSettings.minSize ?? 1}
+                          onChange={(e) => setGroupingSettings(prev => ({ ...prev, minSize: parseInt(e.target.value) || 1 }))}
+                          className="w-full md:w-24 p-3 rounded-xl border border-black/10 text-sm font-bold text-black"
+                        />
+                      </label>
+                      <label className="text-sm font-semibold text-black/60 uppercase tracking-wide space-y-2">
+                        <span>{t('grouping.max')}</span>
+                        <input
+                          type="number"
+                          min="1"
+                          value={groupingSettings.maxSize ?? groupingSettings.groupSize}
+                          onChange={(e) => setGroupingSettings(prev => ({ ...prev, maxSize: parseInt(e.target.value) || 1 }))}
+                          className="w-full md:w-24 p-3 rounded-xl border border-black/10 text-sm font-bold text-black"
+                        />
+                      </label>
+                    </>
+                  )}
+                </div>
+                {groupingPool.length > 0 && (
+                  <p className="mt-2 text-xs text-black/40">
+                    {groupPlan instanceof GroupingError
+                      ? t(groupPlan)
+                      : t('grouping.plan', { count: groupPlan.capacities.length, sizes: groupPlan.capacities.join(' / ') })}
+                  </p>
+                )}
+                {groupingPool.length > 0 && !(groupPlan instanceof GroupingError) && groupPlan.warnings.map(warning => (
+                  <div key={warning.key} className="mt-2 p-3 bg-amber-50 rounded-xl flex items-start gap-2 text-amber-800 text-xs">
+                    <AlertCircle size={14} className="shrink-0" />
+                    <p>{t(warning)}</p>
+                  </div>
+                ))}
+                {attributeKeys.length > 0 && (
+                  <div className="mt-6">
+                    <p className="text-sm font-semibold mb-2 text-black/60 uppercase tracking-wide">{t('grouping.balanceBy')}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {attributeKeys.map(key => {
+                        const active = groupingSettings.balanceBy?.includes(key) ?? false;
+                        return (
+                          <button
+                            key={key}
+                            onClick={() => setGroupingSettings(prev => ({
+                              ...prev,
+                              balanceBy: active
+                                ? (prev.balanceBy ?? []).filter(k => k !== key)
+                                : [...(prev.balanceBy ?? []), key],
+                            }))}
+                            className={cn(
+                              "px-3 py-1.5 rounded-full text-sm font-medium border transition-colors",
+                              active ? "bg-black text-white border-black" : "border-black/10 text-black/60 hover:bg-black/5"
+                            )}
+                          >
+                            {getAttributeLabel(key, t('field.department'))}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-black/40 mt-2">
+                      {t('grouping.balanceHint')}
+                    </p>
+                  </div>
+                )}
+                <div className="mt-6 flex items-center justify-between p-4 bg-black/5 rounded-xl">
+                  <div>
+                    <p className="font-semibold">{t('common.checkedInOnly')}</p>
+                    <p className="text-xs text-black/40">{t('grouping.checkedInHint', { checked: checkedInCount, total: participants.length })}</p>
+                  </div>
+                  <button
+                    onClick={() => setGroupingSettings(prev => ({ ...prev, checkedInOnly: !prev.checkedInOnly }))}
+                    className={cn(
+                      "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                      groupingSettings.checkedInOnly ? "bg-black" : "bg-black/20"
+                    )}
+                  >
+                    <div className={cn(
+                      "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                      groupingSettings.checkedInOnly ? "left-7" : "left-1"
+                    )} />
+                  </button>
+                </div>
+                {[
+                  {
+                    key: 'leaders' as const,
+                    label: t('grouping.leaders'),
+                    detail: t('grouping.leadersHint', { count: countRole(groupingPool, 'leader') }),
+                  },
+                  {
+                    key: 'noteTakers' as const,
+                    label: t('grouping.noteTakers'),
+                    detail: t('grouping.noteTakersHint', { count: countRole(groupingPool, 'notetaker') }),
+                  },
+                ].map(option => (
+                  <div key={option.key} className="mt-3 flex items-center justify-between p-4 bg-black/5 rounded-xl">
+                    <div>
+                      <p className="font-semibold">{option.label}</p>
+                      <p className="text-xs text-black/40">{option.detail}</p>
+                    </div>
+                    <button
+                      onClick={() => setGroupingSettings(prev => ({ ...prev, [option.key]: !prev[option.key] }))}
+                      className={cn(
+                        "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                        groupingSettings[option.key] ? "bg-black" : "bg-black/20"
+                      )}
+                    >
+                      <div className={cn(
+                        "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                        groupingSettings[option.key] ? "left-7" : "left-1"
+                      )} />
+                    </button>
+                  </div>
+                ))}
+                <div className="mt-3 flex items-center justify-between p-4 bg-black/5 rounded-xl">
+                  <div>
+                    <p className="font-semibold">{t('grouping.rotation')}</p>
+                    <p className="text-xs text-black/40">{t('grouping.rotationHint')}</p>
+                  </div>
+                  <button
+                    onClick={() => setGroupingSettings(prev => ({ ...prev, avoidRepeats: !prev.avoidRepeats }))}
+                    className={cn(
+                      "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                      groupingSettings.avoidRepeats ? "bg-black" : "bg-black/20"
+                    )}
+                  >
+                    <div className={cn(
+                      "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                      groupingSettings.avoidRepeats ? "left-7" : "left-1"
+                    )} />
+                  </button>
+                </div>
+                {participants.length > 0 && (
+                  <div className="mt-6">
+                    <p className="text-sm font-semibold mb-2 text-black/60 uppercase tracking-wide">{t('grouping.pairingRules')}</p>
+                    <ConstraintsEditor
+                      constraints={groupingSettings.constraints ?? []}
+                      participants={participants}
+                      errorConstraintId={groupingError?.constraintId ?? null}
+                      onChange={(constraints) => {
+                        setGroupingSettings(prev => ({ ...prev, constraints }));
+                        setGroupingError(null);
+                      }}
+                    />
+                  </div>
+                )}
+                {groupingError && (
+                  <div className="mt-4 p-4 bg-red-50 rounded-xl flex items-start gap-3 text-red-700 text-sm">
+                    <AlertCircle size={18} className="shrink-0 mt-0.5" />
+                    <p>{t(groupingError)}</p>
+                  </div>
+                )}
                 {participants.length === 0 && (
                   <div className="mt-4 p-4 bg-amber-50 rounded-xl flex items-start gap-3 text-amber-800 text-sm">
                     <AlertCircle size={18} className="shrink-0 mt-0.5" />
-                    <p>Add participants first to enable grouping.</p>
+                    <p>{t('grouping.noParticipants')}</p>
+                  </div>
+                )}
+                {participants.length > 0 && groupingPool.length === 0 && (
+                  <div className="mt-4 p-4 bg-amber-50 rounded-xl flex items-start gap-3 text-amber-800 text-sm">
+                    <AlertCircle size={18} className="shrink-0 mt-0.5" />
+                    <p>{rich('grouping.nobodyCheckedIn', { tab: <b>{t('nav.participants')}</b> })}</p>
                   </div>
                 )}
               </div>
 
+              {groups.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-black/40">{t('grouping.dragHint')}</p>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={addGroup}
+                      className="bg-white border border-black/10 px-4 py-2 rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors"
+                    >
+                      <Plus size={16} />
+                      {t('grouping.addGroup')}
+                    </button>
+                    <button
+                      onClick={reshuffleUnlocked}
+                      disabled={!hasLocks}
+                      title={hasLocks ? undefined : t('grouping.reshuffle.title')}
+                      className="bg-white border border-black/10 px-4 py-2 rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors disabled:opacity-50"
+                    >
+                      <Shuffle size={16} />
+                      {t('grouping.reshuffle')}
+                    </button>
+                    <button
+                      onClick={() => {
+                        track(t('history.drewLeaders'));
+                        setGroups(prev => drawGroupLeaders(prev));
+                      }}
+                      title={t('grouping.drawLeaders.title')}
+                      className="bg-white border border-black/10 px-4 py-2 rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors"
+                    >
+                      <Crown size={16} />
+                      {t('grouping.drawLeaders')}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
                 <AnimatePresence>
                   {groups.map((group, idx) => (
-                    <motion.div
-                      key={idx}
-                      initial={{ scale: 0.9, opacity: 0 }}
-                      animate={{ scale: 1, opacity: 1 }}
-                      transition={{ delay: idx * 0.05 }}
-                      className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm"
-                    >
-                      <div className="flex items-center justify-between mb-4 pb-4 border-b border-black/5">
-                        <h3 className="font-black text-xl">Group {idx + 1}</h3>
-                        <span className="text-xs bg-black text-white px-2 py-1 rounded-full font-bold">
-                          {group.length} Members
-                        </span>
-                      </div>
-                      <div className="space-y-2">
-                        {group.map((p) => (
-                          <div key={p.id} className="flex items-center gap-3 p-2 bg-black/5 rounded-lg text-sm font-medium">
-                            <div className="w-2 h-2 rounded-full bg-black/20" />
-                            {p.name}
-                          </div>
-                        ))}
-                      </div>
-                    </motion.div>
+                    <React.Fragment key={group.id}>
+                      <GroupCard
+                        group={group}
+                        index={idx}
+                        balanceBy={groupingSettings.balanceBy ?? []}
+                        onRename={(name) => updateGroup(group.id, g => ({ ...g, name }))}
+                        onToggleLock={() => updateGroup(group.id, g => ({ ...g, locked: !g.locked }))}
+                        onToggleMemberLock={(memberId) => toggleMemberLock(group.id, memberId)}
+                        onSetLeader={(memberId) => setGroupLeader(group.id, memberId)}
+                        onRemove={() => {
+                          track(t('history.removed', { name: group.name }));
+                          setGroups(prev => prev.filter(g => g.id !== group.id));
+                        }}
+                        onDropMember={(payload) => moveMember(payload, group.id)}
+                      />
+                    </React.Fragment>
                   ))}
                 </AnimatePresence>
               </div>
               
-              {groups.length === 0 && participants.length > 0 && (
+              {groups.length === 0 && groupingPool.length > 0 && (
                 <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-black/10">
                   <LayoutGrid size={48} className="mx-auto mb-4 text-black/10" />
-                  <p className="text-black/30 font-medium">Set group size and click generate to see results.</p>
+                  <p className="text-black/30 font-medium">{t('grouping.empty')}</p>
                 </div>
               )}
+
+              {(groupingSettings.avoidRepeats || groupRounds.length > 0) && (
+                <RotationPanel
+                  rounds={groupRounds}
+                  disabled={groupingPool.length === 0 || !groupingSettings.avoidRepeats}
+                  onPlan={generateRounds}
+                  onSelect={showRound}
+                  onDelete={(id) => {
+                    track(t('history.deletedRound'));
+                    setGroupRounds(prev => prev.filter(r => r.id !== id));
+                  }}
+                  onClear={() => {
+                    track(t('history.clearedRounds'));
+                    setGroupRounds([]);
+                  }}
+                  onExport={exportScheduleCSV}
+                />
+              )}
+
+              <FairnessPanel
+                publishedSeed={publishedSeed}
+                entries={auditLog.filter(e => e.kind === 'group')}
+                unavailable={auditUnavailable && !serverMode}
+                onPublishSeed={handlePublishSeed}
+                onRevealSeed={handleRevealSeed}
+              />
             </motion.div>
           )}
         </AnimatePresence>
       </main>
+
+      {reviewingDuplicates && (
+        <DuplicateReview
+          participants={participants}
+          onMerge={mergeDuplicates}
+          onMarkDistinct={(aId, bId) => {
+            track(t('history.markedDistinct'));
+            setParticipants(prev => markDistinct(prev, aId, bId));
+          }}
+          onClose={() => setReviewingDuplicates(false)}
+        />
+      )}
+
+      {exporting && (
+        <ExportDialog
+          heading={exporting === 'groups' ? t('export.groups') : t('export.draws')}
+          defaultName={`${activeEventName || 'lucky-draw'}-${exporting === 'groups' ? 'groups' : 'draw-results'}`}
+          title={`${activeEventName}${activeEventName ? ' · ' : ''}${exporting === 'groups' ? t('export.groupsTitle') : t('export.drawsTitle')}`}
+          paged={exporting === 'groups'}
+          build={(format, options) => (exporting === 'groups'
+            ? exportGroups(groups, format, options, t)
+            : exportDrawResults(drawHistory, format, options, t))}
+          onClose={() => setExporting(null)}
+        />
+      )}
+
+      {sharing && <ShareDialog results={sharing} onClose={() => setSharing(null)} />}
+
+      {importFile && (
+        <ImportWizard
+          file={importFile}
+          onCancel={() => setImportFile(null)}
+          onImport={handleImport}
+        />
+      )}
     </div>
   );
 }
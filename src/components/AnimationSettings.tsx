@@ -0,0 +1,107 @@
+import React from 'react';
+import { Cloud, Disc3, Layers, SlidersHorizontal, Type } from 'lucide-react';
+import type { AnimationEasing, DrawAnimationSettings, DrawAnimationStyle } from '../types';
+import { ANIMATION_STYLES, EASINGS, MAX_DURATION_MS, MIN_DURATION_MS } from '../lib/animation';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface AnimationSettingsProps {
+  settings: DrawAnimationSettings;
+  disabled?: boolean;
+  onChange: (settings: DrawAnimationSettings) => void;
+}
+
+const STYLE_ICONS: Record<DrawAnimationStyle, typeof Type> = {
+  classic: Type,
+  wheel: Disc3,
+  slot: SlidersHorizontal,
+  cards: Layers,
+  cloud: Cloud,
+};
+
+export default function AnimationSettings({ settings, disabled, onChange }: AnimationSettingsProps) {
+  const { t } = useI18n();
+  const update = (patch: Partial<DrawAnimationSettings>) => onChange({ ...settings, ...patch });
+
+  const toggles: { key: 'sound' | 'confetti'; label: string; hint: string }[] = [
+    { key: 'sound', label: t('animation.sound'), hint: t('animation.soundHint') },
+    { key: 'confetti', label: t('animation.confetti'), hint: t('animation.confettiHint') },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-5 gap-2">
+        {ANIMATION_STYLES.map(style => {
+          const Icon = STYLE_ICONS[style];
+          return (
+            <button
+              key={style}
+              onClick={() => update({ style })}
+              disabled={disabled}
+              className={cn(
+                "flex flex-col items-center gap-1 p-3 rounded-xl border text-xs font-semibold transition-all disabled:opacity-50",
+                settings.style === style ? "border-black bg-black text-white" : "border-black/10 hover:bg-black/5"
+              )}
+            >
+              <Icon size={18} />
+              {t(`animation.style.${style}`)}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="text-xs font-semibold text-black/60 uppercase tracking-wide space-y-1">
+          <span className="flex justify-between">
+            {t('animation.duration')}
+            <span className="font-mono normal-case text-black">{(settings.durationMs / 1000).toFixed(1)} s</span>
+          </span>
+          <input
+            type="range"
+            min={MIN_DURATION_MS}
+            max={MAX_DURATION_MS}
+            step={500}
+            value={settings.durationMs}
+            disabled={disabled}
+            onChange={(e) => update({ durationMs: Number(e.target.value) })}
+            className="w-full accent-black"
+          />
+        </label>
+        <label className="text-xs font-semibold text-black/60 uppercase tracking-wide space-y-1">
+          <span>{t('animation.easing')}</span>
+          <select
+            value={settings.easing}
+            disabled={disabled}
+            onChange={(e) => update({ easing: e.target.value as AnimationEasing })}
+            className="w-full p-2 rounded-lg border border-black/10 text-sm normal-case font-medium text-black"
+          >
+            {(Object.keys(EASINGS) as AnimationEasing[]).map(id => (
+              <option key={id} value={id}>{t(`animation.easing.${id}`)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {toggles.map(({ key, label, hint }) => (
+        <div key={key} className="flex items-center justify-between p-4 bg-black/5 rounded-xl">
+          <div>
+            <p className="font-semibold">{label}</p>
+            <p className="text-xs text-black/40">{hint}</p>
+          </div>
+          <button
+            onClick={() => update({ [key]: !settings[key] })}
+            className={cn(
+              "w-12 h-6 rounded-full transition-colors relative",
+              settings[key] ? "bg-black" : "bg-black/20"
+            )}
+          >
+            <div className={cn(
+              "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+              settings[key] ? "left-7" : "left-1"
+            )} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
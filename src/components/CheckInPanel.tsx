@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle2, Circle, Search } from 'lucide-react';
+import type { Participant } from '../types';
+import { isCheckedIn, matchAttendanceList, searchParticipants, type AttendanceMatch } from '../lib/attendance';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface CheckInPanelProps {
+  participants: Participant[];
+  onCheckIn: (ids: string[], checkedIn: boolean) => void;
+}
+
+type CheckInFilter = 'all' | 'absent' | 'present';
+
+// Rendering thousands of rows makes typing lag; search narrows it down instead.
+const MAX_ROWS = 200;
+
+export default function CheckInPanel({ participants, onCheckIn }: CheckInPanelProps) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<CheckInFilter>('all');
+  const [pasteText, setPasteText] = useState('');
+  const [lastPaste, setLastPaste] = useState<AttendanceMatch | null>(null);
+
+  const checkedInCount = participants.filter(isCheckedIn).length;
+  const results = useMemo(() => {
+    const found = searchParticipants(participants, query);
+    return filter === 'all' ? found : found.filter(p => isCheckedIn(p) === (filter === 'present'));
+  }, [participants, query, filter]);
+
+  const checkInPasted = () => {
+    const match = matchAttendanceList(participants, pasteText);
+    onCheckIn(match.matched.map(p => p.id), true);
+    setLastPaste(match);
+    setPasteText([...match.unmatched, ...match.ambiguous].join('\n'));
+  };
+
+  // Enter checks in the only match, so a door volunteer can type and go.
+  const checkInOnlyResult = () => {
+    if (results.length === 1 && !isCheckedIn(results[0])) {
+      onCheckIn([results[0].id], true);
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="md:col-span-2 bg-white rounded-2xl p-6 shadow-sm border border-black/5 space-y-4">
+        <div className="relative">
+          <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-black/30" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && checkInOnlyResult()}
+            placeholder={t('checkIn.search')}
+            className="w-full pl-12 pr-4 py-4 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 text-lg"
+          />
+        </div>
+
+        <div className="flex bg-black/5 p-1 rounded-xl w-fit">
+          {([
+            { id: 'all', label: t('checkIn.all') },
+            { id: 'absent', label: t('checkIn.absent') },
+            { id: 'present', label: t('checkIn.present') },
+          ] as { id: CheckInFilter; label: string }[]).map(option => (
+            <button
+              key={option.id}
+              onClick={() => setFilter(option.id)}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                filter === option.id ? "bg-white text-black shadow-sm" : "text-black/50 hover:text-black"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-1 max-h-[480px] overflow-y-auto">
+          {results.length === 0 && <p className="text-sm text-black/30 italic">{t('checkIn.noMatch')}</p>}
+          {results.slice(0, MAX_ROWS).map(p => {
+            const present = isCheckedIn(p);
+            return (
+              <button
+                key={p.id}
+                onClick={() => onCheckIn([p.id], !present)}
+                className={cn(
+                  "w-full flex items-center gap-3 p-3 rounded-xl text-left transition-colors",
+                  present ? "bg-emerald-50 hover:bg-emerald-100" : "hover:bg-black/5"
+                )}
+              >
+                {present ? (
+                  <CheckCircle2 size={20} className="text-emerald-500 shrink-0" />
+                ) : (
+                  <Circle size={20} className="text-black/20 shrink-0" />
+                )}
+                <span className="flex-1 min-w-0">
+                  <span className="block font-semibold truncate">{p.name}</span>
+                  <span className="block text-[10px] text-black/40 truncate">
+                    {[p.externalId, p.department].filter(Boolean).join(' · ')}
+                  </span>
+                </span>
+                {present && (
+                  <span className="text-[10px] text-emerald-700 font-bold shrink-0">
+                    {new Date(p.checkedInAt!).toLocaleTimeString()}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+          {results.length > MAX_ROWS && (
+            <p className="text-xs text-black/40 text-center pt-2">
+              {t('checkIn.truncated', { shown: MAX_ROWS, total: results.length })}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5">
+          <h3 className="font-bold mb-4">{t('checkIn.attendance')}</h3>
+          <p className="text-3xl font-black">
+            {checkedInCount}
+            <span className="text-black/30 text-lg font-bold"> / {participants.length}</span>
+          </p>
+          <p className="text-xs text-black/40 mb-3">{t('checkIn.ratio')}</p>
+          <div className="h-2 bg-black/5 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${participants.length ? (checkedInCount / participants.length) * 100 : 0}%` }}
+            />
+          </div>
+          {checkedInCount > 0 && (
+            <button
+              onClick={() => {
+                if (window.confirm(t('checkIn.confirmReset'))) onCheckIn(participants.map(p => p.id), false);
+              }}
+              className="mt-4 text-xs text-black/40 hover:text-red-500 font-bold uppercase tracking-wider"
+            >
+              {t('checkIn.reset')}
+            </button>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-black/5 space-y-3">
+          <label className="block text-sm font-semibold text-black/60 uppercase tracking-wide">
+            {t('checkIn.bulk')}
+          </label>
+          <textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder={t('checkIn.bulkPlaceholder')}
+            className="w-full h-32 p-3 rounded-xl border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5 resize-none font-mono text-sm"
+          />
+          <button
+            onClick={checkInPasted}
+            disabled={!pasteText.trim()}
+            className="w-full bg-black text-white py-3 rounded-xl font-semibold hover:bg-black/80 transition-colors disabled:opacity-30"
+          >
+            {t('checkIn.bulkButton')}
+          </button>
+          {lastPaste && (
+            <div className="text-sm space-y-2">
+              <p className="text-emerald-700 font-semibold">{t('checkIn.bulkDone', { count: lastPaste.matched.length })}</p>
+              {lastPaste.unmatched.length + lastPaste.ambiguous.length > 0 && (
+                <div className="p-3 bg-amber-50 rounded-xl flex items-start gap-2 text-amber-800 text-xs">
+                  <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                  <p>
+                    {[
+                      lastPaste.unmatched.length > 0 && t('checkIn.notFound', { count: lastPaste.unmatched.length }),
+                      lastPaste.ambiguous.length > 0 && t('checkIn.ambiguous', { count: lastPaste.ambiguous.length }),
+                      t('checkIn.leftInBox'),
+                    ].filter(Boolean).join(' ')}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
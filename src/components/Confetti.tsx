@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { motion } from 'motion/react';
+
+const COLORS = ['#f43f5e', '#f59e0b', '#10b981', '#3b82f6', '#a855f7', '#ffffff'];
+const PIECES = 90;
+
+/** A one-off burst of confetti over its (relatively positioned) parent. */
+export default function Confetti() {
+  const pieces = useMemo(
+    () => Array.from({ length: PIECES }, (_, i) => ({
+      x: (Math.random() - 0.5) * 120,
+      drift: (Math.random() - 0.5) * 40,
+      delay: Math.random() * 0.3,
+      duration: 1.8 + Math.random() * 1.4,
+      spin: (Math.random() - 0.5) * 1080,
+      color: COLORS[i % COLORS.length],
+      wide: Math.random() > 0.5,
+    })),
+    []
+  );
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none z-20">
+      {pieces.map((p, i) => (
+        <motion.div
+          key={i}
+          className="absolute left-1/2 top-1/3 rounded-sm"
+          style={{ backgroundColor: p.color, width: p.wide ? 10 : 6, height: p.wide ? 6 : 12 }}
+          initial={{ x: 0, y: 0, opacity: 1, rotate: 0 }}
+          animate={{
+            x: [`0vw`, `${p.x / 2}vw`, `${p.x / 2 + p.drift}vw`],
+            y: ['0vh', '-25vh', '80vh'],
+            opacity: [1, 1, 0],
+            rotate: p.spin,
+          }}
+          transition={{ duration: p.duration, delay: p.delay, ease: 'easeOut' }}
+        />
+      ))}
+    </div>
+  );
+}
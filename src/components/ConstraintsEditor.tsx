@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Link2, Unlink2, Plus, Trash2, Upload } from 'lucide-react';
+import type { ConstraintKind, GroupingConstraint, Participant } from '../types';
+import { parseConstraintRows, resolveMembers, splitMembers } from '../lib/constraints';
+import { parseTable } from '../lib/csvImport';
+import { message, useI18n, type Message } from '../lib/i18n';
+import { cn, createId } from '../lib/utils';
+
+interface ConstraintsEditorProps {
+  constraints: GroupingConstraint[];
+  participants: Participant[];
+  /** Rule reported as unsatisfiable by the last grouping attempt. */
+  errorConstraintId: string | null;
+  onChange: (constraints: GroupingConstraint[]) => void;
+}
+
+export default function ConstraintsEditor({ constraints, participants, errorConstraintId, onChange }: ConstraintsEditorProps) {
+  const { t, rich } = useI18n();
+  const [kind, setKind] = useState<ConstraintKind>('together');
+  const [membersText, setMembersText] = useState('');
+  const [problems, setProblems] = useState<Message[]>([]);
+
+  const byId = useMemo(() => new Map(participants.map(p => [p.id, p])), [participants]);
+
+  const addConstraint = () => {
+    const { ids, problems } = resolveMembers(splitMembers(membersText), participants);
+    if (problems.length === 0 && ids.length < 2) problems.push(message('constraints.needTwo'));
+    setProblems(problems);
+    if (problems.length > 0) return;
+    onChange([...constraints, { id: createId(), kind, memberIds: ids }]);
+    setMembersText('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { rows } = parseTable(await file.arrayBuffer(), 'auto', 'auto');
+    const result = parseConstraintRows(rows, participants);
+    onChange([...constraints, ...result.constraints]);
+    setProblems(result.issues.map(issue => message('import.rowIssue', { row: issue.row, reason: issue.reason })));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as ConstraintKind)}
+          className="p-2 rounded-lg border border-black/10 text-sm font-medium"
+        >
+          <option value="together">{t('constraints.together')}</option>
+          <option value="apart">{t('constraints.apart')}</option>
+        </select>
+        <input
+          value={membersText}
+          onChange={(e) => setMembersText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addConstraint()}
+          placeholder={t('constraints.placeholder')}
+          className="flex-1 p-2 rounded-lg border border-black/10 text-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+        />
+        <button
+          onClick={addConstraint}
+          disabled={membersText.trim() === ''}
+          className="bg-black text-white px-4 py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-1 hover:bg-black/80 transition-colors disabled:opacity-50"
+        >
+          <Plus size={14} />
+          {t('common.add')}
+        </button>
+        <div className="relative">
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt"
+            onChange={handleFile}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+          <button className="w-full bg-white border border-black/10 px-4 py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-1 hover:bg-black/5 transition-colors">
+            <Upload size={14} />
+            CSV
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-black/40">
+        {rich('constraints.csvHint', {
+          together: <span className="font-mono">together,Alice,Bob</span>,
+          apart: <span className="font-mono">apart,E1001,E1002</span>,
+        })}
+      </p>
+
+      {problems.length > 0 && (
+        <div className="p-3 bg-amber-50 rounded-xl text-amber-800 text-xs space-y-1">
+          {problems.map((problem, i) => (
+            <p key={i} className="flex items-start gap-2">
+              <AlertCircle size={12} className="shrink-0 mt-0.5" />
+              {t(problem)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {constraints.length > 0 && (
+        <div className="space-y-2">
+          {constraints.map(c => {
+            const missing = c.memberIds.filter(id => !byId.has(id)).length;
+            return (
+              <div
+                key={c.id}
+                className={cn(
+                  "flex items-center gap-3 p-2 rounded-lg text-sm border",
+                  c.id === errorConstraintId ? "border-red-300 bg-red-50" : "border-black/5 bg-black/5"
+                )}
+              >
+                {c.kind === 'together' ? <Link2 size={14} className="shrink-0" /> : <Unlink2 size={14} className="shrink-0" />}
+                <span className="text-[10px] font-bold uppercase tracking-wider text-black/40 shrink-0">
+                  {t(`constraints.badge.${c.kind}`)}
+                </span>
+                <span className="flex-1 truncate font-medium">
+                  {c.memberIds.filter(id => byId.has(id)).map(id => byId.get(id)!.name).join(', ')}
+                  {missing > 0 && <span className="text-black/30"> {t('constraints.removed', { count: missing })}</span>}
+                </span>
+                <button
+                  onClick={() => onChange(constraints.filter(item => item.id !== c.id))}
+                  className="text-black/30 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Ban, Check, Download, RotateCcw, UserX } from 'lucide-react';
+import type { DrawRecord, DrawStatus } from '../types';
+import { listDrawChains } from '../lib/draw';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface DrawHistoryPanelProps {
+  history: DrawRecord[];
+  /** Actions are blocked while a draw is playing. */
+  disabled?: boolean;
+  onSetStatus: (recordId: string, status: DrawStatus) => void;
+  onRedraw: (recordId: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+}
+
+const STATUS_STYLES: Record<DrawStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  confirmed: 'bg-emerald-100 text-emerald-700',
+  forfeited: 'bg-red-100 text-red-700',
+  redrawn: 'bg-red-100 text-red-700',
+};
+
+export default function DrawHistoryPanel({ history, disabled, onSetStatus, onRedraw, onClear, onExport }: DrawHistoryPanelProps) {
+  const { t, rich } = useI18n();
+  // One row per prize slot: an absent winner and their replacements share it.
+  const chains = listDrawChains(history);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm h-fit">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="font-bold">{t('drawHistory.title')}</h3>
+        {history.length > 0 && (
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onExport}
+              className="text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider flex items-center gap-1"
+            >
+              <Download size={12} />
+              {t('common.export')}
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(t('drawHistory.confirmClear', { count: history.length }))) onClear();
+              }}
+              className="text-xs text-black/40 hover:text-red-500 font-bold uppercase tracking-wider"
+            >
+              {t('common.clear')}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="space-y-3">
+        {chains.length === 0 ? (
+          <p className="text-sm text-black/30 italic">{t('drawHistory.empty')}</p>
+        ) : (
+          chains.map((chain, i) => {
+            const record = chain[chain.length - 1];
+            return (
+              <motion.div
+                initial={{ x: -10, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                key={chain[0].id}
+                className="p-3 bg-black/5 rounded-xl"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={cn("font-semibold text-sm truncate", record.status === 'forfeited' && "line-through text-black/40")}>
+                      {record.participant.name}
+                    </p>
+                    <p className="text-[10px] text-black/40">
+                      {record.prizeName && <span className="font-bold text-black/60">{record.prizeName} · </span>}
+                      {new Date(record.timestamp).toLocaleTimeString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={cn("text-[10px] px-2 py-0.5 rounded-full font-bold capitalize", STATUS_STYLES[record.status])}>
+                      {t(`drawStatus.${record.status}`)}
+                    </span>
+                    <span className="text-[10px] bg-black/10 px-2 py-1 rounded-full font-bold">
+                      #{chains.length - i}
+                    </span>
+                  </div>
+                </div>
+
+                {chain.length > 1 && (
+                  <p className="mt-2 text-[11px] text-black/50">
+                    {chain.slice(0, -1).map(r => (
+                      <span key={r.id}>
+                        {rich('drawHistory.forfeited', { name: <span className="line-through">{r.participant.name}</span> })}{' '}
+                      </span>
+                    ))}
+                    {rich('drawHistory.replacedBy', { name: <span className="font-semibold text-black/70">{record.participant.name}</span> })}
+                  </p>
+                )}
+
+                <div className="mt-2 flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+                  {record.status === 'pending' ? (
+                    <>
+                      <button
+                        onClick={() => onSetStatus(record.id, 'confirmed')}
+                        disabled={disabled}
+                        className="flex items-center gap-1 text-emerald-600 hover:text-emerald-800 disabled:opacity-40"
+                      >
+                        <Check size={12} />
+                        {t('drawHistory.confirm')}
+                      </button>
+                      <button
+                        onClick={() => onRedraw(record.id)}
+                        disabled={disabled}
+                        title={t('drawHistory.redraw.title')}
+                        className="flex items-center gap-1 text-black/50 hover:text-black disabled:opacity-40"
+                      >
+                        <UserX size={12} />
+                        {t('drawHistory.redraw')}
+                      </button>
+                      <button
+                        onClick={() => onSetStatus(record.id, 'forfeited')}
+                        disabled={disabled}
+                        title={t('drawHistory.forfeit.title')}
+                        className="flex items-center gap-1 text-black/50 hover:text-red-500 disabled:opacity-40"
+                      >
+                        <Ban size={12} />
+                        {t('drawHistory.forfeit')}
+                      </button>
+                    </>
+                  ) : record.status === 'confirmed' && (
+                    <button
+                      onClick={() => onSetStatus(record.id, 'pending')}
+                      disabled={disabled}
+                      className="flex items-center gap-1 text-black/30 hover:text-black disabled:opacity-40"
+                    >
+                      <RotateCcw size={12} />
+                      {t('common.undo')}
+                    </button>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
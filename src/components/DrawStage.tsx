@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Gift, Trophy } from 'lucide-react';
+import { fitNameSize, type StageState } from '../lib/stage';
+import { useI18n } from '../lib/i18n';
+import { playReveal } from '../lib/sound';
+import { cn } from '../lib/utils';
+import DrawAnimation from './animations/DrawAnimation';
+import Confetti from './Confetti';
+
+// A stage that mounts later than this after a reveal (e.g. switching tabs) stays quiet.
+const REVEAL_WINDOW_MS = 1500;
+const CONFETTI_MS = 4000;
+
+interface DrawStageProps {
+  state: StageState;
+  /** Projector layout: fills the screen and scales the type up. */
+  fullscreen?: boolean;
+  /** Silences sound effects, e.g. on the presenter while a stage window plays them. */
+  muted?: boolean;
+  /** Controls shown under the winners (the presenter's Draw button). */
+  children?: React.ReactNode;
+}
+
+export default function DrawStage({ state, fullscreen, muted, children }: DrawStageProps) {
+  const { t } = useI18n();
+  const { prize, winners, isDrawing, playback } = state;
+  const [burstAt, setBurstAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!state.revealedAt || Date.now() - state.revealedAt > REVEAL_WINDOW_MS) return;
+    if (state.sound && !muted) playReveal();
+    if (!state.confetti) return;
+    setBurstAt(state.revealedAt);
+    const timer = setTimeout(() => setBurstAt(null), CONFETTI_MS);
+    return () => clearTimeout(timer);
+  }, [state.revealedAt]);
+
+  return (
+    <div
+      className={cn(
+        "bg-black text-center relative overflow-hidden flex flex-col items-center justify-center",
+        fullscreen ? "min-h-screen p-16" : "rounded-3xl p-12 min-h-[400px]"
+      )}
+    >
+      {/* Background Animation */}
+      <div className="absolute inset-0 opacity-20 pointer-events-none">
+        <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-white/20 via-transparent to-transparent animate-pulse" />
+      </div>
+
+      {prize && (
+        <div
+          className={cn(
+            "relative z-10 mb-8 flex items-center gap-3 bg-white/10 rounded-full pl-2 pr-4 py-2",
+            fullscreen && "scale-150 mb-16"
+          )}
+        >
+          {prize.image ? (
+            <img src={prize.image} alt="" className="w-8 h-8 rounded-full object-cover" />
+          ) : (
+            <Trophy size={18} className="text-white/60 ml-1" />
+          )}
+          <span className="text-white font-bold text-sm">{prize.name}</span>
+          <span className="text-white/40 text-xs font-semibold">
+            {prize.won}/{prize.quantity}
+          </span>
+        </div>
+      )}
+
+      {burstAt && <Confetti key={burstAt} />}
+
+      <AnimatePresence mode="wait">
+        {playback ? (
+          <motion.div
+            key={playback.id}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="relative z-10 w-full flex justify-center"
+          >
+            <DrawAnimation playback={playback} large={fullscreen} muted={muted} />
+          </motion.div>
+        ) : winners.length > 0 ? (
+          <motion.div
+            key={winners.map(w => w.id).join('-')}
+            initial={{ scale: 0.5, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            className="relative z-10 w-full @container flex flex-col items-center"
+          >
+            <p className={cn("text-white/40 uppercase tracking-[0.3em] font-bold mb-4", fullscreen ? "text-2xl" : "text-sm")}>
+              {winners.length > 1 ? t('stage.winners') : t('stage.winner')}
+            </p>
+            {winners.length === 1 ? (
+              <h2
+                style={{ fontSize: fitNameSize(winners[0].name, fullscreen ? 10 : 6) }}
+                className="font-black text-white tracking-tighter leading-none break-words max-w-full animate-bounce"
+              >
+                {winners[0].name}
+              </h2>
+            ) : (
+              <div className={cn("flex flex-wrap justify-center gap-3", fullscreen ? "max-w-6xl gap-5" : "max-w-2xl")}>
+                {winners.map(w => (
+                  <span
+                    key={w.id}
+                    className={cn(
+                      "bg-white/10 text-white font-black rounded-xl tracking-tight max-w-full break-words",
+                      fullscreen ? "text-4xl md:text-5xl px-6 py-3" : "text-2xl md:text-3xl px-4 py-2"
+                    )}
+                  >
+                    {w.name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-white/30 text-center"
+          >
+            <Gift size={fullscreen ? 128 : 64} className="mx-auto mb-4 opacity-20" />
+            <p className={cn("font-medium", fullscreen ? "text-4xl" : "text-xl")}>{isDrawing ? t('stage.drawing') : state.message}</p>
+            {!fullscreen && <p className="text-sm mt-2">{t('stage.available', { count: state.availableCount })}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {children && <div className="mt-12 relative z-10">{children}</div>}
+    </div>
+  );
+}
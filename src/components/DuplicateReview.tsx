@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { CheckCircle2, Copy, X } from 'lucide-react';
+import type { Participant } from '../types';
+import { findDuplicates, type DuplicatePair } from '../lib/duplicates';
+import { isCheckedIn } from '../lib/attendance';
+import { getWeight } from '../lib/draw';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface DuplicateReviewProps {
+  participants: Participant[];
+  /** Folds each `[keepId, dropId]` in turn. */
+  onMerge: (merges: [string, string][]) => void;
+  onMarkDistinct: (aId: string, bId: string) => void;
+  onClose: () => void;
+}
+
+function ParticipantDetails({ participant, index }: { participant: Participant; index: number }) {
+  const { t } = useI18n();
+  const details: [string, string | undefined][] = [
+    [t('field.externalId'), participant.externalId],
+    [t('field.email'), participant.email],
+    [t('field.department'), participant.department],
+    ...Object.entries(participant.attributes ?? {}),
+  ];
+  return (
+    <div className="flex-1 min-w-0 p-3 bg-black/5 rounded-xl">
+      <p className="font-semibold truncate">{participant.name}</p>
+      <p className="text-[10px] text-black/40 mb-2">
+        {[
+          t('duplicates.row', { row: index + 1 }),
+          `×${getWeight(participant)}`,
+          isCheckedIn(participant) && t('duplicates.checkedIn'),
+        ].filter(Boolean).join(' · ')}
+      </p>
+      <dl className="text-xs space-y-0.5">
+        {details.filter(([, value]) => value).map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="text-black/40 shrink-0">{label}</dt>
+            <dd className="truncate">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+export default function DuplicateReview({ participants, onMerge, onMarkDistinct, onClose }: DuplicateReviewProps) {
+  const { t } = useI18n();
+  // "Keep both" only hides a pair until the review is closed; "Different people" is saved.
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  const positions = useMemo(() => new Map(participants.map((p, i) => [p.id, i])), [participants]);
+  const pairs: DuplicatePair[] = useMemo(
+    () => findDuplicates(participants)
+      .map(pair => (positions.get(pair.a.id)! < positions.get(pair.b.id)! ? pair : { ...pair, a: pair.b, b: pair.a }))
+      .filter(pair => !skipped.has(`${pair.a.id}|${pair.b.id}`)),
+    [participants, positions, skipped]
+  );
+  const exact = pairs.filter(pair => pair.reason !== 'similar');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-3xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-black/5">
+          <div className="flex items-center gap-3">
+            <Copy size={20} />
+            <div>
+              <h2 className="font-bold">{t('duplicates.title')}</h2>
+              <p className="text-xs text-black/40">
+                {pairs.length === 0 ? t('duplicates.none') : t('duplicates.count', { count: pairs.length })}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-black/40 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {pairs.length === 0 && (
+            <div className="text-center py-12 text-black/30">
+              <CheckCircle2 size={48} className="mx-auto mb-4 text-emerald-500/40" />
+              <p className="font-medium">{t('duplicates.allUnique')}</p>
+            </div>
+          )}
+          {pairs.map(({ a, b, reason, score }) => (
+            <div key={`${a.id}|${b.id}`} className="p-4 rounded-2xl border border-black/10 space-y-3">
+              <div className="flex items-center justify-between">
+                <span
+                  className={cn(
+                    "text-[10px] px-2 py-0.5 rounded-full font-bold",
+                    reason === 'similar' ? "bg-amber-100 text-amber-700" : "bg-red-100 text-red-700"
+                  )}
+                >
+                  {t(`duplicates.reason.${reason}`)}
+                  {reason === 'similar' && ` · ${Math.round(score * 100)}%`}
+                </span>
+              </div>
+              <div className="flex gap-3">
+                <ParticipantDetails participant={a} index={positions.get(a.id)!} />
+                <ParticipantDetails participant={b} index={positions.get(b.id)!} />
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-[10px] font-bold uppercase tracking-wider">
+                <button onClick={() => onMerge([[a.id, b.id]])} className="text-black/60 hover:text-black">
+                  {t('duplicates.keepLeft')}
+                </button>
+                <button onClick={() => onMerge([[b.id, a.id]])} className="text-black/60 hover:text-black">
+                  {t('duplicates.keepRight')}
+                </button>
+                <button
+                  onClick={() => setSkipped(prev => new Set(prev).add(`${a.id}|${b.id}`))}
+                  className="text-black/40 hover:text-black"
+                >
+                  {t('duplicates.keepBoth')}
+                </button>
+                <button
+                  onClick={() => onMarkDistinct(a.id, b.id)}
+                  title={t('duplicates.distinct.title')}
+                  className="text-black/40 hover:text-black"
+                >
+                  {t('duplicates.distinct')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-black/5">
+          <p className="text-xs text-black/40">
+            {t('duplicates.mergeHint')}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="bg-white border border-black/10 px-6 py-3 rounded-xl font-semibold hover:bg-black/5 transition-colors"
+            >
+              {t('common.done')}
+            </button>
+            <button
+              onClick={() => onMerge(exact.map(pair => [pair.a.id, pair.b.id]))}
+              disabled={exact.length === 0}
+              className="bg-black text-white px-6 py-3 rounded-xl font-semibold hover:bg-black/80 transition-colors disabled:opacity-50"
+            >
+              {t(exact.length === 1 ? 'duplicates.mergeExactOne' : 'duplicates.mergeExactMany', { count: exact.length })}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
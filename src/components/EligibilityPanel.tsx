@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { AlertCircle, Plus, Trash2, X } from 'lucide-react';
+import type { AttributeFilter, EligibilityRules, FilterOperator, Participant } from '../types';
+import type { Exclusion } from '../lib/draw';
+import { FILTER_OPERATORS, findUnmatchedExclusions } from '../lib/eligibility';
+import { splitMembers } from '../lib/constraints';
+import { getAttributeLabel, listAttributeKeys } from '../lib/participants';
+import { useI18n } from '../lib/i18n';
+import { cn, createId } from '../lib/utils';
+
+interface EligibilityPanelProps {
+  participants: Participant[];
+  rules: EligibilityRules;
+  eligibleCount: number;
+  excluded: Exclusion[];
+  /** Winners found in the blocked previous events. */
+  pastWinnerCount: number;
+  checkedInCount: number;
+  disabled?: boolean;
+  onChange: (rules: EligibilityRules) => void;
+}
+
+export default function EligibilityPanel({
+  participants,
+  rules,
+  eligibleCount,
+  excluded,
+  pastWinnerCount,
+  checkedInCount,
+  disabled,
+  onChange,
+}: EligibilityPanelProps) {
+  const { t, rich } = useI18n();
+  const [exclusionText, setExclusionText] = useState('');
+  const [showExcluded, setShowExcluded] = useState(false);
+  const attributeKeys = listAttributeKeys(participants);
+  const unmatched = new Set(findUnmatchedExclusions(participants, rules.excluded));
+
+  const update = (patch: Partial<EligibilityRules>) => onChange({ ...rules, ...patch });
+
+  const addExclusions = () => {
+    const tokens = splitMembers(exclusionText).filter(t => !rules.excluded.includes(t));
+    if (tokens.length > 0) update({ excluded: [...rules.excluded, ...tokens] });
+    setExclusionText('');
+  };
+
+  const updateFilter = (id: string, patch: Partial<AttributeFilter>) => {
+    update({ filters: rules.filters.map(f => (f.id === id ? { ...f, ...patch } : f)) });
+  };
+
+  const addFilter = () => {
+    const key = attributeKeys[0] ?? '';
+    update({ filters: [...rules.filters, { id: createId(), key, operator: 'is', value: '' }] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between p-4 bg-black/5 rounded-xl">
+        <div>
+          <p className="font-semibold">{t('common.checkedInOnly')}</p>
+          <p className="text-xs text-black/40">
+            {t('eligibility.checkedInHint', { checked: checkedInCount, total: participants.length })}
+          </p>
+        </div>
+        <button
+          onClick={() => update({ checkedInOnly: !rules.checkedInOnly })}
+          disabled={disabled}
+          className={cn(
+            "w-12 h-6 rounded-full transition-colors relative shrink-0",
+            rules.checkedInOnly ? "bg-black" : "bg-black/20"
+          )}
+        >
+          <div className={cn(
+            "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+            rules.checkedInOnly ? "left-7" : "left-1"
+          )} />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-black/60 uppercase tracking-wide">{t('eligibility.exclusions')}</p>
+        <div className="flex gap-2">
+          <input
+            value={exclusionText}
+            disabled={disabled}
+            onChange={(e) => setExclusionText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addExclusions()}
+            placeholder={t('eligibility.exclusionPlaceholder')}
+            className="flex-1 p-2 rounded-lg border border-black/10 text-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+          />
+          <button
+            onClick={addExclusions}
+            disabled={disabled || !exclusionText.trim()}
+            className="px-3 rounded-lg bg-black text-white text-sm font-semibold disabled:opacity-30"
+          >
+            {t('common.add')}
+          </button>
+        </div>
+        {rules.excluded.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {rules.excluded.map(token => (
+              <span
+                key={token}
+                title={unmatched.has(token) ? t('eligibility.unmatchedToken') : undefined}
+                className={cn(
+                  "flex items-center gap-1 text-xs font-semibold pl-2 pr-1 py-1 rounded-full",
+                  unmatched.has(token) ? "bg-amber-100 text-amber-800" : "bg-black/5"
+                )}
+              >
+                {token}
+                <button
+                  onClick={() => update({ excluded: rules.excluded.filter(t => t !== token) })}
+                  disabled={disabled}
+                  className="text-black/30 hover:text-red-500"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold text-black/60 uppercase tracking-wide">{t('eligibility.filters')}</p>
+          <button
+            onClick={addFilter}
+            disabled={disabled || attributeKeys.length === 0}
+            className="text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider flex items-center gap-1 disabled:opacity-30"
+          >
+            <Plus size={12} />
+            {t('eligibility.addFilter')}
+          </button>
+        </div>
+        {attributeKeys.length === 0 && (
+          <p className="text-sm text-black/30 italic">{t('eligibility.noAttributes')}</p>
+        )}
+        {rules.filters.map(filter => (
+          <div key={filter.id} className="flex items-center gap-2">
+            <select
+              value={filter.key}
+              disabled={disabled}
+              onChange={(e) => updateFilter(filter.id, { key: e.target.value })}
+              className="flex-1 min-w-0 p-2 rounded-lg border border-black/10 text-sm"
+            >
+              {!attributeKeys.includes(filter.key) && <option value={filter.key}>{getAttributeLabel(filter.key, t('field.department'))}</option>}
+              {attributeKeys.map(key => (
+                <option key={key} value={key}>{getAttributeLabel(key, t('field.department'))}</option>
+              ))}
+            </select>
+            <select
+              value={filter.operator}
+              disabled={disabled}
+              onChange={(e) => updateFilter(filter.id, { operator: e.target.value as FilterOperator })}
+              className="w-20 p-2 rounded-lg border border-black/10 text-sm"
+            >
+              {FILTER_OPERATORS.map(op => (
+                <option key={op} value={op}>{t(`eligibility.operator.${op}`)}</option>
+              ))}
+            </select>
+            <input
+              value={filter.value}
+              disabled={disabled}
+              onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+              placeholder={t(filter.operator === 'is' || filter.operator === 'isNot' ? 'eligibility.listPlaceholder' : 'eligibility.valuePlaceholder')}
+              className="flex-1 min-w-0 p-2 rounded-lg border border-black/10 text-sm"
+            />
+            <button
+              onClick={() => update({ filters: rules.filters.filter(f => f.id !== filter.id) })}
+              disabled={disabled}
+              className="text-black/30 hover:text-red-500"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 bg-black/5 rounded-xl">
+        <div>
+          <p className="font-semibold">{t('eligibility.blockRecent')}</p>
+          <p className="text-xs text-black/40">
+            {rules.blockRecentEvents > 0
+              ? t('eligibility.blockRecentOn', { count: pastWinnerCount, events: rules.blockRecentEvents })
+              : t('eligibility.blockRecentOff')}
+          </p>
+        </div>
+        <input
+          type="number"
+          min="0"
+          value={rules.blockRecentEvents}
+          disabled={disabled}
+          onChange={(e) => update({ blockRecentEvents: Math.max(0, parseInt(e.target.value) || 0) })}
+          className="w-20 p-2 rounded-lg border border-black/10 text-sm font-bold text-center"
+        />
+      </div>
+
+      {unmatched.size > 0 && (
+        <div className="p-4 bg-amber-50 rounded-xl flex items-start gap-3 text-amber-800 text-sm">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <p>{t('eligibility.unmatched', { count: unmatched.size })}</p>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-black/40">
+            {rich('eligibility.eligibleOf', {
+              count: <span className="font-bold text-black">{eligibleCount}</span>,
+              total: participants.length,
+            })}
+          </p>
+          {excluded.length > 0 && (
+            <button
+              onClick={() => setShowExcluded(prev => !prev)}
+              className="text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider"
+            >
+              {t(showExcluded ? 'eligibility.hideExcluded' : 'eligibility.showExcluded', { count: excluded.length })}
+            </button>
+          )}
+        </div>
+        {showExcluded && excluded.length > 0 && (
+          <div className="mt-3 space-y-1 max-h-64 overflow-y-auto">
+            {excluded.map(({ participant, reasons }) => (
+              <div key={participant.id} className="flex items-start gap-3 text-sm">
+                <span className="w-1/3 truncate font-medium">{participant.name}</span>
+                <span className="flex-1 text-xs text-black/50">{reasons.map(reason => t(reason)).join(' · ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
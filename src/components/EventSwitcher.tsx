@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { Archive, ArchiveRestore, CalendarDays, Check, ChevronDown, Copy, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import type { EventMeta } from '../types';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface EventSwitcherProps {
+  events: EventMeta[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  /** Downloads the event as a session snapshot. */
+  onExport: (id: string) => void;
+  /** Opens a session snapshot as a new event. */
+  onImport: (file: File) => void;
+  onToggleArchive: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function EventSwitcher({
+  events,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onExport,
+  onImport,
+  onToggleArchive,
+  onDelete,
+}: EventSwitcherProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const active = events.find(e => e.id === activeId);
+  const visible = events.filter(e => e.archived === showArchived);
+  const archivedCount = events.filter(e => e.archived).length;
+
+  const commitRename = () => {
+    if (editingId && editName.trim()) onRename(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  const create = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-2 rounded-xl border border-black/10 text-sm font-semibold hover:bg-black/5 transition-colors max-w-[220px]"
+      >
+        <CalendarDays size={16} className="shrink-0" />
+        <span className="truncate">{active?.name ?? t('events.loading')}</span>
+        <ChevronDown size={14} className="shrink-0 text-black/40" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-80 bg-white rounded-2xl shadow-xl border border-black/5 p-3 z-20">
+          <div className="flex bg-black/5 p-1 rounded-lg mb-2 text-xs">
+            <button
+              onClick={() => setShowArchived(false)}
+              className={cn("flex-1 py-1 rounded-md font-medium", !showArchived ? "bg-white shadow-sm" : "text-black/50")}
+            >
+              {t('events.events')}
+            </button>
+            <button
+              onClick={() => setShowArchived(true)}
+              className={cn("flex-1 py-1 rounded-md font-medium", showArchived ? "bg-white shadow-sm" : "text-black/50")}
+            >
+              {t('events.archived', { count: archivedCount })}
+            </button>
+          </div>
+
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {visible.length === 0 && (
+              <p className="text-sm text-black/30 italic p-2">{showArchived ? t('events.noArchived') : t('events.none')}</p>
+            )}
+            {visible.map(event => (
+              <div
+                key={event.id}
+                className={cn(
+                  "flex items-center gap-2 p-2 rounded-lg text-sm group",
+                  event.id === activeId ? "bg-black/5" : "hover:bg-black/5"
+                )}
+              >
+                {editingId === event.id ? (
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 rounded border border-black/10 focus:outline-none focus:ring-2 focus:ring-black/5"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      onSelect(event.id);
+                      setOpen(false);
+                    }}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                  >
+                    {event.id === activeId ? <Check size={14} className="shrink-0" /> : <span className="w-3.5 shrink-0" />}
+                    <span className="truncate font-medium">{event.name}</span>
+                  </button>
+                )}
+                <div className="flex items-center gap-1 text-black/0 group-hover:text-black/40">
+                  <button
+                    title={t('events.rename')}
+                    onClick={() => {
+                      setEditingId(event.id);
+                      setEditName(event.name);
+                    }}
+                    className="hover:text-black"
+                  >
+                    <Pencil size={13} />
+                  </button>
+                  <button title={t('events.duplicate')} onClick={() => onDuplicate(event.id)} className="hover:text-black">
+                    <Copy size={13} />
+                  </button>
+                  <button title={t('events.export')} onClick={() => onExport(event.id)} className="hover:text-black">
+                    <Download size={13} />
+                  </button>
+                  <button
+                    title={event.archived ? t('events.restore') : t('events.archive')}
+                    onClick={() => onToggleArchive(event.id)}
+                    className="hover:text-black"
+                  >
+                    {event.archived ? <ArchiveRestore size={13} /> : <Archive size={13} />}
+                  </button>
+                  <button
+                    title={t('events.delete')}
+                    onClick={() => {
+                      if (window.confirm(t('events.confirmDelete', { name: event.name }))) onDelete(event.id);
+                    }}
+                    className="hover:text-red-500"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 mt-3 pt-3 border-t border-black/5">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && create()}
+              placeholder={t('events.newPlaceholder')}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-black/10 text-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+            />
+            <button
+              onClick={create}
+              disabled={!newName.trim()}
+              className="bg-black text-white px-3 py-2 rounded-lg text-sm font-semibold flex items-center gap-1 hover:bg-black/80 transition-colors disabled:opacity-50"
+            >
+              <Plus size={14} />
+              {t('events.create')}
+            </button>
+          </div>
+
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="w-full mt-2 flex items-center justify-center gap-1 py-2 text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider"
+          >
+            <Upload size={12} />
+            {t('events.import')}
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (!file) return;
+              onImport(file);
+              setOpen(false);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
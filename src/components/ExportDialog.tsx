@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Download, Printer, X } from 'lucide-react';
+import { EXPORT_FORMATS, toFileName, type ExportFormat, type ExportOptions } from '../lib/export';
+import { useI18n } from '../lib/i18n';
+import { cn, downloadFile } from '../lib/utils';
+
+interface ExportDialogProps {
+  heading: string;
+  /** Suggested file name, without extension. */
+  defaultName: string;
+  title: string;
+  /** Offers the one-group-per-page print layout. */
+  paged?: boolean;
+  build: (format: ExportFormat, options: ExportOptions) => string;
+  onClose: () => void;
+}
+
+export default function ExportDialog({ heading, defaultName, title, paged, build, onClose }: ExportDialogProps) {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [fileName, setFileName] = useState(defaultName);
+  const [onePerPage, setOnePerPage] = useState(false);
+
+  const options: ExportOptions = { title, onePerPage };
+  const { mime } = EXPORT_FORMATS.find(f => f.id === format)!;
+
+  const download = () => {
+    downloadFile(build(format, options), toFileName(fileName, format), mime);
+    onClose();
+  };
+
+  const print = () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(build('html', options));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-3xl shadow-xl w-full max-w-md flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-black/5">
+          <div className="flex items-center gap-3">
+            <Download size={20} />
+            <h2 className="font-bold">{heading}</h2>
+          </div>
+          <button onClick={onClose} className="text-black/40 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFormat(f.id)}
+                className={cn(
+                  "p-3 rounded-xl border text-sm font-semibold transition-all",
+                  format === f.id ? "border-black bg-black text-white" : "border-black/10 hover:bg-black/5"
+                )}
+              >
+                {t(`export.format.${f.id}`)}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-xs font-semibold text-black/60 uppercase tracking-wide space-y-1">
+            <span>{t('export.fileName')}</span>
+            <div className="flex items-center gap-2">
+              <input
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                className="flex-1 p-2 rounded-lg border border-black/10 text-sm normal-case font-medium text-black"
+              />
+              <span className="text-sm normal-case text-black/40">
+                .{EXPORT_FORMATS.find(f => f.id === format)!.extension}
+              </span>
+            </div>
+          </label>
+
+          {format === 'csv' && (
+            <p className="text-xs text-black/40">{t('export.csvHint')}</p>
+          )}
+
+          {paged && format === 'html' && (
+            <div className="flex items-center justify-between p-4 bg-black/5 rounded-xl">
+              <div>
+                <p className="font-semibold">{t('export.onePerPage')}</p>
+                <p className="text-xs text-black/40">{t('export.onePerPageHint')}</p>
+              </div>
+              <button
+                onClick={() => setOnePerPage(!onePerPage)}
+                className={cn(
+                  "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                  onePerPage ? "bg-black" : "bg-black/20"
+                )}
+              >
+                <div className={cn(
+                  "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                  onePerPage ? "left-7" : "left-1"
+                )} />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-black/5">
+          {format === 'html' && (
+            <button
+              onClick={print}
+              className="bg-white border border-black/10 px-6 py-3 rounded-xl font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors"
+            >
+              <Printer size={18} />
+              {t('export.print')}
+            </button>
+          )}
+          <button
+            onClick={download}
+            className="bg-black text-white px-6 py-3 rounded-xl font-semibold flex items-center gap-2 hover:bg-black/80 transition-colors"
+          >
+            <Download size={18} />
+            {t('export.download')}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, Eye, KeyRound, Download } from 'lucide-react';
+import type { AuditEntry, PublishedSeed } from '../types';
+import { hideUnrevealedSeeds, isSeedHidden, verifyAuditEntry, type AuditVerification } from '../lib/audit';
+import { useI18n } from '../lib/i18n';
+import { cn, downloadFile } from '../lib/utils';
+
+interface FairnessPanelProps {
+  publishedSeed: PublishedSeed | null;
+  entries: AuditEntry[];
+  disabled?: boolean;
+  /** The browser can't hash here, so local draws aren't logged and seeds can't be published. */
+  unavailable?: boolean;
+  onPublishSeed: () => void;
+  onRevealSeed: () => void;
+}
+
+const short = (hash: string) => `${hash.slice(0, 8)}…${hash.slice(-4)}`;
+
+export default function FairnessPanel({ publishedSeed, entries, disabled, unavailable, onPublishSeed, onRevealSeed }: FairnessPanelProps) {
+  const { t } = useI18n();
+  const [results, setResults] = useState<Record<string, AuditVerification>>({});
+
+  const verify = async (entry: AuditEntry) => {
+    try {
+      const result = await verifyAuditEntry(entry);
+      setResults(prev => ({ ...prev, [entry.id]: result }));
+    } catch {
+      window.alert(t('fairness.unavailable'));
+    }
+  };
+
+  const exportLog = () => {
+    // Unrevealed seeds stay out of the export until the reveal.
+    const data = hideUnrevealedSeeds(entries, publishedSeed);
+    downloadFile(JSON.stringify(data, null, 2), 'audit-log.json', 'application/json');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm h-fit">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <ShieldCheck size={18} />
+          {t('fairness.title')}
+        </h3>
+        {entries.length > 0 && (
+          <button
+            onClick={exportLog}
+            className="text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider flex items-center gap-1"
+          >
+            <Download size={12} />
+            {t('common.export')}
+          </button>
+        )}
+      </div>
+
+      {unavailable && (
+        <p className="p-3 mb-4 rounded-xl bg-amber-50 text-amber-800 text-xs flex gap-2">
+          <ShieldAlert size={14} className="shrink-0" />
+          {t('fairness.unavailable')}
+        </p>
+      )}
+
+      <div className="p-4 bg-black/5 rounded-xl mb-4 text-xs space-y-2">
+        {!publishedSeed || publishedSeed.revealed ? (
+          <>
+            {publishedSeed?.revealed && (
+              <div className="space-y-1">
+                <p className="text-black/40 font-semibold uppercase tracking-wide">{t('fairness.revealedSeed')}</p>
+                <p className="font-mono break-all">{publishedSeed.seed}</p>
+                <p className="text-black/40 font-semibold uppercase tracking-wide">{t('fairness.commitment')}</p>
+                <p className="font-mono break-all">{publishedSeed.commitment}</p>
+              </div>
+            )}
+            <p className="text-black/50">
+              {t('fairness.freshSeeds')}
+            </p>
+            <button
+              onClick={onPublishSeed}
+              disabled={disabled || unavailable}
+              className="w-full px-3 py-2 rounded-lg bg-black text-white font-semibold flex items-center justify-center gap-2 hover:bg-black/80 transition-colors disabled:opacity-50"
+            >
+              <KeyRound size={14} />
+              {t('fairness.publish')}
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-black/40 font-semibold uppercase tracking-wide">{t('fairness.commitmentHash')}</p>
+            <p className="font-mono break-all select-all">{publishedSeed.commitment}</p>
+            <p className="text-black/50">
+              {t('fairness.shareHash', { count: publishedSeed.uses })}
+            </p>
+            <button
+              onClick={onRevealSeed}
+              disabled={disabled}
+              className="w-full px-3 py-2 rounded-lg border border-black/10 bg-white font-semibold flex items-center justify-center gap-2 hover:bg-black/5 transition-colors disabled:opacity-50"
+            >
+              <Eye size={14} />
+              {t('fairness.reveal')}
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {entries.length === 0 ? (
+          <p className="text-sm text-black/30 italic">{t('fairness.empty')}</p>
+        ) : (
+          entries.map(entry => {
+            const result = results[entry.id];
+            const ok = result && result.inputOk && result.resultOk && result.commitmentOk !== false;
+            return (
+              <div key={entry.id} className="p-3 border border-black/5 rounded-xl text-xs space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-bold uppercase tracking-wide">
+                    {t(entry.kind === 'draw' ? 'fairness.drawEntry' : 'fairness.groupEntry', { count: entry.result.length })}
+                  </span>
+                  <span className="text-black/40">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                </div>
+                <p className="font-mono text-black/50">
+                  {t('fairness.seed', { seed: isSeedHidden(entry, publishedSeed) || !entry.seed ? t('fairness.hiddenSeed') : entry.seed })}
+                </p>
+                <p className="font-mono text-black/50">{t('fairness.input', { hash: short(entry.inputHash), count: entry.input.length })}</p>
+                <div className="flex items-center justify-between pt-1">
+                  {result ? (
+                    <span className={cn("flex items-center gap-1 font-semibold", ok ? "text-emerald-600" : "text-red-600")}>
+                      {ok ? <ShieldCheck size={12} /> : <ShieldAlert size={12} />}
+                      {t(ok ? 'fairness.replayMatches' : !result.inputOk ? 'fairness.inputMismatch' : !result.resultOk ? 'fairness.resultMismatch' : 'fairness.commitmentMismatch')}
+                    </span>
+                  ) : <span />}
+                  <button
+                    onClick={() => verify(entry)}
+                    disabled={!entry.seed}
+                    className="text-black/40 hover:text-black font-bold uppercase tracking-wider disabled:opacity-30"
+                  >
+                    {t('fairness.replay')}
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
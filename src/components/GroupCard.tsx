@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Crown, GripVertical, Lock, NotebookPen, Unlock, Trash2 } from 'lucide-react';
+import type { Group } from '../types';
+import { countAttribute, getAttributeLabel } from '../lib/participants';
+import { getRoleInGroup, orderMembers } from '../lib/roles';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+export interface DragPayload {
+  memberId: string;
+  fromGroupId: string;
+}
+
+const DRAG_TYPE = 'application/x-lucky-draw-member';
+
+interface GroupCardProps {
+  group: Group;
+  index: number;
+  balanceBy: string[];
+  onRename: (name: string) => void;
+  onToggleLock: () => void;
+  onToggleMemberLock: (memberId: string) => void;
+  /** Makes the member the group's leader, or clears the leader when they already are. */
+  onSetLeader: (memberId: string) => void;
+  onRemove: () => void;
+  onDropMember: (payload: DragPayload) => void;
+}
+
+export default function GroupCard({
+  group,
+  index,
+  balanceBy,
+  onRename,
+  onToggleLock,
+  onToggleMemberLock,
+  onSetLeader,
+  onRemove,
+  onDropMember,
+}: GroupCardProps) {
+  const { t } = useI18n();
+  const [isOver, setIsOver] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsOver(false);
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    if (!data || group.locked) return;
+    const payload = JSON.parse(data) as DragPayload;
+    if (payload.fromGroupId !== group.id) onDropMember(payload);
+  };
+
+  return (
+    <motion.div
+      initial={{ scale: 0.9, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ delay: index * 0.05 }}
+      onDragOver={(e) => {
+        if (group.locked || !e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "bg-white rounded-2xl p-6 border shadow-sm transition-colors",
+        isOver ? "border-black ring-2 ring-black/10" : group.locked ? "border-amber-300" : "border-black/5"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 mb-4 pb-4 border-b border-black/5">
+        <input
+          value={group.name}
+          onChange={(e) => onRename(e.target.value)}
+          className="font-black text-xl min-w-0 flex-1 bg-transparent rounded-lg px-1 -mx-1 focus:outline-none focus:ring-2 focus:ring-black/5"
+        />
+        <span className="text-xs bg-black text-white px-2 py-1 rounded-full font-bold whitespace-nowrap">
+          {t('group.members', { count: group.members.length })}
+        </span>
+        <button
+          onClick={onToggleLock}
+          title={group.locked ? t('group.unlock') : t('group.lock')}
+          className={cn("transition-colors", group.locked ? "text-amber-500" : "text-black/30 hover:text-black")}
+        >
+          {group.locked ? <Lock size={16} /> : <Unlock size={16} />}
+        </button>
+        {group.members.length === 0 && (
+          <button onClick={onRemove} title={t('group.remove')} className="text-black/30 hover:text-red-500 transition-colors">
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+      <div className="space-y-2 min-h-[2.5rem]">
+        {group.members.length === 0 && (
+          <p className="text-sm text-black/30 italic p-2">{t('group.dropHere')}</p>
+        )}
+        {orderMembers(group).map((p) => {
+          const memberLocked = group.locked || (group.lockedMemberIds ?? []).includes(p.id);
+          const role = getRoleInGroup(group, p);
+          return (
+            <div
+              key={p.id}
+              draggable={!memberLocked}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ memberId: p.id, fromGroupId: group.id } satisfies DragPayload));
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              className={cn(
+                "flex items-center gap-3 p-2 bg-black/5 rounded-lg text-sm font-medium group/member",
+                !memberLocked && "cursor-grab active:cursor-grabbing"
+              )}
+            >
+              {memberLocked ? (
+                <div className="w-2 h-2 rounded-full bg-amber-400" />
+              ) : (
+                <GripVertical size={14} className="text-black/20 -mx-1" />
+              )}
+              <span className="flex-1 truncate">{p.name}</span>
+              {role && (
+                <span
+                  className={cn(
+                    "flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full font-bold shrink-0",
+                    role === 'leader' ? "bg-amber-100 text-amber-700" : "bg-sky-100 text-sky-700"
+                  )}
+                >
+                  {role === 'leader' ? <Crown size={10} /> : <NotebookPen size={10} />}
+                  {t(`role.${role}`)}
+                </span>
+              )}
+              <button
+                onClick={() => onSetLeader(p.id)}
+                title={p.id === group.leaderId ? t('group.removeLeader') : t('group.makeLeader')}
+                className="text-black/0 group-hover/member:text-black/30 hover:text-black transition-colors"
+              >
+                <Crown size={12} />
+              </button>
+              {!group.locked && (
+                <button
+                  onClick={() => onToggleMemberLock(p.id)}
+                  title={memberLocked ? t('group.unlockMember') : t('group.lockMember')}
+                  className={cn(
+                    "transition-colors",
+                    memberLocked ? "text-amber-500" : "text-black/0 group-hover/member:text-black/30 hover:text-black"
+                  )}
+                >
+                  {memberLocked ? <Lock size={12} /> : <Unlock size={12} />}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {balanceBy.length > 0 && group.members.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-black/5 space-y-2">
+          {balanceBy.map(key => (
+            <div key={key}>
+              <p className="text-[10px] text-black/40 uppercase tracking-wider font-bold mb-1">{getAttributeLabel(key, t('field.department'))}</p>
+              <div className="flex flex-wrap gap-1">
+                {countAttribute(group.members, key).map(([value, count]) => (
+                  <span key={value} className="text-[10px] bg-black/5 px-2 py-0.5 rounded-full font-semibold">
+                    {value} ×{count}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Check, History as HistoryIcon, Redo2, Undo2 } from 'lucide-react';
+import { canRedo, canUndo, type History } from '../lib/history';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface HistoryPanelProps {
+  history: History;
+  /** Set while a draw is running; nothing can be undone until it ends. */
+  disabled: boolean;
+  /** Set when the server owns the draw history, which then stays as it is on undo. */
+  keepsDraws?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function HistoryPanel({ history, disabled, keepsDraws, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const entries = history.entries.map((entry, index) => ({ entry, index })).reverse();
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={onUndo}
+        disabled={disabled || !canUndo(history)}
+        title={canUndo(history) ? t('history.undo', { label: history.entries[history.index].label }) : t('history.nothingToUndo')}
+        className="p-2 rounded-lg text-black/60 hover:bg-black/5 hover:text-black disabled:opacity-30 disabled:hover:bg-transparent"
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={disabled || !canRedo(history)}
+        title={canRedo(history) ? t('history.redo', { label: history.entries[history.index + 1].label }) : t('history.nothingToRedo')}
+        className="p-2 rounded-lg text-black/60 hover:bg-black/5 hover:text-black disabled:opacity-30 disabled:hover:bg-transparent"
+      >
+        <Redo2 size={16} />
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        title={t('history.timeline')}
+        className={cn("p-2 rounded-lg text-black/60 hover:bg-black/5 hover:text-black", open && "bg-black/5 text-black")}
+      >
+        <HistoryIcon size={16} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-2xl shadow-xl border border-black/5 p-3 z-20">
+          <div className="flex items-center justify-between px-2 mb-2">
+            <p className="text-sm font-bold">{t('history.timeline')}</p>
+            <p className="text-[10px] text-black/40 uppercase tracking-wider font-bold">{t('history.steps', { count: history.entries.length })}</p>
+          </div>
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {entries.map(({ entry, index }) => (
+              <button
+                key={entry.id}
+                onClick={() => onJump(index)}
+                disabled={disabled}
+                className={cn(
+                  "w-full flex items-center gap-2 p-2 rounded-lg text-sm text-left disabled:cursor-not-allowed",
+                  index === history.index ? "bg-black/5 font-semibold" : "hover:bg-black/5",
+                  index > history.index && "text-black/30"
+                )}
+              >
+                {index === history.index ? <Check size={14} className="shrink-0" /> : <span className="w-3.5 shrink-0" />}
+                <span className="flex-1 truncate">{entry.label}</span>
+                <span className="text-[10px] text-black/40 font-mono shrink-0">{formatTime(entry.timestamp)}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-black/40 mt-2 pt-2 border-t border-black/5 px-2">
+            {t('history.hint')}
+            {keepsDraws && ` ${t('history.serverDraws')}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertCircle, FileSpreadsheet, X } from 'lucide-react';
+import type { Participant } from '../types';
+import {
+  buildParticipants,
+  detectHeader,
+  getColumnLabels,
+  guessMapping,
+  parseTable,
+  UNIQUE_ROLES,
+  type ColumnRole,
+  type CsvDelimiter,
+  type CsvEncoding,
+  type ParsedTable,
+} from '../lib/csvImport';
+import { useI18n, type MessageKey } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface ImportWizardProps {
+  file: File;
+  onCancel: () => void;
+  onImport: (participants: Participant[]) => void;
+}
+
+const COLUMN_ROLES: ColumnRole[] = ['name', 'externalId', 'email', 'department', 'weight', 'role', 'attribute', 'ignore'];
+
+// Encoding names read the same in every language.
+const ENCODINGS: { id: CsvEncoding; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'gb18030', label: 'GBK / GB18030' },
+  { id: 'big5', label: 'Big5' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+const DELIMITERS: { id: Exclude<CsvDelimiter, 'auto'>; label: MessageKey }[] = [
+  { id: ',', label: 'import.comma' },
+  { id: ';', label: 'import.semicolon' },
+  { id: '\t', label: 'import.tab' },
+];
+
+const PREVIEW_ROWS = 8;
+
+export default function ImportWizard({ file, onCancel, onImport }: ImportWizardProps) {
+  const { t } = useI18n();
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding>('auto');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>('auto');
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ColumnRole[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    file.arrayBuffer().then(setBuffer, () => setError(t('import.readFailed')));
+  }, [file]);
+
+  useEffect(() => {
+    if (!buffer) return;
+    try {
+      const parsed = parseTable(buffer, encoding, delimiter);
+      const header = detectHeader(parsed.rows);
+      setTable(parsed);
+      setHasHeader(header);
+      setMapping(guessMapping(parsed.rows, header));
+      setError(null);
+    } catch {
+      setError(t('import.decodeFailed', { encoding }));
+    }
+  }, [buffer, encoding, delimiter]);
+
+  const toggleHeader = () => {
+    if (!table) return;
+    setHasHeader(!hasHeader);
+    setMapping(guessMapping(table.rows, !hasHeader));
+  };
+
+  const setRole = (index: number, role: ColumnRole) => {
+    setMapping(prev => prev.map((current, i) => {
+      if (i === index) return role;
+      // A unique role moves to the newly chosen column.
+      if (current === role && UNIQUE_ROLES.includes(role)) return 'attribute';
+      return current;
+    }));
+  };
+
+  const labels = useMemo(() => (table ? getColumnLabels(table.rows, hasHeader) : []), [table, hasHeader]);
+
+  const result = useMemo(
+    () => (table ? buildParticipants(table.rows, mapping, hasHeader) : { participants: [], issues: [] }),
+    [table, mapping, hasHeader]
+  );
+
+  const previewRows = table ? table.rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS) : [];
+  const hasName = mapping.includes('name');
+  const detectedDelimiter = table && DELIMITERS.find(d => d.id === table.delimiter);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-3xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-black/5">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet size={20} />
+            <div>
+              <h2 className="font-bold">{t('import.title')}</h2>
+              <p className="text-xs text-black/40">{file.name}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-black/40 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="text-xs font-semibold text-black/60 uppercase tracking-wide space-y-1">
+              <span>{t('import.encoding')}</span>
+              <select
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as CsvEncoding)}
+                className="w-full p-2 rounded-lg border border-black/10 text-sm normal-case font-medium text-black"
+              >
+                <option value="auto">
+                  {table ? `${t('import.autoDetect')} (${table.encoding})` : t('import.autoDetect')}
+                </option>
+                {ENCODINGS.map(opt => (
+                  <option key={opt.id} value={opt.id}>{opt.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-semibold text-black/60 uppercase tracking-wide space-y-1">
+              <span>{t('import.separator')}</span>
+              <select
+                value={delimiter}
+                onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+                className="w-full p-2 rounded-lg border border-black/10 text-sm normal-case font-medium text-black"
+              >
+                <option value="auto">
+                  {table ? `${t('import.autoDetect')} (${detectedDelimiter ? t(detectedDelimiter.label) : table.delimiter})` : t('import.autoDetect')}
+                </option>
+                {DELIMITERS.map(opt => (
+                  <option key={opt.id} value={opt.id}>{t(opt.label)}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex items-center justify-between p-3 bg-black/5 rounded-xl">
+              <p className="text-sm font-semibold">{t('import.header')}</p>
+              <button
+                onClick={toggleHeader}
+                className={cn(
+                  "w-10 h-5 rounded-full transition-colors relative",
+                  hasHeader ? "bg-emerald-500" : "bg-black/20"
+                )}
+              >
+                <div className={cn(
+                  "absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all",
+                  hasHeader ? "left-5.5" : "left-0.5"
+                )} />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 rounded-xl flex items-start gap-3 text-red-700 text-sm">
+              <AlertCircle size={18} className="shrink-0 mt-0.5" />
+              <p>{error}</p>
+            </div>
+          )}
+
+          {table && (
+            <div className="overflow-x-auto border border-black/5 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-black/5">
+                  <tr>
+                    {labels.map((label, i) => (
+                      <th key={i} className="p-2 text-left align-top min-w-[140px]">
+                        <p className="text-xs font-bold truncate mb-1">{label}</p>
+                        <select
+                          value={mapping[i] ?? 'attribute'}
+                          onChange={(e) => setRole(i, e.target.value as ColumnRole)}
+                          className="w-full p-1 rounded border border-black/10 text-xs font-medium bg-white"
+                        >
+                          {COLUMN_ROLES.map(role => (
+                            <option key={role} value={role}>{t(`column.${role}`)}</option>
+                          ))}
+                        </select>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((row, r) => (
+                    <tr key={r} className="border-t border-black/5">
+                      {labels.map((_, i) => (
+                        <td
+                          key={i}
+                          className={cn("p-2 truncate max-w-[200px]", mapping[i] === 'ignore' && "text-black/20")}
+                        >
+                          {row[i] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {table.rows.length - (hasHeader ? 1 : 0) > PREVIEW_ROWS && (
+                <p className="p-2 text-xs text-black/40 border-t border-black/5">
+                  {t('import.preview', { shown: PREVIEW_ROWS, total: table.rows.length - (hasHeader ? 1 : 0) })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {result.issues.length > 0 && (
+            <div className="p-4 bg-amber-50 rounded-xl text-amber-800 text-sm">
+              <p className="font-semibold flex items-center gap-2 mb-2">
+                <AlertCircle size={16} />
+                {t('import.skipped', { count: result.issues.length })}
+              </p>
+              <ul className="space-y-1 max-h-32 overflow-y-auto text-xs font-mono">
+                {result.issues.map(issue => (
+                  <li key={issue.row}>{t('import.rowIssue', { row: issue.row, reason: issue.reason })}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-black/5">
+          <p className="text-xs text-black/40">
+            {hasName ? t('import.ready', { count: result.participants.length }) : t('import.needName')}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="bg-white border border-black/10 px-6 py-3 rounded-xl font-semibold hover:bg-black/5 transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={() => onImport(result.participants)}
+              disabled={!hasName || result.participants.length === 0}
+              className="bg-black text-white px-6 py-3 rounded-xl font-semibold hover:bg-black/80 transition-colors disabled:opacity-50"
+            >
+              {t('import.import', { count: result.participants.length })}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
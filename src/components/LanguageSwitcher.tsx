@@ -0,0 +1,26 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, useI18n, type Locale } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div title={t('app.language')} className="flex items-center gap-1 bg-black/5 p-1 rounded-lg text-xs">
+      <Languages size={14} className="mx-1 text-black/40" />
+      {(Object.keys(LOCALES) as Locale[]).map(id => (
+        <button
+          key={id}
+          onClick={() => setLocale(id)}
+          className={cn(
+            "px-2 py-1 rounded-md font-semibold transition-all",
+            locale === id ? "bg-white text-black shadow-sm" : "text-black/50 hover:text-black"
+          )}
+        >
+          {LOCALES[id].label}
+        </button>
+      ))}
+    </div>
+  );
+}
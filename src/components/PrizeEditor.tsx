@@ -0,0 +1,120 @@
+import React from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import type { Prize } from '../types';
+import { sortPrizes } from '../lib/draw';
+import { useI18n } from '../lib/i18n';
+import { cn, createId } from '../lib/utils';
+
+interface PrizeEditorProps {
+  prizes: Prize[];
+  wonCounts: Record<string, number>;
+  currentPrizeId: string | null;
+  disabled?: boolean;
+  onChange: (prizes: Prize[]) => void;
+}
+
+export default function PrizeEditor({ prizes, wonCounts, currentPrizeId, disabled, onChange }: PrizeEditorProps) {
+  const { t } = useI18n();
+  const sorted = sortPrizes(prizes);
+
+  const updatePrize = (id: string, patch: Partial<Prize>) => {
+    onChange(prizes.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const addPrize = () => {
+    const nextOrder = sorted.length ? sorted[sorted.length - 1].order + 1 : 1;
+    onChange([...prizes, { id: createId(), name: t('prizes.defaultName', { number: sorted.length + 1 }), quantity: 1, order: nextOrder }]);
+  };
+
+  const movePrize = (index: number, delta: number) => {
+    const target = sorted[index + delta];
+    if (!target) return;
+    const current = sorted[index];
+    onChange(prizes.map(p => {
+      if (p.id === current.id) return { ...p, order: target.order };
+      if (p.id === target.id) return { ...p, order: current.order };
+      return p;
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      {sorted.length === 0 && (
+        <p className="text-sm text-black/30 italic">{t('prizes.empty')}</p>
+      )}
+      {sorted.map((prize, i) => {
+        const won = wonCounts[prize.id] ?? 0;
+        return (
+          <div
+            key={prize.id}
+            className={cn(
+              "flex items-center gap-3 p-3 rounded-xl border",
+              prize.id === currentPrizeId ? "border-black bg-black/5" : "border-black/10"
+            )}
+          >
+            <div className="flex flex-col">
+              <button
+                onClick={() => movePrize(i, -1)}
+                disabled={disabled || i === 0}
+                className="text-black/40 hover:text-black disabled:opacity-20"
+              >
+                <ChevronUp size={14} />
+              </button>
+              <button
+                onClick={() => movePrize(i, 1)}
+                disabled={disabled || i === sorted.length - 1}
+                className="text-black/40 hover:text-black disabled:opacity-20"
+              >
+                <ChevronDown size={14} />
+              </button>
+            </div>
+            {prize.image && (
+              <img src={prize.image} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+            )}
+            <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <input
+                value={prize.name}
+                onChange={(e) => updatePrize(prize.id, { name: e.target.value })}
+                disabled={disabled}
+                className="sm:col-span-2 px-3 py-2 rounded-lg border border-black/10 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-black/5"
+              />
+              <input
+                type="number"
+                min="1"
+                value={prize.quantity}
+                onChange={(e) => updatePrize(prize.id, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                disabled={disabled}
+                className="px-3 py-2 rounded-lg border border-black/10 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-black/5"
+              />
+              <input
+                value={prize.image ?? ''}
+                onChange={(e) => updatePrize(prize.id, { image: e.target.value.trim() || undefined })}
+                disabled={disabled}
+                placeholder={t('prizes.image')}
+                className="sm:col-span-3 px-3 py-2 rounded-lg border border-black/10 text-xs focus:outline-none focus:ring-2 focus:ring-black/5"
+              />
+            </div>
+            <span className="text-[10px] bg-black/10 px-2 py-1 rounded-full font-bold whitespace-nowrap">
+              {won}/{prize.quantity}
+            </span>
+            <button
+              onClick={() => onChange(prizes.filter(p => p.id !== prize.id))}
+              disabled={disabled}
+              className="text-black/30 hover:text-red-500 transition-colors disabled:opacity-20"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={addPrize}
+        disabled={disabled}
+        className="w-full px-4 py-3 rounded-xl border border-dashed border-black/20 text-sm font-medium flex items-center justify-center gap-2 hover:bg-black/5 transition-colors disabled:opacity-50"
+      >
+        <Plus size={16} />
+        {t('prizes.add')}
+      </button>
+    </div>
+  );
+}
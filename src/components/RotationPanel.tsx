@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { CalendarDays, Download, Repeat, Trash2 } from 'lucide-react';
+import type { GroupRound } from '../types';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface RotationPanelProps {
+  rounds: GroupRound[];
+  disabled?: boolean;
+  onPlan: (count: number) => void;
+  onSelect: (round: GroupRound) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export default function RotationPanel({ rounds, disabled, onPlan, onSelect, onDelete, onClear, onExport }: RotationPanelProps) {
+  const { t } = useI18n();
+  const [planCount, setPlanCount] = useState(4);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <Repeat size={18} />
+          {t('rotation.title')}
+        </h3>
+        {rounds.length > 0 && (
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onExport}
+              className="text-xs text-black/40 hover:text-black font-bold uppercase tracking-wider flex items-center gap-1"
+            >
+              <Download size={12} />
+              {t('common.export')}
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(t('rotation.confirmClear', { count: rounds.length }))) onClear();
+              }}
+              className="text-xs text-black/40 hover:text-red-500 font-bold uppercase tracking-wider"
+            >
+              {t('common.clear')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <input
+          type="number"
+          min="1"
+          max="52"
+          value={planCount}
+          onChange={(e) => setPlanCount(Math.max(1, parseInt(e.target.value) || 1))}
+          className="w-20 p-2 rounded-lg border border-black/10 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-black/5"
+        />
+        <button
+          onClick={() => onPlan(planCount)}
+          disabled={disabled}
+          className="bg-black text-white px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 hover:bg-black/80 transition-colors disabled:opacity-50"
+        >
+          <CalendarDays size={14} />
+          {t('rotation.plan', { count: planCount })}
+        </button>
+      </div>
+
+      {rounds.length === 0 ? (
+        <p className="text-sm text-black/30 italic">
+          {t('rotation.empty')}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rounds.map((round, i) => (
+            <div key={round.id} className="flex items-center gap-3 p-2 bg-black/5 rounded-lg text-sm">
+              <button onClick={() => onSelect(round)} className="flex-1 flex items-center gap-3 text-left">
+                <span className="font-bold">{t('rotation.round', { number: i + 1 })}</span>
+                <span className="text-xs text-black/40">{new Date(round.timestamp).toLocaleString()}</span>
+              </button>
+              <span
+                className={cn(
+                  "text-[10px] px-2 py-1 rounded-full font-bold",
+                  round.newPairRatio >= 0.9 ? "bg-emerald-100 text-emerald-700"
+                    : round.newPairRatio >= 0.6 ? "bg-amber-100 text-amber-700"
+                    : "bg-red-100 text-red-700"
+                )}
+              >
+                {t('rotation.newPairs', { percent: percent(round.newPairRatio) })}
+              </span>
+              <button
+                onClick={() => onDelete(round.id)}
+                className="text-black/30 hover:text-red-500 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
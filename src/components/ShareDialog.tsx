@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertCircle, Check, Copy, ExternalLink, Share2, X } from 'lucide-react';
+import { createShareLink, type SharedResults } from '../lib/share';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+
+interface ShareDialogProps {
+  results: SharedResults;
+  onClose: () => void;
+}
+
+// Chat apps and some mail clients cut off links longer than this.
+const LONG_LINK = 8000;
+
+export default function ShareDialog({ results, onClose }: ShareDialogProps) {
+  const { t } = useI18n();
+  const [includeGroups, setIncludeGroups] = useState(results.groups.length > 0);
+  const [includeWinners, setIncludeWinners] = useState(results.winners.length > 0);
+  const [link, setLink] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCopied(false);
+    createShareLink({
+      ...results,
+      groups: includeGroups ? results.groups : [],
+      winners: includeWinners ? results.winners : [],
+    }).then(url => {
+      if (!cancelled) setLink(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [results, includeGroups, includeWinners]);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  };
+
+  const options = [
+    {
+      id: 'groups',
+      label: t('share.groups'),
+      detail: t('share.groupCount', { count: results.groups.length }),
+      value: includeGroups,
+      set: setIncludeGroups,
+      available: results.groups.length > 0,
+    },
+    {
+      id: 'winners',
+      label: t('share.winners'),
+      detail: t('share.winnerCount', { count: results.winners.length }),
+      value: includeWinners,
+      set: setIncludeWinners,
+      available: results.winners.length > 0,
+    },
+  ].filter(o => o.available);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-3xl shadow-xl w-full max-w-lg flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-black/5">
+          <div className="flex items-center gap-3">
+            <Share2 size={20} />
+            <div>
+              <h2 className="font-bold">{t('share.title')}</h2>
+              <p className="text-xs text-black/40">{t('share.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-black/40 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {options.map(option => (
+            <div key={option.id} className="flex items-center justify-between p-4 bg-black/5 rounded-xl">
+              <div>
+                <p className="font-semibold">{option.label}</p>
+                <p className="text-xs text-black/40">{option.detail}</p>
+              </div>
+              <button
+                onClick={() => option.set(!option.value)}
+                className={cn(
+                  "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                  option.value ? "bg-black" : "bg-black/20"
+                )}
+              >
+                <div className={cn(
+                  "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                  option.value ? "left-7" : "left-1"
+                )} />
+              </button>
+            </div>
+          ))}
+
+          <input
+            readOnly
+            value={link}
+            onFocus={(e) => e.target.select()}
+            className="w-full p-3 rounded-xl border border-black/10 text-xs font-mono text-black/60"
+          />
+
+          {link.length > LONG_LINK && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 text-amber-700 rounded-xl text-xs">
+              <AlertCircle size={16} className="shrink-0" />
+              <p>{t('share.longLink', { length: link.length.toLocaleString() })}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-black/5">
+          <a
+            href={link || undefined}
+            target="_blank"
+            rel="noreferrer"
+            className="bg-white border border-black/10 px-6 py-3 rounded-xl font-semibold flex items-center gap-2 hover:bg-black/5 transition-colors"
+          >
+            <ExternalLink size={18} />
+            {t('share.open')}
+          </a>
+          <button
+            onClick={copy}
+            disabled={!link || (!includeGroups && !includeWinners)}
+            className="bg-black text-white px-6 py-3 rounded-xl font-semibold flex items-center gap-2 hover:bg-black/80 transition-colors disabled:opacity-50"
+          >
+            {copied ? <Check size={18} /> : <Copy size={18} />}
+            {copied ? t('share.copied') : t('share.copy')}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
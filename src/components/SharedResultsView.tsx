@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Crown, Gift, Search, Trophy } from 'lucide-react';
+import { decodeSharedResults, readShareHash, type SharedResults } from '../lib/share';
+import { formatTimestamp } from '../lib/export';
+import { normalizeName } from '../lib/participants';
+import { useI18n } from '../lib/i18n';
+import { cn } from '../lib/utils';
+import LanguageSwitcher from './LanguageSwitcher';
+
+/**
+ * The read-only page a share link opens. Everything it shows comes from the
+ * URL hash, which browsers never send to a server.
+ */
+export default function SharedResultsView() {
+  const { locale, t } = useI18n();
+  const [results, setResults] = useState<SharedResults | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const load = () => {
+      decodeSharedResults(readShareHash())
+        .then(decoded => {
+          setResults(decoded);
+          setFailed(false);
+        })
+        .catch(() => setFailed(true));
+    };
+    load();
+    window.addEventListener('hashchange', load);
+    return () => window.removeEventListener('hashchange', load);
+  }, []);
+
+  useEffect(() => {
+    document.title = results ? t('shared.pageTitle', { title: results.title }) : t('shared.results');
+  }, [results?.title, locale]);
+
+  const needle = normalizeName(query);
+  const matches = (name: string) => needle !== '' && normalizeName(name).includes(needle);
+
+  const groups = useMemo(
+    () => (results?.groups ?? []).filter(g => needle === '' || g.members.some(matches)),
+    [results, needle]
+  );
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F5] text-[#1A1A1A] font-sans">
+      <header className="bg-white border-b border-black/5 px-6 py-4 flex items-center gap-3">
+        <div className="w-10 h-10 bg-black rounded-xl flex items-center justify-center text-white">
+          <Gift size={24} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h1 className="font-bold text-lg leading-tight">{results?.title || t('shared.results')}</h1>
+          {results && results.createdAt > 0 && (
+            <p className="text-xs text-black/40 uppercase tracking-wider font-semibold">
+              {t('shared.sharedAt', { time: formatTimestamp(results.createdAt) })}
+            </p>
+          )}
+        </div>
+        <LanguageSwitcher />
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6 space-y-6">
+        {failed && (
+          <div className="flex items-center gap-3 p-4 bg-red-50 text-red-700 rounded-2xl">
+            <AlertCircle size={20} className="shrink-0" />
+            <p className="text-sm font-medium">{t('shared.damaged')}</p>
+          </div>
+        )}
+
+        {results && (
+          <>
+            <div className="relative">
+              <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-black/30" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('shared.findName')}
+                className="w-full pl-11 pr-4 py-3 rounded-2xl border border-black/10 bg-white focus:outline-none focus:ring-2 focus:ring-black/5"
+              />
+            </div>
+
+            {results.winners.length > 0 && (
+              <section className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+                <h2 className="font-bold flex items-center gap-2 mb-4">
+                  <Trophy size={18} />
+                  {t('share.winners')}
+                </h2>
+                <ol className="space-y-1">
+                  {results.winners.map((winner, i) => (
+                    <li
+                      key={i}
+                      className={cn(
+                        "flex items-center justify-between gap-4 px-3 py-2 rounded-lg",
+                        matches(winner.name) ? "bg-amber-100" : "odd:bg-black/[0.02]"
+                      )}
+                    >
+                      <span className="font-semibold">{winner.name}</span>
+                      {winner.prize && <span className="text-sm text-black/40">{winner.prize}</span>}
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+
+            {results.groups.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {groups.map((group, i) => (
+                  <section key={i} className="bg-white rounded-2xl p-6 border border-black/5 shadow-sm">
+                    <div className="flex items-center justify-between gap-2 mb-4 pb-4 border-b border-black/5">
+                      <h2 className="font-black text-xl truncate">{group.name}</h2>
+                      <span className="text-xs bg-black text-white px-2 py-1 rounded-full font-bold whitespace-nowrap">
+                        {t('group.members', { count: group.members.length })}
+                      </span>
+                    </div>
+                    <ul className="space-y-1">
+                      {group.members.map((name, j) => (
+                        <li
+                          key={j}
+                          className={cn(
+                            "flex items-center justify-between px-3 py-1.5 rounded-lg font-medium",
+                            matches(name) && "bg-amber-100"
+                          )}
+                        >
+                          {name}
+                          {j === 0 && group.leader === name && (
+                            <span className="flex items-center gap-1 text-[10px] text-amber-700 font-bold uppercase tracking-wider">
+                              <Crown size={12} />
+                              {t('role.leader')}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+                {groups.length === 0 && (
+                  <p className="text-black/30 italic">{t('shared.noMatch', { query })}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Gift, Maximize } from 'lucide-react';
+import DrawStage from './DrawStage';
+import { openStageChannel, type StageState } from '../lib/stage';
+import { useI18n } from '../lib/i18n';
+import { cn, createId } from '../lib/utils';
+
+/**
+ * The audience-facing window opened from the presenter's draw tab. It has no
+ * controls of its own and renders whatever the presenter broadcasts.
+ */
+export default function StageWindow() {
+  const { locale, t } = useI18n();
+  const [state, setState] = useState<StageState | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    const stageId = createId();
+    const channel = openStageChannel(message => {
+      if (message.type === 'state') setState(message.state);
+      else if (message.type === 'presenter') channel.post({ type: 'hello', stageId });
+    });
+    channel.post({ type: 'hello', stageId });
+    const leave = () => channel.post({ type: 'bye', stageId });
+    window.addEventListener('beforeunload', leave);
+    return () => {
+      window.removeEventListener('beforeunload', leave);
+      leave();
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    const update = () => setIsFullscreen(document.fullscreenElement !== null);
+    document.addEventListener('fullscreenchange', update);
+    return () => document.removeEventListener('fullscreenchange', update);
+  }, []);
+
+  useEffect(() => {
+    document.title = state ? t('stage.pageTitle', { event: state.eventName }) : t('stage.title');
+  }, [state?.eventName, locale]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen();
+  };
+
+  return (
+    <div className={cn("min-h-screen bg-black font-sans relative", isFullscreen && "cursor-none")} onDoubleClick={toggleFullscreen}>
+      <header className="absolute top-0 inset-x-0 z-20 flex items-center justify-between p-8">
+        <div className="flex items-center gap-4 text-white">
+          <div className="w-12 h-12 bg-white rounded-xl flex items-center justify-center text-black">
+            <Gift size={28} />
+          </div>
+          <h1 className="font-black text-2xl tracking-tight">{state?.eventName ?? t('stage.defaultName')}</h1>
+        </div>
+        {!isFullscreen && (
+          <button
+            onClick={toggleFullscreen}
+            className="flex items-center gap-2 text-white/40 hover:text-white text-xs font-bold uppercase tracking-wider"
+          >
+            <Maximize size={14} />
+            {t('stage.fullscreen')}
+          </button>
+        )}
+      </header>
+
+      {state ? (
+        <DrawStage state={state} fullscreen />
+      ) : (
+        <div className="min-h-screen flex items-center justify-center text-white/30 text-xl font-medium">
+          {t('stage.waiting')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Gift } from 'lucide-react';
+import { clamp01 } from '../../lib/animation';
+import { cn } from '../../lib/utils';
+import { useTickOnChange, type AnimationProps } from './shared';
+
+// The cards are dealt and shuffled first, then flipped one after another.
+const FLIP_START = 0.6;
+const FLIP_SPAN = 0.35;
+
+export default function CardsAnimation({ playback, time, ease, large, onTick }: AnimationProps) {
+  const { winners } = playback;
+  const n = winners.length;
+
+  const angles = winners.map((_, i) => {
+    const start = FLIP_START + (FLIP_SPAN * i) / n;
+    return 180 * ease(clamp01((time - start) / (FLIP_SPAN / n)));
+  });
+  useTickOnChange(angles.filter(a => a > 90).length, onTick, 'flip');
+
+  return (
+    <div className={cn("relative z-10 flex flex-wrap justify-center", large ? "gap-8 max-w-[90vw]" : "gap-4 max-w-2xl")}>
+      {winners.map((winner, i) => {
+        const dealt = clamp01(time * 8 - i * 0.3);
+        const wobble = time < FLIP_START ? Math.sin(time * 60 + i * 1.7) * 6 * (1 - time / FLIP_START) : 0;
+        const faceUp = angles[i] > 90;
+        return (
+          <div
+            key={winner.id}
+            className={cn(large ? "w-72 h-96" : "w-36 h-48")}
+            style={{ perspective: 1000, transform: `scale(${dealt}) rotate(${wobble}deg)`, opacity: dealt }}
+          >
+            <div
+              className={cn(
+                "w-full h-full rounded-2xl flex items-center justify-center p-4 shadow-xl",
+                faceUp ? "bg-white text-black" : "bg-gradient-to-br from-amber-400 to-rose-500 text-white"
+              )}
+              style={{ transform: `rotateY(${faceUp ? angles[i] - 180 : angles[i]}deg)` }}
+            >
+              {faceUp ? (
+                <span className={cn("font-black tracking-tight text-center break-words", large ? "text-4xl" : "text-xl")}>
+                  {winner.name}
+                </span>
+              ) : (
+                <Gift size={large ? 96 : 48} className="opacity-80" />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useI18n } from '../../lib/i18n';
+import { fitNameSize } from '../../lib/stage';
+import { cn } from '../../lib/utils';
+import { mix, useTickOnChange, type AnimationProps } from './shared';
+
+const FRAME_MS = 50;
+
+/** Random names flash in place, slowing down with the easing until the winners stay. */
+export default function ClassicAnimation({ playback, time, progress, large, onTick }: AnimationProps) {
+  const { t } = useI18n();
+  const { pool, winners, settings } = playback;
+  const steps = Math.max(1, Math.round(settings.durationMs / FRAME_MS));
+  const step = Math.floor(progress * steps);
+  useTickOnChange(step, onTick);
+
+  const names = time >= 1
+    ? winners
+    : winners.map((_, i) => pool[mix(step, i) % pool.length]);
+
+  return (
+    <div className="relative z-10 w-full @container flex flex-col items-center">
+      <p className={cn("text-white/40 uppercase tracking-[0.3em] font-bold mb-4", large ? "text-2xl" : "text-sm")}>
+        {t('stage.choosing')}
+      </p>
+      {names.length === 1 ? (
+        <h2
+          style={{ fontSize: fitNameSize(names[0].name, large ? 10 : 6) }}
+          className="font-black text-white tracking-tighter leading-none break-words max-w-full"
+        >
+          {names[0].name}
+        </h2>
+      ) : (
+        <div className={cn("flex flex-wrap justify-center gap-3", large ? "max-w-6xl gap-5" : "max-w-2xl")}>
+          {names.map((p, i) => (
+            <span
+              key={i}
+              className={cn(
+                "bg-white/10 text-white font-black rounded-xl tracking-tight max-w-full break-words",
+                large ? "text-4xl md:text-5xl px-6 py-3" : "text-2xl md:text-3xl px-4 py-2"
+              )}
+            >
+              {p.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { clamp01 } from '../../lib/animation';
+import { createSeededRng, shuffle } from '../../lib/rng';
+import { cn } from '../../lib/utils';
+import { useTickOnChange, type AnimationProps } from './shared';
+
+// Non-winners drop out before this point; afterwards the winners gather in the middle.
+const GATHER_AT = 0.8;
+const FADE = 0.05;
+
+/** Every name floats on stage and the cloud thins out until only the winners remain. */
+export default function CloudAnimation({ playback, progress, large, onTick }: AnimationProps) {
+  const { pool, winners } = playback;
+
+  const layout = useMemo(() => {
+    const rng = createSeededRng(playback.id);
+    const winnerIds = new Set(winners.map(w => w.id));
+    const others = shuffle(pool.filter(p => !winnerIds.has(p.id)), rng);
+    const dropAt = new Map(others.map((p, i) => [p.id, 0.05 + ((GATHER_AT - FADE - 0.05) * i) / Math.max(1, others.length)]));
+    return pool.map(p => ({
+      ...p,
+      x: 8 + rng.next() * 84,
+      y: 10 + rng.next() * 80,
+      size: 0.8 + rng.next() * 0.8,
+      dropAt: dropAt.get(p.id) ?? null,
+      slot: winners.findIndex(w => w.id === p.id),
+    }));
+  }, [playback.id]);
+
+  useTickOnChange(layout.filter(item => item.dropAt !== null && progress >= item.dropAt).length, onTick);
+
+  const gather = clamp01((progress - GATHER_AT) / (1 - GATHER_AT));
+  const spacing = Math.min(14, 80 / winners.length);
+
+  return (
+    <div className={cn("relative z-10 w-full", large ? "h-[70vh]" : "h-72")}>
+      {layout.map(item => {
+        let x = item.x;
+        let y = item.y;
+        let scale = item.size;
+        let opacity = 1;
+        if (item.dropAt !== null) {
+          opacity = 1 - clamp01((progress - item.dropAt) / FADE);
+          scale *= 0.5 + opacity * 0.5;
+        } else {
+          x += (50 - x) * gather;
+          y += (50 + (item.slot - (winners.length - 1) / 2) * spacing - y) * gather;
+          scale += (2.5 - scale) * gather;
+        }
+        if (opacity <= 0) return null;
+        return (
+          <span
+            key={item.id}
+            className={cn("absolute whitespace-nowrap font-black text-white", large ? "text-2xl" : "text-sm")}
+            style={{ left: `${x}%`, top: `${y}%`, opacity, transform: `translate(-50%, -50%) scale(${scale})` }}
+          >
+            {item.name}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
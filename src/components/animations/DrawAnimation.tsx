@@ -0,0 +1,56 @@
+import React, { useRef } from 'react';
+import type { DrawAnimationStyle } from '../../types';
+import { EASINGS, type DrawPlayback } from '../../lib/animation';
+import { playFlip, playTick } from '../../lib/sound';
+import ClassicAnimation from './ClassicAnimation';
+import WheelAnimation from './WheelAnimation';
+import SlotAnimation from './SlotAnimation';
+import CardsAnimation from './CardsAnimation';
+import CloudAnimation from './CloudAnimation';
+import { usePlaybackTime, type AnimationProps, type TickKind } from './shared';
+
+/** Every style renders from the same props; add new ones here and in ANIMATION_STYLES. */
+const ANIMATIONS: Record<DrawAnimationStyle, (props: AnimationProps) => React.ReactNode> = {
+  classic: ClassicAnimation,
+  wheel: WheelAnimation,
+  slot: SlotAnimation,
+  cards: CardsAnimation,
+  cloud: CloudAnimation,
+};
+
+// Fast spins would otherwise turn the ticks into a buzz.
+const MIN_TICK_GAP_MS = 45;
+
+interface DrawAnimationProps {
+  playback: DrawPlayback;
+  large?: boolean;
+  /** Silences this copy, e.g. on the presenter while a stage window plays the sound. */
+  muted?: boolean;
+}
+
+export default function DrawAnimation({ playback, large, muted }: DrawAnimationProps) {
+  const time = usePlaybackTime(playback);
+  const lastTick = useRef(0);
+  const ease = EASINGS[playback.settings.easing] ?? EASINGS.easeOut;
+  const Animation = ANIMATIONS[playback.settings.style] ?? ClassicAnimation;
+
+  const onTick = (kind: TickKind = 'tick') => {
+    if (muted || !playback.settings.sound) return;
+    const now = performance.now();
+    if (kind === 'tick' && now - lastTick.current < MIN_TICK_GAP_MS) return;
+    lastTick.current = now;
+    if (kind === 'flip') playFlip();
+    else playTick();
+  };
+
+  return (
+    <Animation
+      playback={playback}
+      time={time}
+      progress={ease(time)}
+      ease={ease}
+      large={large}
+      onTick={onTick}
+    />
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { clamp01 } from '../../lib/animation';
+import { cn } from '../../lib/utils';
+import { mix, useTickOnChange, type AnimationProps } from './shared';
+
+const REEL_LENGTH = 40;
+
+/** One reel per winner; the reels stop left to right, each on its winner. */
+export default function SlotAnimation({ playback, time, ease, large, onTick }: AnimationProps) {
+  const { pool, winners } = playback;
+  const itemHeight = large ? 112 : 64;
+
+  const positions = winners.map((_, i) => {
+    // Reels run the whole time but the first ones stop earlier.
+    const end = 0.55 + (0.45 * (i + 1)) / winners.length;
+    return ease(clamp01(time / end)) * (REEL_LENGTH - 1);
+  });
+  useTickOnChange(positions.reduce((sum, p) => sum + Math.floor(p), 0), onTick);
+
+  return (
+    <div className={cn("relative z-10 flex flex-wrap justify-center", large ? "gap-6 max-w-[90vw]" : "gap-3 max-w-2xl")}>
+      {winners.map((winner, i) => {
+        const strip = Array.from({ length: REEL_LENGTH }, (_, j) =>
+          j === REEL_LENGTH - 1 ? winner : pool[mix(i, j) % pool.length]
+        );
+        return (
+          <div
+            key={winner.id}
+            className={cn(
+              "relative overflow-hidden rounded-2xl bg-white/5 border-4 border-white/20",
+              large ? "w-[26rem]" : "w-56"
+            )}
+            style={{ height: itemHeight * 3 }}
+          >
+            <div style={{ transform: `translateY(${itemHeight - positions[i] * itemHeight}px)` }}>
+              {strip.map((p, j) => (
+                <div
+                  key={j}
+                  className={cn("flex items-center justify-center px-4 font-black text-white truncate", large ? "text-5xl" : "text-2xl")}
+                  style={{ height: itemHeight }}
+                >
+                  <span className="truncate">{p.name}</span>
+                </div>
+              ))}
+            </div>
+            <div className="absolute inset-0 pointer-events-none bg-gradient-to-b from-black via-transparent to-black opacity-80" />
+            <div className="absolute inset-x-0 pointer-events-none border-y-2 border-white/40" style={{ top: itemHeight, height: itemHeight }} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { clamp01 } from '../../lib/animation';
+import { cn } from '../../lib/utils';
+import { useTickOnChange, type AnimationProps } from './shared';
+
+const TURNS = 5;
+const RADIUS = 48;
+// Past this many segments the labels are too small to read.
+const MAX_LABELED = 48;
+
+const point = (deg: number, r: number) => {
+  const rad = ((deg - 90) * Math.PI) / 180;
+  return `${50 + r * Math.cos(rad)} ${50 + r * Math.sin(rad)}`;
+};
+
+/**
+ * A wheel of the eligible names that spins once per winner and stops with the
+ * winner's segment under the pointer.
+ */
+export default function WheelAnimation({ playback, time, ease, large, onTick }: AnimationProps) {
+  const { pool, winners } = playback;
+  const segment = 360 / pool.length;
+
+  // Resting rotation after each spin: at least TURNS full turns further, with
+  // that winner's segment centred at the top.
+  const stops = useMemo(() => {
+    const result = [0];
+    for (const winner of winners) {
+      const center = (pool.findIndex(p => p.id === winner.id) + 0.5) * segment;
+      const previous = result[result.length - 1];
+      const offset = (((-center - previous) % 360) + 360) % 360;
+      result.push(previous + TURNS * 360 + offset);
+    }
+    return result;
+  }, [playback.id]);
+
+  const spinLength = 1 / winners.length;
+  const spin = Math.min(winners.length - 1, Math.floor(time / spinLength));
+  const local = clamp01((time - spin * spinLength) / spinLength);
+  const rotation = stops[spin] + (stops[spin + 1] - stops[spin]) * ease(local);
+  const landed = winners.slice(0, local >= 1 ? spin + 1 : spin);
+
+  useTickOnChange(Math.floor(rotation / segment), onTick);
+
+  return (
+    <div className="relative z-10 flex flex-col items-center gap-6">
+      <div className={cn("relative", large ? "w-[65vh] h-[65vh]" : "w-72 h-72")}>
+        <svg viewBox="0 0 100 100" className="w-full h-full" style={{ transform: `rotate(${rotation}deg)` }}>
+          {pool.map((p, i) => {
+            const start = i * segment;
+            const end = start + segment;
+            const mid = start + segment / 2;
+            const path = pool.length === 1
+              ? `M 50 ${50 - RADIUS} A ${RADIUS} ${RADIUS} 0 1 1 49.99 ${50 - RADIUS} Z`
+              : `M 50 50 L ${point(start, RADIUS)} A ${RADIUS} ${RADIUS} 0 ${segment > 180 ? 1 : 0} 1 ${point(end, RADIUS)} Z`;
+            return (
+              <g key={p.id}>
+                <path d={path} fill={`hsl(${(i * 360) / pool.length} 70% ${i % 2 ? 45 : 55}%)`} stroke="#000" strokeWidth="0.2" />
+                {pool.length <= MAX_LABELED && (
+                  <text
+                    x="50"
+                    y={50 - RADIUS + 3}
+                    transform={`rotate(${mid} 50 50) rotate(90 50 ${50 - RADIUS + 3})`}
+                    fontSize={Math.min(4, 90 / pool.length + 1)}
+                    fill="#fff"
+                    fontWeight="700"
+                    dominantBaseline="middle"
+                  >
+                    {p.name.length > 14 ? `${p.name.slice(0, 13)}…` : p.name}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          <circle cx="50" cy="50" r="4" fill="#000" stroke="#fff" strokeWidth="1" />
+        </svg>
+        <div className="absolute left-1/2 -top-2 -translate-x-1/2 w-0 h-0 border-x-[12px] border-x-transparent border-t-[24px] border-t-white drop-shadow" />
+      </div>
+      {winners.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2 min-h-[2.5rem] max-w-3xl">
+          {landed.map(w => (
+            <span key={w.id} className={cn("bg-white/10 text-white font-black rounded-xl px-3 py-1", large ? "text-3xl" : "text-lg")}>
+              {w.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from 'react';
+import { clamp01, type DrawPlayback } from '../../lib/animation';
+
+export type TickKind = 'tick' | 'flip';
+
+export interface AnimationProps {
+  playback: DrawPlayback;
+  /** Elapsed fraction of the duration, in [0, 1]. */
+  time: number;
+  /** `time` with the configured easing applied. */
+  progress: number;
+  ease: (t: number) => number;
+  /** Projector layout. */
+  large?: boolean;
+  onTick: (kind?: TickKind) => void;
+}
+
+/** Elapsed fraction of a playback, updated every frame until it finishes. */
+export function usePlaybackTime(playback: DrawPlayback): number {
+  const elapsed = () => clamp01((Date.now() - playback.startedAt) / playback.settings.durationMs);
+  const [time, setTime] = useState(elapsed);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      const t = elapsed();
+      setTime(t);
+      if (t < 1) frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [playback.id]);
+
+  return time;
+}
+
+/** Calls `onTick` whenever `value` changes after the first render. */
+export function useTickOnChange(value: number, onTick: (kind?: TickKind) => void, kind: TickKind = 'tick') {
+  const previous = useRef(value);
+  useEffect(() => {
+    if (value !== previous.current) onTick(kind);
+    previous.current = value;
+  }, [value]);
+}
+
+/** Cheap integer hash, to pick cosmetic names without a generator. */
+export function mix(a: number, b: number): number {
+  return (Math.imul(a + 1, 2654435761) ^ Math.imul(b + 1, 40503)) >>> 0;
+}
@@ -0,0 +1,58 @@
+import type { AnimationEasing, DrawAnimationSettings, DrawAnimationStyle, Participant } from '../types';
+import { cryptoRng, shuffle } from './rng';
+
+export interface StageName {
+  id: string;
+  name: string;
+}
+
+/**
+ * One draw as it is played back on stage. `winners` is the final result; the
+ * animation only decides how to arrive at it.
+ */
+export interface DrawPlayback {
+  id: string;
+  /** Names the animation may show, winners included. */
+  pool: StageName[];
+  winners: StageName[];
+  settings: DrawAnimationSettings;
+  startedAt: number;
+}
+
+export const ANIMATION_STYLES: DrawAnimationStyle[] = ['classic', 'wheel', 'slot', 'cards', 'cloud'];
+
+export const EASINGS: Record<AnimationEasing, (t: number) => number> = {
+  linear: t => t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  // Long slow crawl at the end, for suspense.
+  dramatic: t => 1 - Math.pow(1 - t, 5),
+};
+
+export const MIN_DURATION_MS = 1000;
+export const MAX_DURATION_MS = 15000;
+
+// Keeps wheels readable and stage messages small on large events.
+const MAX_POOL_NAMES = 60;
+
+/** Cosmetic sample of the pool for the animation, always containing every winner. */
+export function buildPlayback(
+  id: string,
+  pool: Participant[],
+  winners: Participant[],
+  settings: DrawAnimationSettings
+): DrawPlayback {
+  const winnerIds = new Set(winners.map(w => w.id));
+  const others = shuffle(pool.filter(p => !winnerIds.has(p.id)), cryptoRng)
+    .slice(0, Math.max(0, MAX_POOL_NAMES - winners.length));
+  const names = shuffle([...winners, ...others], cryptoRng).map(p => ({ id: p.id, name: p.name }));
+  return {
+    id,
+    pool: names,
+    winners: winners.map(w => ({ id: w.id, name: w.name })),
+    settings,
+    startedAt: Date.now(),
+  };
+}
+
+export const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
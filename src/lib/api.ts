@@ -0,0 +1,113 @@
+import type { AuditEntry, DrawRecord, DrawStatus, EventMeta, Group, GroupRound, PublishedSeed, StoredEvent } from '../types';
+import { GroupingError } from './grouping';
+import type { MessageKey, TranslateParams } from './messages';
+
+/** What the server sends with an error; a GroupingError also sends its message key. */
+interface ErrorBody {
+  error: string;
+  key?: MessageKey;
+  params?: TranslateParams;
+  constraintId?: string | null;
+}
+
+/** A failed request to the local server, with the message it sent back. */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string, readonly body: ErrorBody | null = null) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function request<T>(path: string, init: RequestInit & { json?: unknown } = {}): Promise<T> {
+  const { json, ...rest } = init;
+  const response = await fetch(`/api${path}`, {
+    ...rest,
+    headers: json === undefined ? rest.headers : { 'Content-Type': 'application/json', ...rest.headers },
+    body: json === undefined ? rest.body : JSON.stringify(json),
+  });
+  if (!response.ok) {
+    const body: ErrorBody | null = await response.json().catch(() => null);
+    throw new ApiError(response.status, body?.error ?? response.statusText, body);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+let serverCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether the app is being served by the local server (`npm run server`).
+ * Under plain `vite` the health check falls through to index.html, which is
+ * not JSON, so the app stays in browser-only mode.
+ */
+export function hasServer(): Promise<boolean> {
+  if (!serverCheck) {
+    serverCheck = fetch('/api/health')
+      .then(res => (res.ok ? res.json() : null))
+      .then(body => body?.ok === true)
+      .catch(() => false);
+  }
+  return serverCheck;
+}
+
+export interface ServerDraw {
+  /** Winners in the order they were drawn. */
+  records: DrawRecord[];
+  audit: AuditEntry;
+  publishedSeed: PublishedSeed | null;
+}
+
+/** Like ServerDraw, for a grouping; `round` is set in rotation mode. */
+export interface ServerGrouping {
+  groups: Group[];
+  round?: GroupRound | null;
+  audit: AuditEntry;
+  publishedSeed: PublishedSeed | null;
+  warnings?: string[];
+}
+
+/** Turns the server's answer to rules that can't be met back into the GroupingError it was. */
+function withGroupingErrors<T>(promise: Promise<T>): Promise<T> {
+  return promise.catch(err => {
+    if (err instanceof ApiError && err.status === 422 && err.body?.key) {
+      throw new GroupingError(err.body.key, err.body.params, err.body.constraintId ?? null);
+    }
+    throw err;
+  });
+}
+
+export const api = {
+  listEvents: () => request<EventMeta[]>('/events'),
+  loadEvent: (id: string) => request<StoredEvent>(`/events/${encodeURIComponent(id)}`),
+  createEvent: (event: StoredEvent) =>
+    request<StoredEvent>('/events', { method: 'POST', json: { id: event.id, name: event.name, data: event.data } }),
+  saveEvent: (event: StoredEvent) =>
+    request<EventMeta>(`/events/${encodeURIComponent(event.id)}`, { method: 'PUT', json: event }),
+  deleteEvent: (id: string) => request<void>(`/events/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+  mergeParticipants: (eventId: string, merges: [string, string][]) =>
+    request<StoredEvent>(`/events/${encodeURIComponent(eventId)}/participants/merge`, {
+      method: 'POST',
+      json: { merges },
+    }),
+  draw: (eventId: string) => request<ServerDraw>(`/events/${encodeURIComponent(eventId)}/draws`, { method: 'POST' }),
+  clearDraws: (eventId: string) =>
+    request<void>(`/events/${encodeURIComponent(eventId)}/draws`, { method: 'DELETE' }),
+  setDrawStatus: (eventId: string, drawId: string, status: DrawStatus) =>
+    request<DrawRecord>(`/events/${encodeURIComponent(eventId)}/draws/${encodeURIComponent(drawId)}`, {
+      method: 'PATCH',
+      json: { status },
+    }),
+  redraw: (eventId: string, drawId: string) =>
+    request<ServerDraw>(`/events/${encodeURIComponent(eventId)}/draws/${encodeURIComponent(drawId)}/redraw`, {
+      method: 'POST',
+    }),
+  group: (eventId: string) =>
+    withGroupingErrors(request<ServerGrouping>(`/events/${encodeURIComponent(eventId)}/groupings`, { method: 'POST' })),
+  reshuffle: (eventId: string) =>
+    withGroupingErrors(request<ServerGrouping>(`/events/${encodeURIComponent(eventId)}/groupings/reshuffle`, { method: 'POST' })),
+  publishSeed: (eventId: string) =>
+    request<PublishedSeed>(`/events/${encodeURIComponent(eventId)}/seed`, { method: 'POST' }),
+  revealSeed: (eventId: string) =>
+    request<{ publishedSeed: PublishedSeed; auditLog: AuditEntry[] }>(`/events/${encodeURIComponent(eventId)}/seed/reveal`, {
+      method: 'POST',
+    }),
+};
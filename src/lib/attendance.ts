@@ -0,0 +1,68 @@
+import type { Participant } from '../types';
+import { normalizeName } from './participants';
+
+export function isCheckedIn(p: Participant): boolean {
+  return p.checkedInAt !== undefined;
+}
+
+/** Everyone when `checkedInOnly` is off, otherwise only those present. */
+export function filterCheckedIn(participants: Participant[], checkedInOnly: boolean | undefined): Participant[] {
+  return checkedInOnly ? participants.filter(isCheckedIn) : participants;
+}
+
+export function setCheckedIn(
+  participants: Participant[],
+  ids: Iterable<string>,
+  checkedIn: boolean,
+  at = Date.now()
+): Participant[] {
+  const targets = new Set(ids);
+  return participants.map(p => {
+    if (!targets.has(p.id) || isCheckedIn(p) === checkedIn) return p;
+    const { checkedInAt, ...rest } = p;
+    return checkedIn ? { ...rest, checkedInAt: at } : rest;
+  });
+}
+
+/** Participants whose name, unique ID, email or department contains every word of `query`. */
+export function searchParticipants(participants: Participant[], query: string): Participant[] {
+  const words = normalizeName(query).split(' ').filter(Boolean);
+  if (words.length === 0) return participants;
+  return participants.filter(p => {
+    const text = normalizeName([p.name, p.externalId, p.email, p.department].filter(Boolean).join(' '));
+    return words.every(word => text.includes(word));
+  });
+}
+
+export interface AttendanceMatch {
+  matched: Participant[];
+  /** Lines that match nobody. */
+  unmatched: string[];
+  /** Lines whose name is shared by several participants; use their unique ID instead. */
+  ambiguous: string[];
+}
+
+/**
+ * Reads a pasted attendance list, one person per line, matching each line
+ * against unique IDs and emails first and then names.
+ */
+export function matchAttendanceList(participants: Participant[], text: string): AttendanceMatch {
+  const byKey = new Map<string, Participant[]>();
+  const add = (key: string, p: Participant) => byKey.set(key, [...(byKey.get(key) ?? []), p]);
+  for (const p of participants) {
+    if (p.externalId?.trim()) add(`id:${p.externalId.trim()}`, p);
+    if (p.email?.trim()) add(`email:${p.email.trim().toLowerCase()}`, p);
+    add(`name:${normalizeName(p.name)}`, p);
+  }
+
+  const matched = new Map<string, Participant>();
+  const unmatched: string[] = [];
+  const ambiguous: string[] = [];
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const hits = byKey.get(`id:${line}`) ?? byKey.get(`email:${line.toLowerCase()}`) ?? byKey.get(`name:${normalizeName(line)}`);
+    if (!hits) unmatched.push(line);
+    else if (hits.length > 1) ambiguous.push(line);
+    else matched.set(hits[0].id, hits[0]);
+  }
+  return { matched: [...matched.values()], unmatched, ambiguous };
+}
@@ -0,0 +1,89 @@
+import type { AuditEntry, DrawAuditEntry, GroupAuditEntry, GroupingSettings, Participant, PublishedSeed } from '../types';
+import { pickWinners } from './draw';
+import { createGroups } from './grouping';
+import { createSeededRng, generateSeed, sha256Hex } from './rng';
+import { createId } from './utils';
+
+export function hashInput(input: Participant[]): Promise<string> {
+  return sha256Hex(JSON.stringify(input));
+}
+
+export function runDraw(input: Participant[], count: number, seed: string): Participant[] {
+  return pickWinners(input, count, createSeededRng(seed));
+}
+
+export function runGrouping(input: Participant[], settings: GroupingSettings, seed: string): Participant[][] {
+  return createGroups(input, settings, createSeededRng(seed));
+}
+
+export async function publishSeed(): Promise<PublishedSeed> {
+  const seed = generateSeed();
+  return { seed, commitment: await sha256Hex(seed), revealed: false, uses: 0 };
+}
+
+/**
+ * Seed for the next draw or grouping (`offset` skips ahead when several are
+ * taken at once). While a published seed is active each operation uses
+ * `<seed>:<n>`; otherwise a fresh random seed is generated.
+ */
+export function nextSeed(published: PublishedSeed | null, offset = 0): { seed: string; commitment: string | null } {
+  if (published && !published.revealed) {
+    return { seed: `${published.seed}:${published.uses + offset}`, commitment: published.commitment };
+  }
+  return { seed: generateSeed(), commitment: null };
+}
+
+/** `published` without its secret, until it is revealed. */
+export function withholdSeed(published: PublishedSeed | null): PublishedSeed | null {
+  return published && !published.revealed ? { ...published, seed: null } : published;
+}
+
+/** Whether `entry` was derived from `published` while that seed is still a secret. */
+export function isSeedHidden(entry: AuditEntry, published: PublishedSeed | null): boolean {
+  return !!published && !published.revealed && entry.commitment === published.commitment;
+}
+
+/** The entries with each seed that would give away an unrevealed published seed set to null. */
+export function hideUnrevealedSeeds(entries: AuditEntry[], published: PublishedSeed | null): AuditEntry[] {
+  return entries.map(entry => (isSeedHidden(entry, published) ? { ...entry, seed: null } : entry));
+}
+
+type PendingAuditEntry =
+  | Omit<DrawAuditEntry, 'id' | 'timestamp' | 'inputHash'>
+  | Omit<GroupAuditEntry, 'id' | 'timestamp' | 'inputHash'>;
+
+export async function createAuditEntry(entry: PendingAuditEntry): Promise<AuditEntry> {
+  return {
+    ...entry,
+    id: createId(),
+    timestamp: Date.now(),
+    inputHash: await hashInput(entry.input),
+  } as AuditEntry;
+}
+
+export interface AuditVerification {
+  inputOk: boolean;
+  resultOk: boolean;
+  /** Null when the entry was not derived from a published seed. */
+  commitmentOk: boolean | null;
+}
+
+/** Replays an entry from its seed and input and compares with what was recorded; not while the seed is withheld. */
+export async function verifyAuditEntry(entry: AuditEntry): Promise<AuditVerification> {
+  const { seed } = entry;
+  if (seed === null) throw new Error('The seed of this entry is withheld until the published seed is revealed.');
+  const inputOk = (await hashInput(entry.input)) === entry.inputHash;
+
+  const replayed = entry.kind === 'draw'
+    ? runDraw(entry.input, entry.params.count, seed).map(p => p.id)
+    : runGrouping(entry.input, entry.params, seed).map(g => g.map(p => p.id));
+  const resultOk = JSON.stringify(replayed) === JSON.stringify(entry.result);
+
+  let commitmentOk: boolean | null = null;
+  if (entry.commitment) {
+    const base = seed.slice(0, seed.lastIndexOf(':'));
+    commitmentOk = (await sha256Hex(base)) === entry.commitment;
+  }
+
+  return { inputOk, resultOk, commitmentOk };
+}
@@ -0,0 +1,78 @@
+import type { ConstraintKind, GroupingConstraint, Participant } from '../types';
+import type { ImportIssue } from './csvImport';
+import { message, type Message } from './messages';
+import { createId } from './utils';
+
+const KIND_PATTERNS: [ConstraintKind, RegExp][] = [
+  ['together', /^(together|keep[ -]?together|must[ -]?together|same|同组|一起)$/i],
+  ['apart', /^(apart|keep[ -]?apart|must[ -]?apart|separate|分开|不同组)$/i],
+];
+
+const HEADER = /^(type|kind|rule|constraint|类型|规则)$/i;
+
+export function parseConstraintKind(value: string): ConstraintKind | null {
+  const text = value.trim();
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+/**
+ * Resolves names or external IDs to participant IDs. External IDs win over
+ * names, and a name shared by several people is reported as ambiguous.
+ */
+export function resolveMembers(tokens: string[], participants: Participant[]): { ids: string[]; problems: Message[] } {
+  const ids: string[] = [];
+  const problems: Message[] = [];
+  for (const token of tokens.map(t => t.trim()).filter(Boolean)) {
+    const byExternalId = participants.find(p => p.externalId === token);
+    if (byExternalId) {
+      ids.push(byExternalId.id);
+      continue;
+    }
+    const byName = participants.filter(p => p.name === token);
+    if (byName.length === 1) ids.push(byName[0].id);
+    else if (byName.length === 0) problems.push(message('constraints.unknownParticipant', { token }));
+    else problems.push(message('constraints.ambiguous', { token, count: byName.length }));
+  }
+  return { ids: [...new Set(ids)], problems };
+}
+
+/** Splits a single members cell such as "Alice; Bob" into names. */
+export function splitMembers(text: string): string[] {
+  return text.split(/[,;、/\n]/).map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * Reads rules from CSV rows: the first cell is the kind (together/apart),
+ * the remaining cells are member names or IDs.
+ */
+export function parseConstraintRows(
+  rows: string[][],
+  participants: Participant[]
+): { constraints: GroupingConstraint[]; issues: ImportIssue[] } {
+  const constraints: GroupingConstraint[] = [];
+  const issues: ImportIssue[] = [];
+
+  rows.forEach((row, i) => {
+    const [kindCell = '', ...rest] = row;
+    if (i === 0 && HEADER.test(kindCell.trim())) return;
+
+    const kind = parseConstraintKind(kindCell);
+    if (!kind) {
+      issues.push({ row: i + 1, reason: message('constraints.unknownKind', { kind: kindCell }) });
+      return;
+    }
+    const tokens = rest.length === 1 ? splitMembers(rest[0]) : rest;
+    const { ids, problems } = resolveMembers(tokens, participants);
+    if (problems.length > 0) {
+      problems.forEach(reason => issues.push({ row: i + 1, reason }));
+      return;
+    }
+    if (ids.length < 2) {
+      issues.push({ row: i + 1, reason: message('constraints.needTwo') });
+      return;
+    }
+    constraints.push({ id: createId(), kind, memberIds: ids });
+  });
+
+  return { constraints, issues };
+}
@@ -0,0 +1,155 @@
+/**
+ * Headless entry point: everything needed to parse participants, check
+ * eligibility, draw, group and export without React or a browser. The app,
+ * the server and the `lucky-draw` CLI all go through these functions.
+ */
+import type { DrawSettings, Group, GroupingSettings, Participant } from '../types';
+import { runDraw, runGrouping } from './audit';
+import { filterCheckedIn } from './attendance';
+import { buildParticipants, detectHeader, guessMapping, parseTable } from './csvImport';
+import { getDrawPool, toDrawRecords, type DrawPlan } from './draw';
+import type { PastWinner } from './eligibility';
+import { planGroups } from './grouping';
+import { translate } from './messages';
+import { listAttributeKeys } from './participants';
+import { dropDepartedLeader } from './roles';
+import { createId } from './utils';
+
+export * from './attendance';
+export * from './audit';
+export * from './csvImport';
+export * from './draw';
+export * from './duplicates';
+export * from './eligibility';
+export * from './events';
+export * from './export';
+export * from './grouping';
+export * from './participants';
+export * from './roles';
+export * from './rotation';
+export { createSeededRng, generateSeed, sha256Hex } from './rng';
+
+/**
+ * Reads a CSV/TSV file, guessing the header row and column roles like the
+ * import wizard. Skipped rows come with their reason in English.
+ */
+export function readParticipantsCsv(input: ArrayBuffer | string): { participants: Participant[]; issues: { row: number; reason: string }[] } {
+  const buffer = typeof input === 'string' ? new TextEncoder().encode(input).buffer as ArrayBuffer : input;
+  const { rows } = parseTable(buffer, 'auto', 'auto');
+  const hasHeader = detectHeader(rows);
+  const { participants, issues } = buildParticipants(rows, guessMapping(rows, hasHeader), hasHeader);
+  return { participants, issues: issues.map(({ row, reason }) => ({ row, reason: translate('en', reason.key, reason.params) })) };
+}
+
+/** One participant per non-empty line. */
+export function readNameList(text: string): Participant[] {
+  return text.split('\n').map(n => n.trim()).filter(n => n !== '').map(name => ({ id: createId(), name }));
+}
+
+/**
+ * Settings as the grouping algorithm should see them: attributes nobody has
+ * are dropped from `balanceBy`, and `pastRounds` is only kept in rotation mode.
+ */
+export function resolveGroupingSettings(
+  participants: Participant[],
+  settings: GroupingSettings,
+  pastRounds: string[][][] = []
+): GroupingSettings {
+  const attributeKeys = listAttributeKeys(participants);
+  return {
+    ...settings,
+    balanceBy: (settings.balanceBy ?? []).filter(key => attributeKeys.includes(key)),
+    pastRounds: settings.avoidRepeats ? pastRounds : undefined,
+  };
+}
+
+export interface GroupingRun {
+  /** Who was grouped, after the checked-in filter. */
+  input: Participant[];
+  settings: GroupingSettings;
+  groups: Participant[][];
+  /** From planGroups in English, e.g. fewer groups for lack of leaders. */
+  warnings: string[];
+}
+
+/** Groups `participants` from `seed`. Throws a GroupingError when the settings can't be met. */
+export function groupParticipants(
+  participants: Participant[],
+  settings: GroupingSettings,
+  seed: string,
+  pastRounds: string[][][] = []
+): GroupingRun {
+  const input = filterCheckedIn(participants, settings.checkedInOnly);
+  const resolved = resolveGroupingSettings(participants, settings, pastRounds);
+  const groups = runGrouping(input, resolved, seed);
+  const warnings = planGroups(input, resolved).warnings.map(warning => translate('en', warning.key, warning.params));
+  return { input, settings: resolved, groups, warnings };
+}
+
+/**
+ * Names grouped members "Group 1", "Group 2"… unless `nameGroup` (given the
+ * 1-based number) says otherwise; with `leaders`, each group's first member leads it.
+ */
+export function toGroups(
+  lists: Participant[][],
+  settings: Pick<GroupingSettings, 'leaders'>,
+  nameGroup = (n: number) => `Group ${n}`
+): Group[] {
+  return lists.map((members, i) => ({
+    id: createId(),
+    name: nameGroup(i + 1),
+    members,
+    ...(settings.leaders && members.length > 0 && { leaderId: members[0].id }),
+  }));
+}
+
+/**
+ * Keeps locked groups and members where they are and re-randomizes everyone
+ * else in `groups` from `seed` into the remaining seats, keeping each group's
+ * size. With leaders on, a group's seated leader comes first; otherwise its
+ * leader stays if they did.
+ */
+export function reshuffleGroups(
+  groups: Group[],
+  participants: Participant[],
+  settings: GroupingSettings,
+  seed: string,
+  pastRounds: string[][][] = []
+) {
+  const lockedLayout = {
+    capacities: groups.map(g => g.members.length),
+    fixed: groups.map(g => g.members
+      .filter(p => g.locked || (g.lockedMemberIds ?? []).includes(p.id))
+      .map(p => p.id)),
+  };
+  const input = groups.flatMap(g => g.members);
+  const resolved = resolveGroupingSettings(participants, { ...settings, lockedLayout }, pastRounds);
+  const result = runGrouping(input, resolved, seed);
+  return {
+    input,
+    settings: resolved,
+    groups: groups.map((g, i) => dropDepartedLeader({
+      ...g,
+      members: result[i],
+      leaderId: resolved.leaders && result[i][0]?.role === 'leader' ? result[i][0].id : g.leaderId,
+    })),
+  };
+}
+
+/** Picks a planned round's winners from `seed`, with their history records. */
+export function executeDraw(plan: DrawPlan, seed: string) {
+  const winners = runDraw(plan.pool, plan.count, seed);
+  return { winners, records: toDrawRecords(winners, plan.prize) };
+}
+
+/** Draws `count` winners from everyone `settings` allow, outside of any event. */
+export function drawWinners(
+  participants: Participant[],
+  count: number,
+  settings: DrawSettings,
+  seed: string,
+  pastWinners: PastWinner[] = []
+) {
+  const pool = getDrawPool(participants, [], settings, pastWinners);
+  return { pool, ...executeDraw({ pool, prize: null, count: Math.min(count, pool.length) }, seed) };
+}
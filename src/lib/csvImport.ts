@@ -0,0 +1,187 @@
+import Papa from 'papaparse';
+import type { Participant } from '../types';
+import { parseWeight } from './draw';
+import { message, type Message } from './messages';
+import { parseGroupRole } from './roles';
+import { createId } from './utils';
+
+export type CsvEncoding = 'auto' | 'utf-8' | 'gb18030' | 'big5' | 'utf-16le' | 'utf-16be';
+export type CsvDelimiter = 'auto' | ',' | ';' | '\t';
+
+export type ColumnRole = 'name' | 'externalId' | 'email' | 'department' | 'weight' | 'role' | 'attribute' | 'ignore';
+
+/** Roles that may be assigned to at most one column. */
+export const UNIQUE_ROLES: ColumnRole[] = ['name', 'externalId', 'email', 'department', 'weight', 'role'];
+
+const ROLE_PATTERNS: [ColumnRole, RegExp][] = [
+  ['name', /^(name|full ?name|participant|姓名|名字|名称)$/i],
+  ['externalId', /^(id|uid|employee ?(id|no\.?|number)|emp ?id|staff ?id|工号|编号|学号|员工编号)$/i],
+  ['email', /^(e-?mail|e-?mail address|邮箱|电子邮箱|电子邮件)$/i],
+  ['department', /^(dept\.?|department|team|部门)$/i],
+  ['weight', /^(weight|tickets?|权重|票数)$/i],
+  ['role', /^(role|group role|角色|职责|分工)$/i],
+];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface ImportIssue {
+  /** 1-based row number in the file. */
+  row: number;
+  reason: Message;
+}
+
+export interface ParsedTable {
+  rows: string[][];
+  encoding: Exclude<CsvEncoding, 'auto'>;
+  delimiter: Exclude<CsvDelimiter, 'auto'>;
+}
+
+/**
+ * Decodes raw file bytes. In auto mode a BOM wins; otherwise strict UTF-8 is
+ * tried first and GB18030 (a superset of GBK) is the fallback.
+ */
+export function decodeBytes(buffer: ArrayBuffer, encoding: CsvEncoding): { text: string; encoding: Exclude<CsvEncoding, 'auto'> } {
+  const bytes = new Uint8Array(buffer);
+  if (encoding === 'auto') {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) encoding = 'utf-8';
+    else if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+    else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+    else {
+      try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+      } catch {
+        encoding = 'gb18030';
+      }
+    }
+  }
+  // TextDecoder strips a matching BOM by default.
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+}
+
+export function parseTable(buffer: ArrayBuffer, encoding: CsvEncoding, delimiter: CsvDelimiter): ParsedTable {
+  const decoded = decodeBytes(buffer, encoding);
+  const result = Papa.parse<string[]>(decoded.text, {
+    delimiter: delimiter === 'auto' ? '' : delimiter,
+    delimitersToGuess: [',', ';', '\t'],
+    skipEmptyLines: 'greedy',
+  });
+  return {
+    rows: result.data.map(row => row.map(cell => String(cell ?? '').trim())),
+    encoding: decoded.encoding,
+    delimiter: (result.meta.delimiter as ParsedTable['delimiter']) || ',',
+  };
+}
+
+export function guessRole(header: string): ColumnRole | null {
+  const text = header.trim();
+  return ROLE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+const isNumeric = (value: string) => value !== '' && Number.isFinite(Number(value));
+
+/**
+ * A first row is treated as a header when it contains a known column name,
+ * or when it is text above a column that is otherwise numeric.
+ */
+export function detectHeader(rows: string[][]): boolean {
+  const first = rows[0];
+  if (!first || rows.length < 2) return !!first && first.some(cell => guessRole(cell));
+  if (first.some(cell => guessRole(cell))) return true;
+  if (first.some(cell => cell === '') || new Set(first).size !== first.length) return false;
+  const sample = rows.slice(1, 11);
+  return first.some((cell, i) => !isNumeric(cell) && sample.every(row => isNumeric(row[i] ?? '')));
+}
+
+export function getColumnLabels(rows: string[][], hasHeader: boolean): string[] {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return Array.from({ length: width }, (_, i) => (hasHeader && rows[0][i]) || `Column ${i + 1}`);
+}
+
+export function guessMapping(rows: string[][], hasHeader: boolean): ColumnRole[] {
+  const labels = getColumnLabels(rows, hasHeader);
+  const used = new Set<ColumnRole>();
+  const mapping = labels.map(label => {
+    const role = hasHeader ? guessRole(label) : null;
+    if (role && !used.has(role)) {
+      used.add(role);
+      return role;
+    }
+    return 'attribute' as ColumnRole;
+  });
+  if (!used.has('name') && mapping.length > 0) {
+    const first = mapping.findIndex(role => role === 'attribute');
+    if (first !== -1) mapping[first] = 'name';
+  }
+  return mapping;
+}
+
+/** Converts mapped rows into participants, collecting a reason for every skipped row. */
+export function buildParticipants(
+  rows: string[][],
+  mapping: ColumnRole[],
+  hasHeader: boolean
+): { participants: Participant[]; issues: ImportIssue[] } {
+  const labels = getColumnLabels(rows, hasHeader);
+  const col = (role: ColumnRole) => mapping.indexOf(role);
+  const nameCol = col('name');
+  const idCol = col('externalId');
+  const emailCol = col('email');
+  const deptCol = col('department');
+  const weightCol = col('weight');
+  const roleCol = col('role');
+
+  const participants: Participant[] = [];
+  const issues: ImportIssue[] = [];
+  const seenIds = new Set<string>();
+  const start = hasHeader ? 1 : 0;
+
+  rows.slice(start).forEach((row, i) => {
+    const rowNumber = start + i + 1;
+    const cell = (index: number) => (index === -1 ? '' : row[index] ?? '');
+
+    const name = cell(nameCol);
+    if (name === '') {
+      issues.push({ row: rowNumber, reason: message('import.issue.missingName') });
+      return;
+    }
+
+    const externalId = cell(idCol);
+    if (externalId && seenIds.has(externalId)) {
+      issues.push({ row: rowNumber, reason: message('import.issue.duplicateId', { id: externalId }) });
+      return;
+    }
+
+    const email = cell(emailCol);
+    if (email && !EMAIL.test(email)) {
+      issues.push({ row: rowNumber, reason: message('import.issue.invalidEmail', { email }) });
+      return;
+    }
+
+    const rawWeight = cell(weightCol);
+    const weight = parseWeight(rawWeight);
+    if (rawWeight !== '' && weight === undefined) {
+      issues.push({ row: rowNumber, reason: message('import.issue.invalidWeight', { weight: rawWeight }) });
+      return;
+    }
+
+    const groupRole = parseGroupRole(cell(roleCol));
+    const attributes: Record<string, string> = {};
+    mapping.forEach((role, index) => {
+      if (role === 'attribute' && cell(index) !== '') attributes[labels[index]] = cell(index);
+    });
+
+    if (externalId) seenIds.add(externalId);
+    participants.push({
+      id: createId(),
+      name,
+      ...(externalId && { externalId }),
+      ...(email && { email }),
+      ...(cell(deptCol) && { department: cell(deptCol) }),
+      ...(weight !== undefined && { weight }),
+      ...(groupRole && { role: groupRole }),
+      ...(Object.keys(attributes).length > 0 && { attributes }),
+    });
+  });
+
+  return { participants, issues };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { Participant } from '../types';
+import { pickWinners } from './draw';
+import { createSeededRng } from './rng';
+
+const pool: Participant[] = Array.from({ length: 10 }, (_, i) => ({ id: `p${i}`, name: `Person ${i}` }));
+const ids = (winners: Participant[]) => winners.map(p => p.id);
+
+describe('pickWinners', () => {
+  it('picks the requested number of different people', () => {
+    const winners = pickWinners(pool, 4, createSeededRng('count'));
+    expect(winners).toHaveLength(4);
+    expect(new Set(ids(winners)).size).toBe(4);
+  });
+
+  it('stops when the pool runs out', () => {
+    expect(pickWinners(pool.slice(0, 3), 5, createSeededRng('short'))).toHaveLength(3);
+    expect(pickWinners([], 2, createSeededRng('empty'))).toEqual([]);
+  });
+
+  it('gives the same winners for the same seed', () => {
+    expect(ids(pickWinners(pool, 3, createSeededRng('same')))).toEqual(ids(pickWinners(pool, 3, createSeededRng('same'))));
+  });
+
+  it('never picks anyone without tickets', () => {
+    const weighted = pool.map((p, i) => ({ ...p, weight: i < 5 ? 0 : 1 }));
+    for (let i = 0; i < 20; i++) {
+      const winners = pickWinners(weighted, 10, createSeededRng(`zero-${i}`));
+      expect(ids(winners).sort()).toEqual(['p5', 'p6', 'p7', 'p8', 'p9']);
+    }
+  });
+
+  it('picks people in proportion to their tickets', () => {
+    const weighted = [{ id: 'many', name: 'Many', weight: 3 }, { id: 'one', name: 'One', weight: 1 }];
+    const rng = createSeededRng('odds');
+    let many = 0;
+    for (let i = 0; i < 4000; i++) {
+      if (pickWinners(weighted, 1, rng)[0].id === 'many') many++;
+    }
+    expect(many / 4000).toBeCloseTo(0.75, 1);
+  });
+});
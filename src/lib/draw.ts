@@ -0,0 +1,237 @@
+import type { DrawRecord, DrawSettings, DrawStatus, EventData, Participant, Prize } from '../types';
+import { getRuleViolations, type PastWinner } from './eligibility';
+import { english, message, type Message, type Translator } from './messages';
+import { getIdentityKey } from './participants';
+import { cryptoRng, type Rng } from './rng';
+import { createId } from './utils';
+
+export function getWeight(p: Participant): number {
+  const w = p.weight ?? 1;
+  return Number.isFinite(w) && w > 0 ? w : 0;
+}
+
+/** Parses a weight/tickets cell. Returns undefined for blank or invalid input. */
+export function parseWeight(value: unknown): number | undefined {
+  const text = String(value ?? '').trim();
+  if (text === '') return undefined;
+  const n = Number(text);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Picks `count` distinct participants with probability proportional to weight.
+ * Each winner's weight leaves the pool before the next pick.
+ */
+export function pickWinners(pool: Participant[], count: number, rng: Rng = cryptoRng): Participant[] {
+  const items = pool.filter(p => getWeight(p) > 0);
+  let total = items.reduce((sum, p) => sum + getWeight(p), 0);
+  const winners: Participant[] = [];
+  while (winners.length < count && items.length > 0) {
+    let r = rng.next() * total;
+    let index = items.length - 1;
+    for (let i = 0; i < items.length; i++) {
+      r -= getWeight(items[i]);
+      if (r < 0) {
+        index = i;
+        break;
+      }
+    }
+    const [winner] = items.splice(index, 1);
+    total -= getWeight(winner);
+    winners.push(winner);
+  }
+  return winners;
+}
+
+/** Chance of each participant being picked by a single draw from `pool`. */
+export function getOdds(pool: Participant[]): Map<string, number> {
+  const total = pool.reduce((sum, p) => sum + getWeight(p), 0);
+  return new Map(pool.map(p => [p.id, total > 0 ? getWeight(p) / total : 0]));
+}
+
+export function sortPrizes(prizes: Prize[]): Prize[] {
+  return [...prizes].sort((a, b) => a.order - b.order);
+}
+
+/** Whether a record still holds its prize (absent winners give theirs up). */
+export function holdsPrize(record: DrawRecord): boolean {
+  return record.status !== 'forfeited' && record.status !== 'redrawn';
+}
+
+export function countWinnersByPrize(history: DrawRecord[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const record of history) {
+    if (record.prizeId && holdsPrize(record)) counts[record.prizeId] = (counts[record.prizeId] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** The first tier (by order) that still has winners left to draw. */
+export function getCurrentPrize(prizes: Prize[], history: DrawRecord[]): Prize | null {
+  const counts = countWinnersByPrize(history);
+  return sortPrizes(prizes).find(p => (counts[p.id] ?? 0) < p.quantity) ?? null;
+}
+
+/** People who still hold a prize from `events`, keyed by identity across events. */
+export function collectPastWinners(events: { name: string; data: Pick<EventData, 'drawHistory'> }[]): PastWinner[] {
+  return events.flatMap(event =>
+    event.data.drawHistory.filter(holdsPrize).map(record => ({
+      key: getIdentityKey(record.participant),
+      name: record.participant.name,
+      eventName: event.name,
+    }))
+  );
+}
+
+export interface Exclusion {
+  participant: Participant;
+  reasons: Message[];
+}
+
+/**
+ * Splits participants into who can still win and who can't, with the
+ * reasons: no tickets, already drawn (unless repeats are allowed; absent
+ * winners stay drawn), or the eligibility rules.
+ */
+export function getEligibility(
+  participants: Participant[],
+  history: DrawRecord[],
+  settings: DrawSettings,
+  pastWinners: PastWinner[] = []
+): { eligible: Participant[]; excluded: Exclusion[] } {
+  const drawnIds = new Set(settings.allowRepeat ? [] : history.map(h => h.participant.id));
+  const pastByKey = new Map(pastWinners.map(w => [w.key, w]));
+  const eligible: Participant[] = [];
+  const excluded: Exclusion[] = [];
+  for (const participant of participants) {
+    const reasons: Message[] = [];
+    if (getWeight(participant) <= 0) reasons.push(message('eligibility.reason.noTickets'));
+    if (drawnIds.has(participant.id)) reasons.push(message('eligibility.reason.alreadyDrawn'));
+    reasons.push(...getRuleViolations(participant, settings.eligibility, pastByKey));
+    if (reasons.length > 0) excluded.push({ participant, reasons });
+    else eligible.push(participant);
+  }
+  return { eligible, excluded };
+}
+
+/** Participants who can still win. */
+export function getDrawPool(
+  participants: Participant[],
+  history: DrawRecord[],
+  settings: DrawSettings,
+  pastWinners: PastWinner[] = []
+): Participant[] {
+  return getEligibility(participants, history, settings, pastWinners).eligible;
+}
+
+export interface DrawPlan {
+  pool: Participant[];
+  prize: Pick<Prize, 'id' | 'name'> | null;
+  /** Winners to pick; 0 when there is nothing left to draw. */
+  count: number;
+}
+
+export interface DrawRound extends DrawPlan {
+  prize: Prize | null;
+}
+
+/**
+ * What the next draw would do. In prize mode a round pulls every remaining
+ * winner of the current tier at once; otherwise it picks a single winner.
+ */
+export function planDrawRound(
+  participants: Participant[],
+  history: DrawRecord[],
+  settings: DrawSettings,
+  prizes: Prize[],
+  pastWinners: PastWinner[] = []
+): DrawRound {
+  const pool = getDrawPool(participants, history, settings, pastWinners);
+  if (settings.mode === 'prizes') {
+    const prize = getCurrentPrize(prizes, history);
+    const remaining = prize ? prize.quantity - (countWinnersByPrize(history)[prize.id] ?? 0) : 0;
+    return { pool, prize, count: Math.min(remaining, pool.length) };
+  }
+  return { pool, prize: null, count: Math.min(1, pool.length) };
+}
+
+/** History records for one round's winners, in the order they were drawn. */
+export function toDrawRecords(
+  winners: Participant[],
+  prize: Pick<Prize, 'id' | 'name'> | null,
+  timestamp = Date.now()
+): DrawRecord[] {
+  return winners.map(participant => ({
+    id: createId(),
+    prizeId: prize?.id ?? null,
+    prizeName: prize?.name ?? null,
+    participant,
+    timestamp,
+    status: 'pending',
+  }));
+}
+
+/** Records linked by redraws, from the first winner to the latest replacement. */
+export function getDrawChain(history: DrawRecord[], id: string): DrawRecord[] {
+  const byId = new Map(history.map(r => [r.id, r]));
+  let first = byId.get(id);
+  while (first?.replaces && byId.has(first.replaces)) first = byId.get(first.replaces);
+  const chain: DrawRecord[] = [];
+  for (let r = first; r; r = r.replacedBy ? byId.get(r.replacedBy) : undefined) chain.push(r);
+  return chain;
+}
+
+/** Every chain in the history, newest first by when the chain started. */
+export function listDrawChains(history: DrawRecord[]): DrawRecord[][] {
+  return history.filter(r => !r.replaces || !history.some(h => h.id === r.replaces)).map(r => getDrawChain(history, r.id));
+}
+
+/** E.g. "Alice forfeited → replaced by Bob". */
+export function describeDrawChain(chain: DrawRecord[], t: Translator = english): string {
+  return chain.map((r, i) => {
+    const name = i === 0 ? r.participant.name : t('draw.chain.replacedBy', { name: r.participant.name });
+    return r.status === 'forfeited' || r.status === 'redrawn' ? t('draw.chain.forfeited', { name }) : name;
+  }).join(' → ');
+}
+
+/**
+ * What a redraw of an absent winner would do: one replacement for the same
+ * prize, never anyone from the record's chain (even when repeats are allowed).
+ * Only pending records can be redrawn; null otherwise.
+ */
+export function planRedraw(
+  participants: Participant[],
+  history: DrawRecord[],
+  settings: DrawSettings,
+  recordId: string,
+  pastWinners: PastWinner[] = []
+): DrawPlan | null {
+  const record = history.find(r => r.id === recordId);
+  if (record?.status !== 'pending') return null;
+  const chainIds = new Set(getDrawChain(history, recordId).map(r => r.participant.id));
+  const pool = getDrawPool(participants, history, settings, pastWinners).filter(p => !chainIds.has(p.id));
+  const prize = record.prizeId ? { id: record.prizeId, name: record.prizeName ?? '' } : null;
+  return { pool, prize, count: Math.min(1, pool.length) };
+}
+
+/** Marks `recordId` as redrawn and adds its replacement at the top of the history. */
+export function applyRedraw(history: DrawRecord[], recordId: string, replacement: DrawRecord): DrawRecord[] {
+  return [
+    { ...replacement, replaces: recordId },
+    ...history.map(r => (r.id === recordId ? { ...r, status: 'redrawn' as const, replacedBy: replacement.id } : r)),
+  ];
+}
+
+/**
+ * Status changes a user can make by hand: a pending winner is confirmed or
+ * forfeits, and a confirmation can be taken back. Forfeits are final because
+ * the prize may already have gone to someone else.
+ */
+export function canSetDrawStatus(record: DrawRecord, status: DrawStatus): boolean {
+  if (record.status === 'pending') return status === 'confirmed' || status === 'forfeited';
+  return record.status === 'confirmed' && status === 'pending';
+}
+
+export function setDrawStatus(history: DrawRecord[], recordId: string, status: DrawStatus): DrawRecord[] {
+  return history.map(r => (r.id === recordId ? { ...r, status } : r));
+}
@@ -0,0 +1,247 @@
+import type { EventData, Group, Participant } from '../types';
+import { normalizeName } from './participants';
+
+/** Names at least this similar (0–1) are flagged as possible duplicates. */
+export const SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Why two entries look like the same person. `id`, `email` and `name` are
+ * exact matches; `similar` names only look alike and need a human to decide.
+ */
+export type DuplicateReason = 'id' | 'email' | 'name' | 'similar';
+
+export interface DuplicatePair {
+  a: Participant;
+  b: Participant;
+  reason: DuplicateReason;
+  /** Name similarity, 1 for exact matches. */
+  score: number;
+}
+
+/** Name with its words sorted and spaces dropped, so "Smith John" matches "John Smith". */
+function fuzzyKey(name: string): string {
+  return normalizeName(name).split(' ').sort().join('');
+}
+
+// Duplicate scans compare every pair, so each entry's name is only normalized once.
+const nameKeys = new WeakMap<Participant, { exact: string; fuzzy: string }>();
+
+function getNameKeys(p: Participant) {
+  let keys = nameKeys.get(p);
+  if (!keys) {
+    keys = { exact: normalizeName(p.name), fuzzy: fuzzyKey(p.name) };
+    nameKeys.set(p, keys);
+  }
+  return keys;
+}
+
+/**
+ * Levenshtein distance, or `max + 1` once it is known to exceed `max`. Only
+ * the diagonal band that can stay within `max` is computed.
+ */
+function boundedDistance(a: string, b: string, max: number): number {
+  const outside = max + 1;
+  if (Math.abs(a.length - b.length) > max) return outside;
+  let prev = new Int32Array(b.length + 1);
+  let row = new Int32Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = Math.min(j, outside);
+  for (let i = 1; i <= a.length; i++) {
+    const from = Math.max(1, i - max);
+    const to = Math.min(b.length, i + max);
+    row[0] = Math.min(i, outside);
+    if (from > 1) row[from - 1] = outside;
+    let best = from === 1 ? row[0] : outside;
+    for (let j = from; j <= to; j++) {
+      const cost = prev[j - 1] + (a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1);
+      const value = Math.min(j < i + max ? prev[j] + 1 : outside, row[j - 1] + 1, cost);
+      row[j] = value;
+      if (value < best) best = value;
+    }
+    if (to < b.length) row[to + 1] = outside;
+    if (best > max) return outside;
+    [prev, row] = [row, prev];
+  }
+  return Math.min(prev[b.length], outside);
+}
+
+function similarity(x: string, y: string): number {
+  const length = Math.max(x.length, y.length);
+  if (length === 0) return 1;
+  const max = Math.floor(length * (1 - SIMILARITY_THRESHOLD));
+  return 1 - Math.min(boundedDistance(x, y, max), length) / length;
+}
+
+/**
+ * How alike two names are, from 0 to 1, ignoring case, width, spacing and
+ * word order. Anything below the threshold is reported as roughly 0.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return similarity(fuzzyKey(a), fuzzyKey(b));
+}
+
+function markedDistinct(a: Participant, b: Participant): boolean {
+  return (a.distinctFrom ?? []).includes(b.id) || (b.distinctFrom ?? []).includes(a.id);
+}
+
+/**
+ * Whether two entries are (or may be) the same person. A unique ID decides
+ * when both have one, then email; only then are names compared, so two
+ * people who share a name but not an ID are never flagged.
+ */
+export function compareIdentity(a: Participant, b: Participant): Omit<DuplicatePair, 'a' | 'b'> | null {
+  if (markedDistinct(a, b)) return null;
+  const idA = a.externalId?.trim();
+  const idB = b.externalId?.trim();
+  if (idA && idB) return idA === idB ? { reason: 'id', score: 1 } : null;
+  const emailA = a.email?.trim().toLowerCase();
+  const emailB = b.email?.trim().toLowerCase();
+  if (emailA && emailB) return emailA === emailB ? { reason: 'email', score: 1 } : null;
+  const keysA = getNameKeys(a);
+  const keysB = getNameKeys(b);
+  if (keysA.exact === keysB.exact) return { reason: 'name', score: 1 };
+  const score = similarity(keysA.fuzzy, keysB.fuzzy);
+  return score >= SIMILARITY_THRESHOLD ? { reason: 'similar', score } : null;
+}
+
+/** Every pair that may be the same person, exact matches first. */
+export function findDuplicates(participants: Participant[]): DuplicatePair[] {
+  const pairs = new Map<string, DuplicatePair>();
+  const consider = (a: Participant, b: Participant) => {
+    const key = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+    if (pairs.has(key)) return;
+    const match = compareIdentity(a, b);
+    if (match) pairs.set(key, { a, b, ...match });
+  };
+
+  // Shared IDs and emails, however different the names.
+  const byValue = new Map<string, Participant[]>();
+  for (const p of participants) {
+    for (const value of [p.externalId?.trim() && `id:${p.externalId.trim()}`, p.email?.trim() && `email:${p.email.trim().toLowerCase()}`]) {
+      if (value) byValue.set(value, [...(byValue.get(value) ?? []), p]);
+    }
+  }
+  for (const group of byValue.values()) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) consider(group[i], group[j]);
+    }
+  }
+
+  // Names: sorted by length, each is only compared with names long enough
+  // to reach the threshold. Pairs whose names differ too much can only be
+  // ID or email matches, which are found above.
+  const entries = participants
+    .map(p => ({ p, key: getNameKeys(p).fuzzy }))
+    .sort((x, y) => x.key.length - y.key.length);
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      if (entries[i].key.length < entries[j].key.length * SIMILARITY_THRESHOLD) break;
+      if (similarity(entries[i].key, entries[j].key) >= SIMILARITY_THRESHOLD) consider(entries[i].p, entries[j].p);
+    }
+  }
+
+  const order: DuplicateReason[] = ['id', 'email', 'name', 'similar'];
+  return [...pairs.values()].sort((x, y) => order.indexOf(x.reason) - order.indexOf(y.reason) || y.score - x.score);
+}
+
+/**
+ * Incoming entries that aren't exact duplicates (same ID, email or name) of
+ * an existing entry or of an earlier incoming one. Similar names are kept
+ * for review.
+ */
+export function dropExactDuplicates(existing: Participant[], incoming: Participant[]): Participant[] {
+  const index = new Map<string, Participant[]>();
+  const keysOf = (p: Participant) => [
+    p.externalId?.trim() && `id:${p.externalId.trim()}`,
+    p.email?.trim() && `email:${p.email.trim().toLowerCase()}`,
+    `name:${normalizeName(p.name)}`,
+  ].filter(Boolean) as string[];
+  const add = (p: Participant) => keysOf(p).forEach(key => index.set(key, [...(index.get(key) ?? []), p]));
+
+  existing.forEach(add);
+  return incoming.filter(p => {
+    const candidates = keysOf(p).flatMap(key => index.get(key) ?? []);
+    const reasons = candidates.map(c => compareIdentity(p, c)?.reason);
+    if (reasons.some(reason => reason && reason !== 'similar')) return false;
+    add(p);
+    return true;
+  });
+}
+
+function fillMissing<K extends keyof Participant>(merged: Participant, drop: Participant, key: K) {
+  if (merged[key] === undefined || merged[key] === '') merged[key] = drop[key];
+}
+
+/**
+ * Folds `dropId` into `keepId`: the kept entry's values win, and the other
+ * fills in whatever it is missing. The merged entry stays where `keepId` was.
+ */
+export function mergeParticipants(participants: Participant[], keepId: string, dropId: string): Participant[] {
+  const keep = participants.find(p => p.id === keepId);
+  const drop = participants.find(p => p.id === dropId);
+  if (!keep || !drop || keep === drop) return participants;
+
+  const merged: Participant = { ...keep };
+  for (const key of ['externalId', 'email', 'department', 'weight', 'role'] as const) fillMissing(merged, drop, key);
+  if (keep.attributes || drop.attributes) merged.attributes = { ...drop.attributes, ...keep.attributes };
+  const checkIns = [keep.checkedInAt, drop.checkedInAt].filter((t): t is number => t !== undefined);
+  if (checkIns.length > 0) merged.checkedInAt = Math.min(...checkIns);
+  const distinct = [...new Set([...(keep.distinctFrom ?? []), ...(drop.distinctFrom ?? [])])].filter(id => id !== keepId && id !== dropId);
+  if (distinct.length > 0) merged.distinctFrom = distinct;
+
+  return participants.filter(p => p.id !== dropId).map(p => {
+    if (p.id === keepId) return merged;
+    if (!p.distinctFrom?.includes(dropId)) return p;
+    return { ...p, distinctFrom: [...new Set(p.distinctFrom.map(id => (id === dropId ? keepId : id)))] };
+  });
+}
+
+/**
+ * Like `mergeParticipants`, and also moves everything else in the event that
+ * points at `dropId` over to `keepId`: won draws, group members and roles,
+ * locks, pairing rules and saved rounds. When both were in a group, the
+ * merged entry stays in `keepId`'s. The audit log keeps the original IDs,
+ * since replaying an entry must reproduce it.
+ */
+export function mergeEventParticipants(data: EventData, keepId: string, dropId: string): EventData {
+  const participants = mergeParticipants(data.participants, keepId, dropId);
+  if (participants === data.participants) return data;
+  const merged = participants.find(p => p.id === keepId)!;
+  const remap = (ids: string[]) => [...new Set(ids.map(id => (id === dropId ? keepId : id)))];
+
+  const isMember = (group: Group, id: string) => group.members.some(m => m.id === id);
+  const home = data.groups.find(g => isMember(g, keepId)) ?? data.groups.find(g => isMember(g, dropId));
+  const groups = data.groups.map(group => {
+    if (!isMember(group, keepId) && !isMember(group, dropId)) return group;
+    const stays = group === home;
+    const members = group.members.flatMap(m => {
+      if (m.id !== keepId && m.id !== dropId) return [m];
+      return stays ? [merged] : [];
+    });
+    const lockedMemberIds = group.lockedMemberIds && remap(group.lockedMemberIds).filter(id => stays || id !== keepId);
+    const leaderId = group.leaderId === keepId || group.leaderId === dropId ? (stays ? keepId : undefined) : group.leaderId;
+    return { ...group, members: [...new Map(members.map(m => [m.id, m])).values()], lockedMemberIds, leaderId };
+  });
+
+  return {
+    ...data,
+    participants,
+    drawHistory: data.drawHistory.map(r =>
+      r.participant.id === dropId ? { ...r, participant: { ...r.participant, id: keepId } } : r
+    ),
+    groups,
+    groupingSettings: {
+      ...data.groupingSettings,
+      constraints: data.groupingSettings.constraints?.map(c => ({ ...c, memberIds: remap(c.memberIds) })),
+    },
+    groupRounds: data.groupRounds.map(round => ({ ...round, groups: round.groups.map(remap) })),
+  };
+}
+
+/** Records that two entries are different people who happen to look alike. */
+export function markDistinct(participants: Participant[], aId: string, bId: string): Participant[] {
+  return participants.map(p => {
+    const other = p.id === aId ? bId : p.id === bId ? aId : null;
+    if (!other || (p.distinctFrom ?? []).includes(other)) return p;
+    return { ...p, distinctFrom: [...(p.distinctFrom ?? []), other] };
+  });
+}
@@ -0,0 +1,89 @@
+import type { AttributeFilter, EligibilityRules, FilterOperator, Participant } from '../types';
+import { isCheckedIn } from './attendance';
+import { message, type Message } from './messages';
+import { DEPARTMENT_KEY, getIdentityKey } from './participants';
+
+/** Someone who won in an earlier event. */
+export interface PastWinner {
+  key: string;
+  name: string;
+  eventName: string;
+}
+
+export const FILTER_OPERATORS: FilterOperator[] = ['is', 'isNot', 'contains', 'gt', 'gte', 'lt', 'lte'];
+
+function rawValue(p: Participant, key: string): string {
+  return ((key === DEPARTMENT_KEY ? p.department : p.attributes?.[key]) ?? '').trim();
+}
+
+/**
+ * Orders two cell values: as numbers when both start with one ("3 years"),
+ * as dates when both parse as dates, and as text otherwise.
+ */
+export function compareValues(a: string, b: string): number {
+  const x = parseFloat(a);
+  const y = parseFloat(b);
+  if (Number.isFinite(x) && Number.isFinite(y) && !/^\d{4}-\d{2}/.test(a)) return x - y;
+  const dx = Date.parse(a);
+  const dy = Date.parse(b);
+  if (Number.isFinite(dx) && Number.isFinite(dy)) return dx - dy;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/** `is` / `is not` accept a comma-separated list of values, any of which may match. */
+export function matchesFilter(p: Participant, filter: AttributeFilter): boolean {
+  const value = rawValue(p, filter.key);
+  const target = filter.value.trim();
+  const options = target.split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+  switch (filter.operator) {
+    case 'is': return options.includes(value.toLowerCase());
+    case 'isNot': return !options.includes(value.toLowerCase());
+    case 'contains': return value.toLowerCase().includes(target.toLowerCase());
+  }
+  if (value === '') return false;
+  const order = compareValues(value, target);
+  switch (filter.operator) {
+    case 'gt': return order > 0;
+    case 'gte': return order >= 0;
+    case 'lt': return order < 0;
+    case 'lte': return order <= 0;
+  }
+}
+
+export function describeFilter(filter: AttributeFilter): Message {
+  return message('eligibility.filter', {
+    attribute: filter.key === DEPARTMENT_KEY ? message('field.department') : filter.key,
+    operator: message(`eligibility.operator.${filter.operator}`),
+    value: filter.value,
+  });
+}
+
+/** Whether an exclusion-list entry names this participant (unique ID, email or exact name). */
+export function matchesExclusion(p: Participant, token: string): boolean {
+  const text = token.trim();
+  return p.externalId === text || p.email?.toLowerCase() === text.toLowerCase() || p.name === text;
+}
+
+/** Exclusion-list entries that match nobody, usually typos. */
+export function findUnmatchedExclusions(participants: Participant[], excluded: string[]): string[] {
+  return excluded.filter(token => !participants.some(p => matchesExclusion(p, token)));
+}
+
+/** Why `rules` keep this participant out of the draw; empty when they don't. */
+export function getRuleViolations(
+  p: Participant,
+  rules: EligibilityRules,
+  pastWinners: Map<string, PastWinner>
+): Message[] {
+  const reasons: Message[] = [];
+  if (rules.checkedInOnly && !isCheckedIn(p)) reasons.push(message('eligibility.reason.notCheckedIn'));
+  if (rules.excluded.some(token => matchesExclusion(p, token))) reasons.push(message('eligibility.reason.excluded'));
+  for (const filter of rules.filters) {
+    if (filter.value.trim() === '' || matchesFilter(p, filter)) continue;
+    const value = rawValue(p, filter.key) || message('eligibility.reason.empty');
+    reasons.push(message('eligibility.reason.needs', { filter: describeFilter(filter), value }));
+  }
+  const past = pastWinners.get(getIdentityKey(p));
+  if (past) reasons.push(message('eligibility.reason.wonAt', { event: past.eventName }));
+  return reasons;
+}
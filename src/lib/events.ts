@@ -0,0 +1,64 @@
+import type { EventData, EventMeta, StoredEvent } from '../types';
+import { createId } from './utils';
+
+export function createEventData(): EventData {
+  return {
+    participants: [],
+    drawSettings: {
+      allowRepeat: false,
+      mode: 'single',
+      animation: { style: 'classic', durationMs: 2000, easing: 'easeOut', sound: false, confetti: true },
+      eligibility: { excluded: [], filters: [], blockRecentEvents: 0, checkedInOnly: false },
+    },
+    prizes: [],
+    drawHistory: [],
+    publishedSeed: null,
+    auditLog: [],
+    groupingSettings: {
+      mode: 'size',
+      groupSize: 3,
+      groupCount: 2,
+      remainder: 'short',
+      balanceBy: [],
+      constraints: [],
+      avoidRepeats: false,
+    },
+    groups: [],
+    groupRounds: [],
+  };
+}
+
+export function createEvent(name: string, data: EventData = createEventData()): StoredEvent {
+  const now = Date.now();
+  return { id: createId(), name, createdAt: now, updatedAt: now, archived: false, data };
+}
+
+/** Fills in fields added since the event was saved. */
+export function normalizeEventData(data: Partial<EventData>): EventData {
+  const defaults = createEventData();
+  return {
+    ...defaults,
+    ...data,
+    drawSettings: {
+      ...defaults.drawSettings,
+      ...data.drawSettings,
+      animation: { ...defaults.drawSettings.animation, ...data.drawSettings?.animation },
+      eligibility: { ...defaults.drawSettings.eligibility, ...data.drawSettings?.eligibility },
+    },
+    groupingSettings: { ...defaults.groupingSettings, ...data.groupingSettings },
+    // A copy taken from the server before the reveal has no secret left to derive seeds from.
+    publishedSeed: data.publishedSeed?.seed ? data.publishedSeed : null,
+    // Draws from before statuses existed were final.
+    drawHistory: (data.drawHistory ?? []).map(record => ({ ...record, status: record.status ?? 'confirmed' })),
+  };
+}
+
+/** The `count` events created most recently before `currentId`, newest first. */
+export function selectPreviousEvents(events: EventMeta[], currentId: string, count: number): EventMeta[] {
+  const current = events.find(e => e.id === currentId);
+  if (!current || count <= 0) return [];
+  return events
+    .filter(e => e.id !== currentId && e.createdAt < current.createdAt)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, count);
+}
@@ -0,0 +1,286 @@
+import Papa from 'papaparse';
+import type { DrawRecord, GroupRound, Participant } from '../types';
+import { describeDrawChain, getWeight, listDrawChains } from './draw';
+import { english, type Translator } from './messages';
+import { DEPARTMENT_KEY, getAttributeLabel, listAttributeKeys } from './participants';
+import { getRoleInGroup, orderMembers } from './roles';
+
+export type CsvRow = Record<string, string | number>;
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'html';
+
+export const EXPORT_FORMATS: { id: ExportFormat; extension: string; mime: string }[] = [
+  { id: 'csv', extension: 'csv', mime: 'text/csv;charset=utf-8' },
+  { id: 'json', extension: 'json', mime: 'application/json' },
+  { id: 'markdown', extension: 'md', mime: 'text/markdown;charset=utf-8' },
+  { id: 'html', extension: 'html', mime: 'text/html;charset=utf-8' },
+];
+
+export interface ExportOptions {
+  /** Heading of the document, e.g. the event name. */
+  title: string;
+  /** Print layout: one group per page instead of cards side by side. */
+  onePerPage?: boolean;
+}
+
+/** A named group of members, as shown in the Grouping tab. */
+interface ExportGroup {
+  name: string;
+  members: Participant[];
+  leaderId?: string;
+}
+
+interface Table {
+  title?: string;
+  columns: string[];
+  rows: string[][];
+}
+
+// Excel only reads a CSV as UTF-8 (rather than the system code page) when it starts with a BOM.
+const BOM = '\uFEFF';
+
+export function toCsv(rows: CsvRow[], bom = false): string {
+  return (bom ? BOM : '') + Papa.unparse(rows);
+}
+
+/** Local time as `YYYY-MM-DD HH:MM:SS`, which sorts and which spreadsheets read as a date. */
+export function formatTimestamp(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+/** Columns for everything known about the participants, skipping ones nobody has. */
+function participantColumns(participants: Participant[], t: Translator): [string, (p: Participant) => string][] {
+  const columns: [string, (p: Participant) => string][] = [];
+  if (participants.some(p => p.externalId)) columns.push([t('field.externalId'), p => p.externalId ?? '']);
+  if (participants.some(p => p.email)) columns.push([t('field.email'), p => p.email ?? '']);
+  for (const key of listAttributeKeys(participants)) {
+    columns.push([getAttributeLabel(key, t('field.department')), p => (key === DEPARTMENT_KEY ? p.department : p.attributes?.[key]) ?? '']);
+  }
+  if (participants.some(p => p.weight !== undefined)) columns.push([t('export.column.tickets'), p => String(getWeight(p))]);
+  if (participants.some(p => p.checkedInAt !== undefined)) {
+    columns.push([t('export.column.checkedIn'), p => (p.checkedInAt === undefined ? '' : formatTimestamp(p.checkedInAt))]);
+  }
+  return columns;
+}
+
+function toRows(table: Table, prefix: CsvRow = {}): CsvRow[] {
+  return table.rows.map(row => Object.fromEntries([...Object.entries(prefix), ...table.columns.map((c, i) => [c, row[i]])]));
+}
+
+/** Leaders first, with a Role column when any group has roles. */
+function groupTables(groups: ExportGroup[], t: Translator): Table[] {
+  const extra = participantColumns(groups.flatMap(g => g.members), t);
+  const roleOf = (group: ExportGroup, p: Participant) => {
+    const role = getRoleInGroup(group, p);
+    return role ? t(`role.${role}`) : '';
+  };
+  const hasRoles = groups.some(g => g.members.some(p => roleOf(g, p)));
+  return groups.map(group => ({
+    title: group.name,
+    columns: [t('export.column.name'), ...(hasRoles ? [t('export.column.role')] : []), ...extra.map(([label]) => label)],
+    rows: orderMembers(group).map(p => [
+      p.name,
+      ...(hasRoles ? [roleOf(group, p)] : []),
+      ...extra.map(([, value]) => value(p)),
+    ]),
+  }));
+}
+
+/** Records in the order they were drawn, each redraw right after the record it replaced. */
+function orderDraws(history: DrawRecord[]): { record: DrawRecord; chain: DrawRecord[] }[] {
+  return listDrawChains(history).reverse().flatMap(chain => chain.map(record => ({ record, chain })));
+}
+
+function drawTable(history: DrawRecord[], t: Translator): Table {
+  const draws = orderDraws(history);
+  const extra = participantColumns(draws.map(d => d.record.participant), t);
+  return {
+    columns: [
+      '#',
+      t('export.column.prize'),
+      t('export.column.name'),
+      t('export.column.status'),
+      t('export.column.replacedBy'),
+      t('export.column.time'),
+      ...extra.map(([label]) => label),
+      t('export.column.chain'),
+    ],
+    rows: draws.map(({ record, chain }, i) => [
+      String(i + 1),
+      record.prizeName ?? '',
+      record.participant.name,
+      t(`drawStatus.${record.status}`),
+      chain.find(r => r.id === record.replacedBy)?.participant.name ?? '',
+      formatTimestamp(record.timestamp),
+      ...extra.map(([, value]) => value(record.participant)),
+      describeDrawChain(chain, t),
+    ]),
+  };
+}
+
+/** One row per member with every known column, in group order. */
+export function groupsToRows(groups: ExportGroup[], t: Translator = english): CsvRow[] {
+  return groupTables(groups, t).flatMap(table => toRows(table, { [t('export.column.group')]: table.title! }));
+}
+
+/** One row per record, in the order they were drawn. */
+export function drawHistoryToRows(history: DrawRecord[], t: Translator = english): CsvRow[] {
+  return toRows(drawTable(history, t));
+}
+
+/** Every saved rotation round, one row per member. */
+export function scheduleToRows(rounds: GroupRound[], participants: Participant[], t: Translator = english): CsvRow[] {
+  const names = new Map(participants.map(p => [p.id, p.name]));
+  return rounds.flatMap((round, r) =>
+    round.groups.flatMap((group, g) =>
+      group.map(id => ({
+        [t('export.column.round')]: r + 1,
+        [t('export.column.group')]: t('grouping.groupName', { number: g + 1 }),
+        [t('export.column.name')]: names.get(id) ?? t('export.removed'),
+        [t('export.column.newPairings')]: `${Math.round(round.newPairRatio * 100)}%`,
+      }))
+    )
+  );
+}
+
+// Markdown
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function toMarkdown(title: string, tables: Table[], t: Translator): string {
+  const lines = [`# ${title}`, '', `_${t('export.exportedAt', { time: formatTimestamp(Date.now()) })}_`];
+  for (const table of tables) {
+    lines.push('');
+    if (table.title) lines.push(`## ${table.title} (${table.rows.length})`, '');
+    lines.push(`| ${table.columns.map(markdownCell).join(' | ')} |`);
+    lines.push(`| ${table.columns.map(() => '---').join(' | ')} |`);
+    for (const row of table.rows) lines.push(`| ${row.map(markdownCell).join(' | ')} |`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Print HTML
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+const PRINT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #1a1a1a; margin: 24px; }
+  h1 { margin: 0 0 4px; }
+  .meta { color: #888; font-size: 12px; margin-bottom: 24px; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 16px; }
+  .card { border: 2px solid #1a1a1a; border-radius: 16px; padding: 16px; break-inside: avoid; }
+  .card h2 { margin: 0 0 12px; font-size: 22px; display: flex; justify-content: space-between; }
+  .card h2 small { color: #888; font-size: 14px; }
+  .card ol { margin: 0; padding-left: 24px; font-size: 18px; line-height: 1.6; }
+  .card .detail { color: #888; font-size: 12px; margin-left: 6px; }
+  .per-page .cards { display: block; }
+  .per-page .card { border: none; break-after: page; padding: 0; }
+  .per-page .card h2 { font-size: 48px; margin-bottom: 24px; }
+  .per-page .card ol { font-size: 32px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+  th { background: #f5f5f5; }
+  @media print {
+    body { margin: 0; }
+    .meta { display: none; }
+  }
+`;
+
+function htmlDocument(title: string, body: string, t: Translator, onePerPage = false): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body${onePerPage ? ' class="per-page"' : ''}>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(t('export.exportedAt', { time: formatTimestamp(Date.now()) }))}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+function groupCardsHtml(tables: Table[]): string {
+  const cards = tables.map(table => {
+    const members = table.rows.map(([name, ...rest]) => {
+      const detail = rest.filter(Boolean).join(' · ');
+      return `<li>${escapeHtml(name)}${detail ? `<span class="detail">${escapeHtml(detail)}</span>` : ''}</li>`;
+    });
+    return `<section class="card"><h2>${escapeHtml(table.title ?? '')}<small>${table.rows.length}</small></h2><ol>${members.join('')}</ol></section>`;
+  });
+  return `<div class="cards">${cards.join('\n')}</div>`;
+}
+
+function tableHtml(table: Table): string {
+  const head = table.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('');
+  const rows = table.rows.map(row => `<tr>${row.map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr>`);
+  return `<table><thead><tr>${head}</tr></thead><tbody>${rows.join('\n')}</tbody></table>`;
+}
+
+// Exports
+
+/** Participant fields worth exporting; `distinctFrom` only matters inside the app. */
+function exportParticipant({ distinctFrom, ...p }: Participant) {
+  return p;
+}
+
+/** Column headings and labels come from `t`, in the language the export is made in. */
+export function exportGroups(groups: ExportGroup[], format: ExportFormat, options: ExportOptions, t: Translator = english): string {
+  const tables = groupTables(groups, t);
+  switch (format) {
+    case 'csv':
+      return toCsv(groupsToRows(groups, t), true);
+    case 'json':
+      return JSON.stringify({
+        title: options.title,
+        exportedAt: new Date().toISOString(),
+        groups: groups.map(g => ({
+          name: g.name,
+          leaderId: g.leaderId,
+          members: orderMembers(g).map(exportParticipant),
+        })),
+      }, null, 2);
+    case 'markdown':
+      return toMarkdown(options.title, tables, t);
+    case 'html':
+      return htmlDocument(options.title, groupCardsHtml(tables), t, options.onePerPage);
+  }
+}
+
+export function exportDrawResults(history: DrawRecord[], format: ExportFormat, options: ExportOptions, t: Translator = english): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(drawHistoryToRows(history, t), true);
+    case 'json':
+      return JSON.stringify({
+        title: options.title,
+        exportedAt: new Date().toISOString(),
+        draws: orderDraws(history).map(({ record }) => ({
+          ...record,
+          time: new Date(record.timestamp).toISOString(),
+          participant: exportParticipant(record.participant),
+        })),
+      }, null, 2);
+    case 'markdown':
+      return toMarkdown(options.title, [drawTable(history, t)], t);
+    case 'html':
+      return htmlDocument(options.title, tableHtml(drawTable(history, t)), t);
+  }
+}
+
+/** Turns a user-entered name into a safe file name with the format's extension. */
+export function toFileName(name: string, format: ExportFormat): string {
+  const { extension } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const base = name.trim().replace(/\.[a-z]+$/i, '').replace(/[\\/:*?"<>|]+/g, '-') || 'export';
+  return `${base}.${extension}`;
+}
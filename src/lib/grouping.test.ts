@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { GroupingSettings, GroupRole, Participant } from '../types';
+import { createGroups, getGroupCapacities, GroupingError } from './grouping';
+import { createSeededRng } from './rng';
+
+const SEEDS = Array.from({ length: 20 }, (_, i) => `seed-${i}`);
+
+function people(departments: string, roles: (GroupRole | undefined)[] = []): Participant[] {
+  return [...departments].map((department, i) => ({ id: `p${i}`, name: `Person ${i}`, department, role: roles[i] }));
+}
+
+/** Largest difference, over all values of `key`, between the groups holding the most and fewest of it. */
+function spread(groups: Participant[][], value: (p: Participant) => string | undefined): number {
+  const values = new Set(groups.flat().map(value));
+  return Math.max(...[...values].map(v => {
+    const counts = groups.map(g => g.filter(p => value(p) === v).length);
+    return Math.max(...counts) - Math.min(...counts);
+  }));
+}
+
+const groupOf = (groups: Participant[][], id: string) => groups.findIndex(g => g.some(p => p.id === id));
+
+describe('getGroupCapacities', () => {
+  it('fills groups of the set size and leaves the rest short', () => {
+    expect(getGroupCapacities(10, { mode: 'size', groupSize: 4 })).toEqual([4, 4, 2]);
+  });
+
+  it('spreads the remainder evenly', () => {
+    expect(getGroupCapacities(10, { mode: 'size', groupSize: 4, remainder: 'even' })).toEqual([4, 3, 3]);
+    expect(getGroupCapacities(10, { mode: 'count', groupSize: 1, groupCount: 3, remainder: 'even' })).toEqual([4, 3, 3]);
+  });
+
+  it('fills a set number of groups, keeping at least one person for each', () => {
+    expect(getGroupCapacities(10, { mode: 'count', groupSize: 1, groupCount: 4 })).toEqual([3, 3, 3, 1]);
+    expect(getGroupCapacities(5, { mode: 'count', groupSize: 1, groupCount: 4 })).toEqual([2, 1, 1, 1]);
+  });
+
+  it('never makes more groups than people', () => {
+    expect(getGroupCapacities(2, { mode: 'count', groupSize: 1, groupCount: 5 })).toEqual([1, 1]);
+  });
+
+  it('picks the group count whose sizes fit the range and come closest to the size', () => {
+    expect(getGroupCapacities(10, { mode: 'size', groupSize: 4, remainder: 'range', minSize: 3, maxSize: 4 })).toEqual([4, 3, 3]);
+  });
+
+  it('rejects a range no group count fits', () => {
+    expect(() => getGroupCapacities(5, { mode: 'size', groupSize: 4, remainder: 'range', minSize: 4, maxSize: 4 }))
+      .toThrow(GroupingError);
+    expect(() => getGroupCapacities(10, { mode: 'count', groupSize: 1, groupCount: 2, remainder: 'range', minSize: 1, maxSize: 4 }))
+      .toThrow(GroupingError);
+  });
+
+  it('rejects sizes and counts that are not positive whole numbers', () => {
+    expect(() => getGroupCapacities(10, { mode: 'size', groupSize: 0 })).toThrow(GroupingError);
+    expect(() => getGroupCapacities(10, { mode: 'count', groupSize: 1, groupCount: 1.5 })).toThrow(GroupingError);
+  });
+
+  it('makes no groups for nobody', () => {
+    expect(getGroupCapacities(0, { mode: 'size', groupSize: 4 })).toEqual([]);
+  });
+});
+
+describe('createGroups', () => {
+  it('places everyone exactly once, in groups of the planned sizes', () => {
+    const everyone = people('AAAABBBCCD');
+    for (const seed of SEEDS) {
+      const groups = createGroups(everyone, { mode: 'size', groupSize: 4 }, createSeededRng(seed));
+      expect(groups.map(g => g.length)).toEqual([4, 4, 2]);
+      expect(groups.flat().map(p => p.id).sort()).toEqual(everyone.map(p => p.id).sort());
+    }
+  });
+
+  it('is reproducible from a seed', () => {
+    const everyone = people('AAAABBBCCD');
+    const settings: GroupingSettings = { mode: 'size', groupSize: 3, balanceBy: ['department'] };
+    const ids = (seed: string) => createGroups(everyone, settings, createSeededRng(seed)).map(g => g.map(p => p.id));
+    expect(ids('same')).toEqual(ids('same'));
+  });
+
+  it('spreads each balanced value as evenly as the group sizes allow', () => {
+    const everyone = people('AAAAABBBBCCCDDEEFF');
+    for (const seed of SEEDS) {
+      const groups = createGroups(everyone, { mode: 'size', groupSize: 6, balanceBy: ['department'] }, createSeededRng(seed));
+      expect(spread(groups, p => p.department)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('keeps together and apart rules', () => {
+    const everyone = people('AAAABBBBCCCC');
+    const settings: GroupingSettings = {
+      mode: 'size',
+      groupSize: 4,
+      balanceBy: ['department'],
+      constraints: [
+        { id: 'c1', kind: 'together', memberIds: ['p0', 'p1'] },
+        { id: 'c2', kind: 'apart', memberIds: ['p4', 'p5', 'p6'] },
+      ],
+    };
+    for (const seed of SEEDS) {
+      const groups = createGroups(everyone, settings, createSeededRng(seed));
+      expect(groupOf(groups, 'p0')).toBe(groupOf(groups, 'p1'));
+      expect(new Set(['p4', 'p5', 'p6'].map(id => groupOf(groups, id))).size).toBe(3);
+    }
+  });
+
+  it('names the rule that cannot be met', () => {
+    const everyone = people('AAAAAA');
+    const settings: GroupingSettings = {
+      mode: 'size',
+      groupSize: 2,
+      constraints: [{ id: 'too-big', kind: 'together', memberIds: ['p0', 'p1', 'p2'] }],
+    };
+    try {
+      createGroups(everyone, settings, createSeededRng('x'));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(GroupingError);
+      expect((err as GroupingError).constraintId).toBe('too-big');
+    }
+  });
+
+  it('gives every group one leader and spreads the note-takers', () => {
+    const roles: (GroupRole | undefined)[] = ['leader', 'leader', 'leader', 'notetaker', 'notetaker', 'notetaker'];
+    const everyone = people('ABCABCABCABC', roles);
+    for (const seed of SEEDS) {
+      const groups = createGroups(everyone, { mode: 'size', groupSize: 4, leaders: true, noteTakers: true }, createSeededRng(seed));
+      expect(groups).toHaveLength(3);
+      for (const group of groups) {
+        expect(group.filter(p => p.role === 'leader')).toHaveLength(1);
+        expect(group.filter(p => p.role === 'notetaker')).toHaveLength(1);
+      }
+    }
+  });
+
+  it('makes fewer groups when there are too few leaders', () => {
+    const everyone = people('AAAAAAAAAA', ['leader', 'leader']);
+    for (const seed of SEEDS) {
+      const groups = createGroups(everyone, { mode: 'size', groupSize: 3, leaders: true }, createSeededRng(seed));
+      expect(groups.map(g => g.length)).toEqual([5, 5]);
+      groups.forEach(group => expect(group.filter(p => p.role === 'leader')).toHaveLength(1));
+    }
+  });
+
+  it('refuses to group with leaders when there are none', () => {
+    expect(() => createGroups(people('AAAA'), { mode: 'size', groupSize: 2, leaders: true }, createSeededRng('x')))
+      .toThrow(GroupingError);
+  });
+});
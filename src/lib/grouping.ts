@@ -0,0 +1,574 @@
+import type { GroupingConstraint, GroupingSettings, GroupRole, Participant } from '../types';
+import { message, translate, type Message, type MessageKey, type TranslateParams } from './messages';
+import { getAttributeValue } from './participants';
+import { countRole } from './roles';
+import { buildPairHistory, countRepeatPairs } from './rotation';
+import { cryptoRng, randomInt, shuffle, type Rng } from './rng';
+
+/**
+ * Raised when the grouping rules cannot all be met. Carries its message key
+ * for the UI to translate; `message` is the English text.
+ */
+export class GroupingError extends Error implements Message {
+  constructor(readonly key: MessageKey, readonly params: TranslateParams = {}, readonly constraintId: string | null = null) {
+    super(translate('en', key, params));
+    this.name = 'GroupingError';
+  }
+}
+
+/** People that must be placed together (a singleton when unconstrained). */
+interface Unit {
+  members: Participant[];
+  /** Group the unit must join, when it is tied to a locked member. */
+  pinned?: number;
+}
+
+// Balance key for spreading role holders beyond the one per group; can't clash with a column name.
+const ROLE_KEY = '\u0000role';
+
+const MAX_ATTEMPTS = 25;
+const MAX_SWAP_PASSES = 20;
+const ROTATION_STARTS = 5;
+
+function valueOf(p: Participant, key: string): string {
+  return key === ROLE_KEY ? p.role ?? '(none)' : getAttributeValue(p, key);
+}
+
+function evenSizes(total: number, count: number): number[] {
+  const base = Math.floor(total / count);
+  const extra = total % count;
+  return Array.from({ length: count }, (_, i) => base + (i < extra ? 1 : 0)).filter(size => size > 0);
+}
+
+/** Group sizes for `total` people under the mode and remainder policy in `settings`. */
+export function getGroupCapacities(total: number, settings: GroupingSettings): number[] {
+  if (total === 0) return [];
+  const mode = settings.mode ?? 'size';
+  const remainder = settings.remainder ?? 'short';
+  if (mode === 'size' && !(Number.isInteger(settings.groupSize) && settings.groupSize > 0)) {
+    throw new GroupingError('grouping.error.size');
+  }
+  if (mode === 'count' && !(Number.isInteger(settings.groupCount ?? 1) && (settings.groupCount ?? 1) > 0)) {
+    throw new GroupingError('grouping.error.count');
+  }
+  const size = Math.max(1, settings.groupSize);
+  const count = Math.max(1, Math.min(total, settings.groupCount ?? 1));
+
+  if (remainder === 'range') {
+    const min = Math.max(1, settings.minSize ?? 1);
+    const max = Math.max(min, settings.maxSize ?? total);
+    const fits = (g: number) => Math.floor(total / g) >= min && Math.ceil(total / g) <= max;
+    if (mode === 'count') {
+      if (!fits(count)) {
+        throw new GroupingError('grouping.error.rangeCount', { total, count, min, max });
+      }
+      return evenSizes(total, count);
+    }
+    // Of the group counts that fit, use the one whose average size is closest to groupSize.
+    let best: number | null = null;
+    for (let g = Math.ceil(total / max); g <= Math.floor(total / min); g++) {
+      if (fits(g) && (best === null || Math.abs(total / g - size) < Math.abs(total / best - size))) best = g;
+    }
+    if (best === null) throw new GroupingError('grouping.error.range', { total, min, max });
+    return evenSizes(total, best);
+  }
+
+  if (mode === 'count') {
+    if (remainder === 'even') return evenSizes(total, count);
+    // Fill groups to the rounded-up size, leaving at least one person for each group still to come.
+    const full = Math.ceil(total / count);
+    const capacities: number[] = [];
+    let left = total;
+    for (let i = 0; i < count; i++) {
+      const take = Math.min(full, left - (count - i - 1));
+      capacities.push(take);
+      left -= take;
+    }
+    return capacities;
+  }
+
+  if (remainder === 'even') return evenSizes(total, Math.ceil(total / size));
+  const capacities: number[] = [];
+  for (let left = total; left > 0; left -= size) capacities.push(Math.min(size, left));
+  return capacities;
+}
+
+export interface GroupPlan {
+  capacities: number[];
+  /** Shortfalls the grouping works around, e.g. fewer groups for lack of leaders. */
+  warnings: Message[];
+}
+
+/**
+ * Group sizes for `participants` under `settings`, taking roles into account:
+ * with `leaders` on there are never more groups than leaders, so a shortfall
+ * makes fewer, evenly sized groups instead.
+ */
+export function planGroups(participants: Participant[], settings: GroupingSettings): GroupPlan {
+  let capacities = getGroupCapacities(participants.length, settings);
+  const warnings: Message[] = [];
+  const leaders = countRole(participants, 'leader');
+  if (settings.leaders && participants.length > 0 && leaders < capacities.length) {
+    if (leaders === 0) {
+      throw new GroupingError('grouping.error.noLeaders');
+    }
+    const wanted = capacities.length;
+    try {
+      capacities = getGroupCapacities(participants.length, {
+        ...settings,
+        mode: 'count',
+        groupCount: leaders,
+        remainder: settings.remainder === 'range' ? 'range' : 'even',
+      });
+    } catch (err) {
+      if (err instanceof GroupingError) throw new GroupingError('grouping.error.fewLeaders', { count: leaders, reason: err });
+      throw err;
+    }
+    warnings.push(message('grouping.warning.fewLeaders', { count: leaders, wanted, groups: capacities.length }));
+  }
+  const noteTakers = countRole(participants, 'notetaker');
+  if (settings.noteTakers && noteTakers < capacities.length) {
+    warnings.push(noteTakers === 0
+      ? message('grouping.warning.noNoteTakers')
+      : message('grouping.warning.fewNoteTakers', { count: noteTakers, groups: capacities.length, without: capacities.length - noteTakers }));
+  }
+  return { capacities, warnings };
+}
+
+export function describeConstraint(constraint: GroupingConstraint, byId: Map<string, Participant>): Message {
+  const names = constraint.memberIds.map(id => byId.get(id)?.name ?? '?').join(', ');
+  return message('grouping.rule', { kind: message(`constraints.${constraint.kind}`), names });
+}
+
+/** Drops members that are not in the input and rules left with fewer than two people. */
+function activeConstraints(constraints: GroupingConstraint[], byId: Map<string, Participant>): GroupingConstraint[] {
+  return constraints
+    .map(c => ({ ...c, memberIds: [...new Set(c.memberIds)].filter(id => byId.has(id)) }))
+    .filter(c => c.memberIds.length >= 2);
+}
+
+/** Merges keep-together rules into units (union–find over member IDs). */
+function buildUnits(participants: Participant[], together: GroupingConstraint[]): Map<string, Unit> {
+  const parent = new Map(participants.map(p => [p.id, p.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  for (const c of together) {
+    const ids = c.memberIds.filter(id => parent.has(id));
+    for (const id of ids.slice(1)) parent.set(find(id), find(ids[0]));
+  }
+  const units = new Map<string, Unit>();
+  const unitOf = new Map<string, Unit>();
+  for (const p of participants) {
+    const root = find(p.id);
+    if (!units.has(root)) units.set(root, { members: [] });
+    units.get(root)!.members.push(p);
+    unitOf.set(p.id, units.get(root)!);
+  }
+  return unitOf;
+}
+
+function checkFeasibility(
+  constraints: GroupingConstraint[],
+  unitOf: Map<string, Unit>,
+  capacities: number[],
+  byId: Map<string, Participant>
+) {
+  const maxCapacity = Math.max(0, ...capacities);
+  for (const c of constraints.filter(c => c.kind === 'together')) {
+    const first = c.memberIds.find(id => unitOf.has(id));
+    const size = first ? unitOf.get(first)!.members.length : 0;
+    if (size > maxCapacity) {
+      throw new GroupingError('grouping.error.tooBig', { rule: describeConstraint(c, byId), size, max: maxCapacity }, c.id);
+    }
+  }
+  for (const c of constraints.filter(c => c.kind === 'apart')) {
+    const seen = new Map<Unit, string>();
+    for (const id of c.memberIds) {
+      const unit = unitOf.get(id);
+      if (!unit) continue;
+      if (seen.has(unit)) {
+        throw new GroupingError(
+          'grouping.error.apartConflict',
+          { rule: describeConstraint(c, byId), first: byId.get(seen.get(unit)!)!.name, second: byId.get(id)!.name },
+          c.id
+        );
+      }
+      seen.set(unit, id);
+    }
+    if (c.memberIds.length > capacities.length) {
+      throw new GroupingError(
+        'grouping.error.apartTooMany',
+        { rule: describeConstraint(c, byId), count: c.memberIds.length, groups: capacities.length },
+        c.id
+      );
+    }
+  }
+}
+
+/**
+ * Gives every group with room one `role` holder who isn't already fixed
+ * somewhere, keeping a holder that is. A leader goes first in the group.
+ * A holder brings their whole keep-together unit (`unitOf`, over everyone),
+ * so they only take a group the unit fits in, that no part of it is bound
+ * to elsewhere and that holds nobody it must be kept apart from. A holder
+ * already bound to a group by such a unit is preferred for it. Retries
+ * other holders until every group has one; when `required`, throws if none
+ * of the tries gets there, otherwise returns the try that got closest.
+ */
+function seatRole(
+  role: GroupRole,
+  fixed: Participant[][],
+  capacities: number[],
+  participants: Participant[],
+  unitOf: Map<string, Unit>,
+  apartOf: Map<string, Set<string>>,
+  required: boolean,
+  rng: Rng
+): Participant[][] {
+  const unitIds = (p: Participant) => unitOf.get(p.id)!.members.map(m => m.id);
+  const seated = new Set(fixed.flat().map(p => p.id));
+  let closest: { seats: Participant[][]; short: number } | null = null;
+  for (let attempt = 1; ; attempt++) {
+    const seats = fixed.map(members => [...members]);
+    // Everyone who will end up in each group: its fixed members and the rest of their units.
+    const bound = seats.map(members => new Set(members.flatMap(unitIds)));
+    const candidates = shuffle(participants.filter(p => p.role === role && !seated.has(p.id)), rng);
+    const fits = (holder: Participant, g: number) => {
+      const ids = unitIds(holder);
+      if (bound.some((other, h) => h !== g && ids.some(id => other.has(id)))) return false;
+      if (ids.some(id => [...(apartOf.get(id) ?? [])].some(partner => bound[g].has(partner)))) return false;
+      return new Set([...bound[g], ...ids]).size <= capacities[g];
+    };
+
+    let short = 0;
+    seats.forEach((members, g) => {
+      const present = members.findIndex(p => p.role === role);
+      if (present !== -1) {
+        if (role === 'leader') members.unshift(...members.splice(present, 1));
+        return;
+      }
+      const own = candidates.findIndex(c => bound[g].has(c.id));
+      if (own === -1 && bound[g].size >= capacities[g]) return;
+      const index = own !== -1 ? own : candidates.findIndex(c => fits(c, g));
+      if (index === -1) {
+        short++;
+        return;
+      }
+      const [holder] = candidates.splice(index, 1);
+      unitIds(holder).forEach(id => bound[g].add(id));
+      if (role === 'leader') members.unshift(holder);
+      else members.push(holder);
+    });
+    if (short === 0) return seats;
+    if (!closest || short < closest.short) closest = { seats, short };
+    if (attempt < MAX_ATTEMPTS) continue;
+    if (!required) return closest.seats;
+    // Candidates left over were kept out by the rules rather than missing.
+    throw new GroupingError(
+      candidates.length > 0 ? `grouping.error.blocked.${role}` : `grouping.error.notEnough.${role}`,
+      { groups: capacities.length }
+    );
+  }
+}
+
+/**
+ * One greedy pass. Pinned units go first, then constrained units, largest first; everyone else
+ * follows with the most common attribute values first. Each unit joins the
+ * allowed group holding the fewest people sharing its values relative to the
+ * group's size; ties are broken by fill level, then at random. Groups start
+ * out holding `fixed` members. Returns the unit that could not be placed on
+ * failure.
+ */
+function assignUnits(
+  units: Unit[],
+  capacities: number[],
+  fixed: Participant[][],
+  keys: string[],
+  apartOf: Map<string, Set<string>>,
+  rng: Rng
+): Participant[][] | Unit {
+  const frequency = keys.map(key => {
+    const counts = new Map<string, number>();
+    for (const unit of units) {
+      for (const p of unit.members) {
+        const value = valueOf(p, key);
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    return counts;
+  });
+  const apartCount = (unit: Unit) => unit.members.reduce((sum, p) => sum + (apartOf.get(p.id)?.size ?? 0), 0);
+  const order = shuffle(units, rng).sort((a, b) => {
+    // Pinned units have one group to go to, so they claim it before it fills up.
+    if ((a.pinned === undefined) !== (b.pinned === undefined)) return a.pinned === undefined ? 1 : -1;
+    if (a.members.length !== b.members.length) return b.members.length - a.members.length;
+    const apartDiff = apartCount(b) - apartCount(a);
+    if (apartDiff !== 0) return apartDiff;
+    for (let k = 0; k < keys.length; k++) {
+      const diff = frequency[k].get(valueOf(b.members[0], keys[k]))!
+        - frequency[k].get(valueOf(a.members[0], keys[k]))!;
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+
+  const groups: Participant[][] = capacities.map(() => []);
+  const memberIds = capacities.map(() => new Set<string>());
+  const tallies = capacities.map(() => keys.map(() => new Map<string, number>()));
+  const place = (p: Participant, g: number) => {
+    groups[g].push(p);
+    memberIds[g].add(p.id);
+    keys.forEach((key, k) => {
+      const value = valueOf(p, key);
+      tallies[g][k].set(value, (tallies[g][k].get(value) ?? 0) + 1);
+    });
+  };
+  fixed.forEach((members, g) => members.forEach(p => place(p, g)));
+
+  for (const unit of order) {
+    let best: number[] = [];
+    let bestScore: [number, number] = [Infinity, Infinity];
+    groups.forEach((group, g) => {
+      if (unit.pinned !== undefined && unit.pinned !== g) return;
+      if (group.length + unit.members.length > capacities[g]) return;
+      if (unit.members.some(p => [...(apartOf.get(p.id) ?? [])].some(id => memberIds[g].has(id)))) return;
+      let overlap = 0;
+      for (const p of unit.members) {
+        keys.forEach((key, k) => { overlap += tallies[g][k].get(valueOf(p, key)) ?? 0; });
+      }
+      overlap /= capacities[g];
+      const fill = group.length / capacities[g];
+      if (overlap < bestScore[0] || (overlap === bestScore[0] && fill < bestScore[1])) {
+        bestScore = [overlap, fill];
+        best = [g];
+      } else if (overlap === bestScore[0] && fill === bestScore[1]) {
+        best.push(g);
+      }
+    });
+    if (best.length === 0) return unit;
+
+    const target = best[randomInt(rng, best.length)];
+    unit.members.forEach(p => place(p, target));
+  }
+
+  return groups;
+}
+
+/** Sum of squared value counts over `keys`; lower means the values are spread more evenly. */
+function imbalance(group: Participant[], keys: string[]): number {
+  return keys.reduce((sum, key) => {
+    const counts = new Map<string, number>();
+    for (const p of group) {
+      const value = valueOf(p, key);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return sum + [...counts.values()].reduce((s, c) => s + c * c, 0);
+  }, 0);
+}
+
+/** Whether `p` may join `group` once `except` has left it. */
+function allowedIn(p: Participant, group: Participant[], except: string, apartOf: Map<string, Set<string>>): boolean {
+  return !group.some(q => q.id !== except && apartOf.get(p.id)?.has(q.id));
+}
+
+/**
+ * Swaps two unconstrained people between groups whenever that spreads the
+ * `keys` values more evenly relative to group size, without breaking
+ * keep-apart rules. Repairs what the greedy pass leaves behind, e.g. the
+ * last two of a value landing together once the other groups filled up.
+ */
+function reduceImbalance(
+  groups: Participant[][],
+  movable: Set<string>,
+  keys: string[],
+  apartOf: Map<string, Set<string>>,
+  rng: Rng
+): Participant[][] {
+  const score = (group: Participant[]) => (group.length === 0 ? 0 : imbalance(group, keys) / group.length);
+  const groupOf = new Map<string, number>();
+  groups.forEach((group, g) => group.forEach(p => groupOf.set(p.id, g)));
+  const people = groups.flat().filter(p => movable.has(p.id));
+
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (const a of shuffle(people, rng)) {
+      const ga = groupOf.get(a.id)!;
+      for (let gb = 0; gb < groups.length && groupOf.get(a.id) === ga; gb++) {
+        if (gb === ga) continue;
+        for (const b of groups[gb]) {
+          if (!movable.has(b.id) || keys.every(key => valueOf(a, key) === valueOf(b, key))) continue;
+          const nextA = groups[ga].map(p => (p.id === a.id ? b : p));
+          const nextB = groups[gb].map(p => (p.id === b.id ? a : p));
+          const gain = score(groups[ga]) + score(groups[gb]) - score(nextA) - score(nextB);
+          if (gain < 1e-9 || !allowedIn(a, groups[gb], b.id, apartOf) || !allowedIn(b, groups[ga], a.id, apartOf)) continue;
+
+          groups[ga] = nextA;
+          groups[gb] = nextB;
+          groupOf.set(a.id, gb);
+          groupOf.set(b.id, ga);
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return groups;
+}
+
+/**
+ * Local search for rotation mode: swaps two unconstrained people between
+ * groups whenever that lowers the number of pairs who have met before,
+ * without breaking keep-apart rules or worsening attribute balance.
+ */
+function reduceRepeatPairs(
+  groups: Participant[][],
+  movable: Set<string>,
+  keys: string[],
+  apartOf: Map<string, Set<string>>,
+  pastPartners: Map<string, Set<string>>,
+  rng: Rng
+): Participant[][] {
+  const met = (p: Participant, group: Participant[], except?: string) =>
+    group.filter(q => q.id !== p.id && q.id !== except && pastPartners.get(p.id)?.has(q.id)).length;
+
+  const groupOf = new Map<string, number>();
+  groups.forEach((group, g) => group.forEach(p => groupOf.set(p.id, g)));
+  const people = groups.flat().filter(p => movable.has(p.id));
+
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (const a of shuffle(people, rng)) {
+      const ga = groupOf.get(a.id)!;
+      for (let gb = 0; gb < groups.length && groupOf.get(a.id) === ga; gb++) {
+        if (gb === ga) continue;
+        for (const b of groups[gb]) {
+          if (!movable.has(b.id)) continue;
+          const delta = met(a, groups[gb], b.id) + met(b, groups[ga], a.id) - met(a, groups[ga]) - met(b, groups[gb]);
+          if (delta >= 0 || !allowedIn(a, groups[gb], b.id, apartOf) || !allowedIn(b, groups[ga], a.id, apartOf)) continue;
+
+          const nextA = groups[ga].map(p => (p.id === a.id ? b : p));
+          const nextB = groups[gb].map(p => (p.id === b.id ? a : p));
+          if (keys.length > 0 && imbalance(nextA, keys) + imbalance(nextB, keys) > imbalance(groups[ga], keys) + imbalance(groups[gb], keys)) continue;
+
+          groups[ga] = nextA;
+          groups[gb] = nextB;
+          groupOf.set(a.id, gb);
+          groupOf.set(b.id, ga);
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return groups;
+}
+
+/**
+ * Splits participants into groups sized by `planGroups`.
+ * Keep-together and keep-apart rules are always honoured, and with
+ * `balanceBy` set each attribute's values are spread as evenly as possible.
+ * With `leaders`, each group's leader comes first in it; with `noteTakers`
+ * each group gets a note-taker while they last. Further role holders are
+ * spread like a balanced attribute.
+ * With `avoidRepeats`, pairs from `pastRounds` are kept apart where
+ * possible. With `lockedLayout`, locked members stay put and only the rest
+ * are redistributed into the given group sizes. With none of these set,
+ * everyone is shuffled and sliced. Throws a `GroupingError` naming the
+ * offending rule when the rules cannot all be met.
+ */
+export function createGroups(participants: Participant[], settings: GroupingSettings, rng: Rng = cryptoRng): Participant[][] {
+  const layout = settings.lockedLayout;
+  const roles = settings.leaders || settings.noteTakers;
+  const keys = [...(settings.balanceBy ?? []), ...(roles ? [ROLE_KEY] : [])];
+  const byId = new Map(participants.map(p => [p.id, p]));
+  const constraints = activeConstraints(settings.constraints ?? [], byId);
+  const pastPartners = settings.avoidRepeats ? buildPairHistory(settings.pastRounds ?? []) : new Map<string, Set<string>>();
+
+  const capacities = layout ? layout.capacities : planGroups(participants, settings).capacities;
+  const together = constraints.filter(c => c.kind === 'together');
+  const apartOf = new Map<string, Set<string>>();
+  for (const c of constraints.filter(c => c.kind === 'apart')) {
+    for (const id of c.memberIds) {
+      const partners = apartOf.get(id) ?? new Set<string>();
+      c.memberIds.forEach(other => other !== id && partners.add(other));
+      apartOf.set(id, partners);
+    }
+  }
+
+  let fixed: Participant[][] = layout ? layout.fixed.map(ids => ids.flatMap(id => byId.get(id) ?? [])) : capacities.map(() => []);
+  if (roles) {
+    const everyoneUnits = buildUnits(participants, together);
+    if (settings.leaders) fixed = seatRole('leader', fixed, capacities, participants, everyoneUnits, apartOf, true, rng);
+    if (settings.noteTakers) fixed = seatRole('notetaker', fixed, capacities, participants, everyoneUnits, apartOf, false, rng);
+  }
+  const fixedGroup = new Map<string, number>();
+  fixed.forEach((members, g) => members.forEach(p => fixedGroup.set(p.id, g)));
+  const pool = participants.filter(p => !fixedGroup.has(p.id));
+
+  if (!layout && keys.length === 0 && constraints.length === 0 && pastPartners.size === 0) {
+    const shuffled = shuffle(participants, rng);
+    let offset = 0;
+    return capacities.map(size => shuffled.slice(offset, (offset += size)));
+  }
+
+  const unitOf = buildUnits(pool, together);
+  checkFeasibility(constraints, unitOf, capacities, byId);
+
+  // Keep-together rules that reach a locked member pin the rest to that group.
+  for (const c of together) {
+    const lockedIn = new Set(c.memberIds.filter(id => fixedGroup.has(id)).map(id => fixedGroup.get(id)!));
+    if (lockedIn.size > 1) {
+      throw new GroupingError('grouping.error.lockedSplit', { rule: describeConstraint(c, byId) }, c.id);
+    }
+    if (lockedIn.size === 1) {
+      const g = [...lockedIn][0];
+      c.memberIds.forEach(id => {
+        const unit = unitOf.get(id);
+        if (unit) unit.pinned = g;
+      });
+    }
+  }
+
+  const units = [...new Set(unitOf.values())];
+  const movable = new Set(units.filter(u => u.members.length === 1 && u.pinned === undefined).map(u => u.members[0].id));
+  let failed: Unit | null = null;
+  let best: Participant[][] | null = null;
+  let bestRepeats = Infinity;
+  let starts = 0;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const assigned = assignUnits(units, capacities, fixed, keys, apartOf, rng);
+    if (!Array.isArray(assigned)) {
+      failed = assigned;
+      continue;
+    }
+    const result = keys.length > 0 ? reduceImbalance(assigned, movable, keys, apartOf, rng) : assigned;
+    if (pastPartners.size === 0) return result;
+
+    // Rotation: local search from several starting points, keep the best.
+    const improved = reduceRepeatPairs(result, movable, keys, apartOf, pastPartners, rng);
+    const repeats = countRepeatPairs(improved.map(g => g.map(p => p.id)), pastPartners);
+    if (repeats < bestRepeats) {
+      best = improved;
+      bestRepeats = repeats;
+    }
+    if (++starts >= ROTATION_STARTS || repeats === 0) break;
+  }
+  if (best) return best;
+
+  const ids = new Set(failed!.members.map(p => p.id));
+  const culprit = constraints.find(c => c.kind === 'together' && c.memberIds.some(id => ids.has(id)))
+    ?? constraints.find(c => c.memberIds.some(id => ids.has(id)))
+    ?? null;
+  throw culprit
+    ? new GroupingError('grouping.error.placeRule', { rule: describeConstraint(culprit, byId) }, culprit.id)
+    : new GroupingError('grouping.error.placeSizes');
+}
@@ -0,0 +1,71 @@
+import type { EventData } from '../types';
+import { createId } from './utils';
+
+/** The event as it was right after an action. */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  data: EventData;
+}
+
+/** Undo timeline of one event; `entries[index]` is the current state. */
+export interface History {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+// Entries share unchanged arrays with their neighbours, so this mostly bounds the list's length.
+const MAX_ENTRIES = 100;
+
+function createEntry(label: string, data: EventData): HistoryEntry {
+  return { id: createId(), label, timestamp: Date.now(), data };
+}
+
+export function createHistory(data: EventData, label = 'Opened event'): History {
+  return { entries: [createEntry(label, data)], index: 0 };
+}
+
+/** Adds an action after the current entry, dropping anything that was undone. */
+export function recordAction(history: History, label: string, data: EventData): History {
+  const entries = [...history.entries.slice(0, history.index + 1), createEntry(label, data)].slice(-MAX_ENTRIES);
+  return { entries, index: entries.length - 1 };
+}
+
+/**
+ * Folds a change that isn't an action of its own (a setting, a typed value)
+ * into the current entry, so undoing the next action keeps it.
+ */
+export function amendCurrent(history: History, data: EventData): History {
+  const entries = [...history.entries];
+  entries[history.index] = { ...entries[history.index], data };
+  return { ...history, entries };
+}
+
+export function canUndo(history: History): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: History): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+export function moveTo(history: History, index: number): History {
+  return { ...history, index: Math.max(0, Math.min(history.entries.length - 1, index)) };
+}
+
+/**
+ * Data to restore for the entry at `index`. The audit log and the published
+ * seed are append-only records of what was drawn, so they keep their current
+ * state; undoing a draw never hides it from the audit. With `keepDraws`, as
+ * when the server owns the draws and a client can't rewrite them, the draw
+ * history keeps its current state too.
+ */
+export function restoreData(history: History, index: number, current: EventData, keepDraws = false): EventData {
+  return {
+    ...history.entries[index].data,
+    auditLog: current.auditLog,
+    publishedSeed: current.publishedSeed,
+    ...(keepDraws && { drawHistory: current.drawHistory }),
+  };
+}
@@ -0,0 +1,75 @@
+import { createElement, Fragment, useSyncExternalStore } from 'react';
+import { LOCALES, message, translate, type Locale, type Message, type MessageKey, type TranslateParams } from './messages';
+
+export { LOCALES, message, translate };
+export type { Locale, Message, MessageKey, TranslateParams };
+
+const LOCALE_KEY = 'lucky-draw:locale';
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+/** The saved choice, else Chinese for browsers set to any Chinese variant. */
+function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  return navigator.language.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+}
+
+let current: Locale | null = null;
+const listeners = new Set<() => void>();
+
+function apply(locale: Locale) {
+  current = locale;
+  // Lets the browser pick CJK glyphs and hyphenation for the language.
+  document.documentElement.lang = locale;
+  listeners.forEach(listener => listener());
+}
+
+export function getLocale(): Locale {
+  if (!current) apply(detectLocale());
+  return current!;
+}
+
+/** Switches the language and remembers it; open stage windows follow along. */
+export function setLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+  apply(locale);
+}
+
+function subscribe(listener: () => void) {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === LOCALE_KEY && isLocale(e.newValue)) apply(e.newValue);
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Like `translate`, but the values may be elements, e.g. a bold tab name
+ * inside a sentence whose word order differs between languages.
+ */
+function translateRich(locale: Locale, key: MessageKey, params: Record<string, unknown>) {
+  const parts = LOCALES[locale].messages[key].split(/\{(\w+)\}/);
+  return createElement(Fragment, null, ...parts.map((part, i) => (i % 2 === 1 && part in params ? params[part] : part)));
+}
+
+/** The current language and its messages; components re-render when it changes. */
+export function useI18n() {
+  const locale: Locale = useSyncExternalStore(subscribe, getLocale);
+  return {
+    locale,
+    setLocale,
+    /** BCP 47 tag for sorting names, e.g. Chinese by pinyin. */
+    collation: LOCALES[locale].collation,
+    /** Takes a key and its params, or a message from the library layer (an error, a warning, a reason). */
+    t: (key: MessageKey | Message, params?: TranslateParams) =>
+      (typeof key === 'object' ? translate(locale, key.key, key.params) : translate(locale, key, params)),
+    rich: (key: MessageKey, params: Record<string, unknown>) => translateRich(locale, key, params),
+  };
+}
+
+export type Translate = ReturnType<typeof useI18n>['t'];
@@ -0,0 +1,44 @@
+import en, { type MessageKey } from '../locales/en';
+import zhCN from '../locales/zh-CN';
+
+export type { MessageKey };
+
+export type Locale = 'en' | 'zh-CN';
+
+export const LOCALES: Record<Locale, { label: string; messages: Record<MessageKey, string>; collation: string }> = {
+  en: { label: 'EN', messages: en, collation: 'en' },
+  'zh-CN': { label: '中文', messages: zhCN, collation: 'zh-CN-u-co-pinyin' },
+};
+
+export type TranslateParams = Record<string, string | number | Message>;
+
+/**
+ * Text for the UI to show in its language, as the library layer reports it:
+ * a message key and the values for its placeholders, which may be messages
+ * of their own (e.g. a rule description inside an error).
+ */
+export interface Message {
+  key: MessageKey;
+  params?: TranslateParams;
+}
+
+export function message(key: MessageKey, params?: TranslateParams): Message {
+  return params ? { key, params } : { key };
+}
+
+/** Turns a key and its params into text in one language, e.g. the UI's `t`. */
+export type Translator = (key: MessageKey, params?: TranslateParams) => string;
+
+/** The message for `key` with each `{name}` replaced by `params.name`. */
+export function translate(locale: Locale, key: MessageKey, params?: TranslateParams): string {
+  const text = LOCALES[locale].messages[key] ?? en[key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name) => {
+    if (!(name in params)) return match;
+    const value = params[name];
+    return typeof value === 'object' ? translate(locale, value.key, value.params) : String(value);
+  });
+}
+
+/** For text that doesn't follow the UI's language, e.g. from the server or the CLI. */
+export const english: Translator = (key, params) => translate('en', key, params);
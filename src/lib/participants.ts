@@ -0,0 +1,70 @@
+import type { Participant } from '../types';
+
+export const DEPARTMENT_KEY = 'department';
+
+/** Value of a groupable attribute; `department` is read from its own field. */
+export function getAttributeValue(p: Participant, key: string): string {
+  const value = key === DEPARTMENT_KEY ? p.department : p.attributes?.[key];
+  return value?.trim() || '(none)';
+}
+
+/** Other keys are column names from the import, shown as they are. */
+export function getAttributeLabel(key: string, departmentLabel = 'Department'): string {
+  return key === DEPARTMENT_KEY ? departmentLabel : key;
+}
+
+/** Attribute keys present on at least one participant, department first. */
+export function listAttributeKeys(participants: Participant[]): string[] {
+  const keys = new Set<string>();
+  for (const p of participants) {
+    if (p.department) keys.add(DEPARTMENT_KEY);
+  }
+  for (const p of participants) {
+    for (const key of Object.keys(p.attributes ?? {})) keys.add(key);
+  }
+  return [...keys];
+}
+
+/** Value → count for one attribute across a set of participants. */
+export function countAttribute(participants: Participant[], key: string): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const p of participants) {
+    const value = getAttributeValue(p, key);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Identifies the same person across events and imports, where internal ids
+ * differ: unique ID first, then email, then the normalized name.
+ */
+export function getIdentityKey(p: Participant): string {
+  if (p.externalId?.trim()) return `id:${p.externalId.trim()}`;
+  if (p.email?.trim()) return `email:${p.email.trim().toLowerCase()}`;
+  return `name:${normalizeName(p.name)}`;
+}
+
+/** Case-, width- and whitespace-insensitive form of a name, for matching typed or pasted text. */
+export function normalizeName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+const STARTS_WITH_HAN = /^\s*\p{Script=Han}/u;
+
+/**
+ * Orders names for a reader of `collation` (a BCP 47 tag). Chinese names sort
+ * by pinyin whatever the language, after Latin ones unless the collation is
+ * itself Chinese.
+ */
+export function compareNames(collation: string): (a: string, b: string) => number {
+  const options: Intl.CollatorOptions = { numeric: true, sensitivity: 'base' };
+  const local = new Intl.Collator(collation, options);
+  const pinyin = new Intl.Collator('zh-CN-u-co-pinyin', options);
+  return (a, b) => (STARTS_WITH_HAN.test(a) && STARTS_WITH_HAN.test(b) ? pinyin : local).compare(a, b);
+}
+
+export function sortByName(participants: Participant[], collation: string): Participant[] {
+  const compare = compareNames(collation);
+  return [...participants].sort((a, b) => compare(a.name, b.name));
+}
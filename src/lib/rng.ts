@@ -0,0 +1,83 @@
+/** Source of uniform random numbers in [0, 1). */
+export interface Rng {
+  next(): number;
+}
+
+/** Default source, backed by the Web Crypto API. */
+export const cryptoRng: Rng = {
+  next() {
+    const buf = new Uint32Array(2);
+    crypto.getRandomValues(buf);
+    // 53 random bits, same resolution as Math.random()
+    return ((buf[0] >>> 5) * 67108864 + (buf[1] >>> 6)) / 9007199254740992;
+  },
+};
+
+// cyrb128 string hash, used only to expand a seed into PRNG state.
+function cyrb128(str: string): [number, number, number, number] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < str.length; i++) {
+    const k = str.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Deterministic generator (sfc32 seeded via cyrb128). The same seed always
+ * yields the same sequence, which is what makes audit replays possible.
+ */
+export function createSeededRng(seed: string): Rng {
+  let [a, b, c, d] = cyrb128(seed);
+  const rng = {
+    next() {
+      const t = (((a + b) | 0) + d) | 0;
+      d = (d + 1) | 0;
+      a = b ^ (b >>> 9);
+      b = (c + (c << 3)) | 0;
+      c = (c << 21) | (c >>> 11);
+      c = (c + t) | 0;
+      return (t >>> 0) / 4294967296;
+    },
+  };
+  for (let i = 0; i < 15; i++) rng.next();
+  return rng;
+}
+
+/** Integer in [0, n). */
+export function randomInt(rng: Rng, n: number): number {
+  return Math.floor(rng.next() * n);
+}
+
+/** Unbiased Fisher–Yates shuffle; returns a new array. */
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Fresh 128-bit hex seed from the crypto source. */
+export function generateSeed(): string {
+  const buf = new Uint8Array(16);
+  crypto.getRandomValues(buf);
+  return Array.from(buf, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
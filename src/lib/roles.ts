@@ -0,0 +1,52 @@
+import type { Group, GroupRole, Participant } from '../types';
+import { cryptoRng, randomInt, type Rng } from './rng';
+
+/** In the order members with them are listed in a group. */
+export const GROUP_ROLES: GroupRole[] = ['leader', 'notetaker'];
+
+const ROLE_PATTERNS: [GroupRole, RegExp][] = [
+  ['leader', /^(leader|team ?lead(er)?|facilitator|host|captain|组长|队长|主持人?|负责人)$/i],
+  ['notetaker', /^(note-?taker|notes|scribe|recorder|secretary|记录员?|记录人|书记员?)$/i],
+];
+
+/** Reads an imported role cell; anything that isn't a known role (e.g. "Member") means none. */
+export function parseGroupRole(value: string): GroupRole | undefined {
+  const text = value.trim();
+  return ROLE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+export function countRole(participants: Participant[], role: GroupRole): number {
+  return participants.filter(p => p.role === role).length;
+}
+
+/**
+ * What a member does in this group. Once a group has a leader, people tagged
+ * `leader` are ordinary members of it.
+ */
+export function getRoleInGroup(group: Pick<Group, 'leaderId'>, p: Participant): GroupRole | undefined {
+  if (p.id === group.leaderId) return 'leader';
+  if (p.role === 'leader') return group.leaderId ? undefined : 'leader';
+  return p.role;
+}
+
+/** Members with the leader first, then note-takers, then everyone else in their current order. */
+export function orderMembers(group: Pick<Group, 'leaderId' | 'members'>): Participant[] {
+  const rank = (p: Participant) => {
+    const role = getRoleInGroup(group, p);
+    return role ? GROUP_ROLES.indexOf(role) : GROUP_ROLES.length;
+  };
+  return [...group.members].sort((a, b) => rank(a) - rank(b));
+}
+
+/** Clears the group's leader once they are no longer one of its members. */
+export function dropDepartedLeader(group: Group): Group {
+  if (!group.leaderId || group.members.some(p => p.id === group.leaderId)) return group;
+  return { ...group, leaderId: undefined };
+}
+
+/** Picks a leader at random from each group's members, whatever their role. */
+export function drawGroupLeaders(groups: Group[], rng: Rng = cryptoRng): Group[] {
+  return groups.map(group => (group.members.length === 0
+    ? group
+    : { ...group, leaderId: group.members[randomInt(rng, group.members.length)].id }));
+}
@@ -0,0 +1,42 @@
+import type { GroupRound } from '../types';
+
+/** Who has already shared a group with whom, across the given rounds. */
+export function buildPairHistory(rounds: string[][][]): Map<string, Set<string>> {
+  const partners = new Map<string, Set<string>>();
+  for (const groups of rounds) {
+    for (const group of groups) {
+      for (const a of group) {
+        const set = partners.get(a) ?? new Set<string>();
+        group.forEach(b => b !== a && set.add(b));
+        partners.set(a, set);
+      }
+    }
+  }
+  return partners;
+}
+
+export function countPairs(groups: string[][]): number {
+  return groups.reduce((sum, g) => sum + (g.length * (g.length - 1)) / 2, 0);
+}
+
+export function countRepeatPairs(groups: string[][], history: Map<string, Set<string>>): number {
+  let repeats = 0;
+  for (const group of groups) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        if (history.get(group[i])?.has(group[j])) repeats++;
+      }
+    }
+  }
+  return repeats;
+}
+
+/** Share of this round's pairs that have never been grouped before (1 when there are no pairs). */
+export function getNewPairRatio(groups: string[][], history: Map<string, Set<string>>): number {
+  const total = countPairs(groups);
+  return total === 0 ? 1 : 1 - countRepeatPairs(groups, history) / total;
+}
+
+export function roundsToIds(rounds: GroupRound[]): string[][][] {
+  return rounds.map(r => r.groups);
+}
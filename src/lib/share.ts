@@ -0,0 +1,108 @@
+import type { DrawRecord, Group } from '../types';
+import { holdsPrize } from './draw';
+import { orderMembers } from './roles';
+
+/**
+ * Final results as carried by a share link. Only names go in: the link is
+ * meant to be posted to attendees, so IDs, emails and attributes stay out.
+ */
+export interface SharedResults {
+  title: string;
+  createdAt: number;
+  /** Members with the leader first, when the group has one. */
+  groups: { name: string; members: string[]; leader?: string }[];
+  /** In the order they were drawn; redrawn and forfeited winners are left out. */
+  winners: { prize: string | null; name: string }[];
+}
+
+// Compact wire format, versioned so older links keep opening.
+interface SharePayload {
+  v: 1;
+  t: string;
+  c: number;
+  g: [string, string[], string?][];
+  w: [string | null, string][];
+}
+
+const SHARE_VERSION = 1;
+const HASH_PREFIX = '#share=';
+
+export function collectSharedResults(
+  title: string,
+  groups: Group[],
+  drawHistory: DrawRecord[]
+): SharedResults {
+  return {
+    title,
+    createdAt: Date.now(),
+    groups: groups.map(g => ({
+      name: g.name,
+      members: orderMembers(g).map(p => p.name),
+      ...(g.leaderId && { leader: g.members.find(p => p.id === g.leaderId)?.name }),
+    })),
+    winners: drawHistory.filter(holdsPrize).reverse().map(r => ({ prize: r.prizeName, name: r.participant.name })),
+  };
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export async function encodeSharedResults(results: SharedResults): Promise<string> {
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    t: results.title,
+    c: results.createdAt,
+    g: results.groups.map(g => (g.leader ? [g.name, g.members, g.leader] : [g.name, g.members])),
+    w: results.winners.map(w => [w.prize, w.name]),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+}
+
+/** Throws when the text was cut off or wasn't made by encodeSharedResults. */
+export async function decodeSharedResults(encoded: string): Promise<SharedResults> {
+  const json = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+  const payload = JSON.parse(new TextDecoder().decode(json)) as SharePayload;
+  if (payload?.v !== SHARE_VERSION || !Array.isArray(payload.g) || !Array.isArray(payload.w)) {
+    throw new Error('Unsupported share link.');
+  }
+  return {
+    title: String(payload.t ?? ''),
+    createdAt: Number(payload.c) || 0,
+    groups: payload.g.map(([name, members, leader]) => ({
+      name: String(name),
+      members: members.map(String),
+      ...(leader !== undefined && { leader: String(leader) }),
+    })),
+    winners: payload.w.map(([prize, name]) => ({ prize: prize === null ? null : String(prize), name: String(name) })),
+  };
+}
+
+/** A link to this app that opens the read-only results view. */
+export async function createShareLink(results: SharedResults): Promise<string> {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${HASH_PREFIX.slice(1)}${await encodeSharedResults(results)}`;
+  return url.toString();
+}
+
+export function isShareView(): boolean {
+  return window.location.hash.startsWith(HASH_PREFIX);
+}
+
+export function readShareHash(): string {
+  return window.location.hash.slice(HASH_PREFIX.length);
+}
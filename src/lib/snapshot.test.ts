@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawAuditEntry } from '../types';
+import { createEventData } from './events';
+import { createSnapshot, parseSnapshot, serializeSnapshot, SNAPSHOT_VERSION, SnapshotError } from './snapshot';
+
+function sampleData() {
+  const data = createEventData();
+  data.participants = [
+    { id: 'a', name: 'Ann', department: 'Sales', weight: 2 },
+    { id: 'b', name: 'Bob', attributes: { site: 'North' }, checkedInAt: 1700000000000 },
+  ];
+  data.drawHistory = [
+    { id: 'd1', prizeId: null, prizeName: null, participant: data.participants[0], timestamp: 1700000000000, status: 'pending' },
+  ];
+  return data;
+}
+
+const withheldEntry: DrawAuditEntry = {
+  id: 'e1',
+  kind: 'draw',
+  timestamp: 1700000000000,
+  seed: null,
+  commitment: 'abc123',
+  inputHash: 'def456',
+  input: [],
+  params: { count: 1 },
+  result: ['a'],
+};
+
+function expectSnapshotError(text: string, key: string) {
+  try {
+    parseSnapshot(text);
+    expect.unreachable();
+  } catch (err) {
+    expect(err).toBeInstanceOf(SnapshotError);
+    expect((err as SnapshotError).key).toBe(key);
+  }
+}
+
+describe('parseSnapshot', () => {
+  it('reads back what serializeSnapshot wrote', () => {
+    const snapshot = createSnapshot('Annual Party', sampleData());
+    expect(parseSnapshot(serializeSnapshot(snapshot))).toEqual(snapshot);
+  });
+
+  it('accepts audit entries whose seed is withheld', () => {
+    const data = { ...sampleData(), auditLog: [withheldEntry] };
+    const parsed = parseSnapshot(serializeSnapshot(createSnapshot('Party', data)));
+    expect(parsed.data.auditLog[0].seed).toBeNull();
+  });
+
+  it('drops a published seed whose secret was withheld', () => {
+    const data = { ...sampleData(), publishedSeed: { seed: null, commitment: 'abc123', revealed: false, uses: 2 } };
+    expect(parseSnapshot(serializeSnapshot(createSnapshot('Party', data))).data.publishedSeed).toBeNull();
+  });
+
+  it('migrates an event saved before snapshots existed', () => {
+    const { participants } = sampleData();
+    const parsed = parseSnapshot(JSON.stringify({ name: 'Old Event', updatedAt: 1700000000000, data: { participants } }));
+    expect(parsed.version).toBe(SNAPSHOT_VERSION);
+    expect(parsed.name).toBe('Old Event');
+    expect(parsed.data.participants).toEqual(participants);
+    expect(parsed.data.drawHistory).toEqual([]);
+  });
+
+  it('rejects text that is not a session snapshot', () => {
+    expectSnapshotError('not json', 'snapshot.error.invalidJson');
+    expectSnapshotError('[1, 2]', 'snapshot.error.notSession');
+    expectSnapshotError(JSON.stringify({ format: 'something-else' }), 'snapshot.error.notSession');
+  });
+
+  it('rejects snapshots from a newer version', () => {
+    const snapshot = { ...createSnapshot('Party', sampleData()), version: SNAPSHOT_VERSION + 1 };
+    expectSnapshotError(JSON.stringify(snapshot), 'snapshot.error.newer');
+  });
+
+  it('names the field that has the wrong type', () => {
+    const snapshot = createSnapshot('Party', sampleData());
+    const broken = JSON.parse(serializeSnapshot(snapshot));
+    broken.data.participants[1].name = 42;
+    try {
+      parseSnapshot(JSON.stringify(broken));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(SnapshotError);
+      expect((err as SnapshotError).key).toBe('snapshot.error.field');
+      expect((err as SnapshotError).params.path).toContain('participants');
+    }
+  });
+});
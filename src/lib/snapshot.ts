@@ -0,0 +1,191 @@
+import type { EventData } from '../types';
+import { formatTimestamp } from './export';
+import { normalizeEventData } from './events';
+import { message, translate, type Message, type MessageKey, type TranslateParams } from './messages';
+
+/**
+ * A whole event in one JSON file, for preparing it on one machine and running
+ * it on another: participants, settings, prizes, draw history, groups and the
+ * audit log.
+ */
+export interface SessionSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: string;
+  name: string;
+  data: EventData;
+}
+
+export const SNAPSHOT_FORMAT = 'lucky-draw-session';
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * A file that isn't a session snapshot, or one this version can't read.
+ * Carries its message key for the UI to translate.
+ */
+export class SnapshotError extends Error implements Message {
+  constructor(readonly key: MessageKey, readonly params: TranslateParams = {}) {
+    super(translate('en', key, params));
+    this.name = 'SnapshotError';
+  }
+}
+
+/**
+ * `MIGRATIONS[n]` turns a version `n` snapshot into version `n + 1`. Fields
+ * added to EventData without a format change are filled in by
+ * normalizeEventData instead.
+ */
+const MIGRATIONS: Record<number, (snapshot: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0 is an event saved before snapshots existed: a StoredEvent as the
+  // server API returns it, or just its data.
+  0: event => ({
+    format: SNAPSHOT_FORMAT,
+    version: 1,
+    exportedAt: new Date(typeof event.updatedAt === 'number' ? event.updatedAt : Date.now()).toISOString(),
+    name: typeof event.name === 'string' ? event.name : 'Imported Event',
+    data: event.data ?? event,
+  }),
+};
+
+export function createSnapshot(name: string, data: EventData): SessionSnapshot {
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, exportedAt: new Date().toISOString(), name, data };
+}
+
+export function serializeSnapshot(snapshot: SessionSnapshot): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+/** E.g. "Annual Party 2025-01-31 18-30-00", without an extension. */
+export function snapshotFileName(snapshot: SessionSnapshot): string {
+  return `${snapshot.name} ${formatTimestamp(Date.parse(snapshot.exportedAt)).replace(/:/g, '-')}`;
+}
+
+// Validation
+
+type Check = (value: unknown, path: string) => void;
+
+type Expected = 'text' | 'number' | 'boolean' | 'list' | 'object' | 'wholeNumber';
+
+function fail(path: string, expected: Expected): never {
+  throw new SnapshotError('snapshot.error.field', { path, expected: message(`snapshot.expected.${expected}`) });
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: Check = (value, path) => typeof value === 'string' || fail(path, 'text');
+const number: Check = (value, path) => (typeof value === 'number' && Number.isFinite(value)) || fail(path, 'number');
+const boolean: Check = (value, path) => typeof value === 'boolean' || fail(path, 'boolean');
+
+function optional(check: Check): Check {
+  return (value, path) => value === undefined || check(value, path);
+}
+
+function nullable(check: Check): Check {
+  return (value, path) => value === null || check(value, path);
+}
+
+function arrayOf(check: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) fail(path, 'list');
+    value.forEach((item, i) => check(item, `${path}[${i}]`));
+  };
+}
+
+/** Checks the listed fields; others are left alone so newer optional fields survive a round trip. */
+function object(fields: Record<string, Check>): Check {
+  return (value, path) => {
+    if (!isObject(value)) fail(path, 'object');
+    for (const [key, check] of Object.entries(fields)) check(value[key], `${path}.${key}`);
+  };
+}
+
+const stringMap: Check = (value, path) => {
+  if (!isObject(value)) fail(path, 'object');
+  for (const [key, item] of Object.entries(value)) string(item, `${path}.${key}`);
+};
+
+const participant = object({
+  id: string,
+  name: string,
+  externalId: optional(string),
+  email: optional(string),
+  department: optional(string),
+  weight: optional(number),
+  attributes: optional(stringMap),
+  checkedInAt: optional(number),
+  distinctFrom: optional(arrayOf(string)),
+  role: optional(string),
+});
+
+const memberIds = arrayOf(arrayOf(string));
+
+const eventData = object({
+  participants: arrayOf(participant),
+  drawSettings: optional(object({
+    allowRepeat: optional(boolean),
+    animation: optional(object({})),
+    eligibility: optional(object({
+      excluded: optional(arrayOf(string)),
+      filters: optional(arrayOf(object({ key: string, operator: string, value: string }))),
+      blockRecentEvents: optional(number),
+      checkedInOnly: optional(boolean),
+    })),
+  })),
+  prizes: optional(arrayOf(object({ id: string, name: string, quantity: number, order: number }))),
+  drawHistory: optional(arrayOf(object({
+    id: string,
+    prizeId: nullable(string),
+    prizeName: nullable(string),
+    participant,
+    timestamp: number,
+  }))),
+  publishedSeed: optional(nullable(object({ seed: nullable(string), commitment: string, revealed: boolean, uses: number }))),
+  auditLog: optional(arrayOf(object({ id: string, kind: string, seed: nullable(string), inputHash: string }))),
+  groupingSettings: optional(object({ groupSize: number })),
+  groups: optional(arrayOf(object({ id: string, name: string, members: arrayOf(participant) }))),
+  groupRounds: optional(arrayOf(object({ id: string, groups: memberIds }))),
+});
+
+/** Passes once the current version's fields have been checked; other fields are taken as they are. */
+function assertSnapshot(value: Record<string, unknown>): asserts value is { name: string; data: Partial<EventData> } {
+  string(value.name, 'name');
+  eventData(value.data, 'data');
+}
+
+function detectVersion(value: Record<string, unknown>): number {
+  if (value.format === SNAPSHOT_FORMAT) {
+    const { version } = value;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) fail('version', 'wholeNumber');
+    return version;
+  }
+  if (value.format === undefined && (isObject(value.data) || Array.isArray(value.participants))) return 0;
+  throw new SnapshotError('snapshot.error.notSession');
+}
+
+/** Reads a snapshot file of any version, migrating it to the current one. Throws a SnapshotError. */
+export function parseSnapshot(text: string): SessionSnapshot {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SnapshotError('snapshot.error.invalidJson');
+  }
+  if (!isObject(parsed)) throw new SnapshotError('snapshot.error.notSession');
+  let value = parsed;
+  let version = detectVersion(value);
+  if (version > SNAPSHOT_VERSION) {
+    throw new SnapshotError('snapshot.error.newer', { version });
+  }
+  while (version < SNAPSHOT_VERSION) value = MIGRATIONS[version++](value);
+
+  const { exportedAt } = value;
+  assertSnapshot(value);
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : new Date().toISOString(),
+    name: value.name,
+    data: normalizeEventData(value.data),
+  };
+}
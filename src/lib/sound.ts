@@ -0,0 +1,41 @@
+// Small synthesized effects, so the app ships no audio files.
+
+let context: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+  if (typeof AudioContext === 'undefined') return null;
+  context ??= new AudioContext();
+  // Browsers start the context suspended until the page has seen a user gesture.
+  if (context.state === 'suspended') context.resume();
+  return context;
+}
+
+function tone(frequency: number, start: number, length: number, volume: number, type: OscillatorType = 'sine') {
+  const ctx = getContext();
+  if (!ctx) return;
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const at = ctx.currentTime + start;
+  osc.type = type;
+  osc.frequency.value = frequency;
+  gain.gain.setValueAtTime(volume, at);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + length);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(at);
+  osc.stop(at + length);
+}
+
+/** Short click for each name, segment or symbol passing by. */
+export function playTick() {
+  tone(1400, 0, 0.03, 0.08, 'square');
+}
+
+export function playFlip() {
+  tone(600, 0, 0.08, 0.12, 'triangle');
+  tone(900, 0.04, 0.08, 0.08, 'triangle');
+}
+
+/** Rising fanfare for the reveal. */
+export function playReveal() {
+  [523.25, 659.25, 783.99, 1046.5].forEach((f, i) => tone(f, i * 0.12, 0.5, 0.15, 'triangle'));
+}
@@ -0,0 +1,83 @@
+import type { DrawPlayback, StageName } from './animation';
+
+/** What the audience sees: everything the stage window renders comes from here. */
+export interface StageState {
+  eventName: string;
+  prize: { name: string; image?: string; won: number; quantity: number } | null;
+  winners: StageName[];
+  isDrawing: boolean;
+  /** The draw being animated, if any. */
+  playback: DrawPlayback | null;
+  /** When the current winners were revealed; reveal effects only play right after. */
+  revealedAt: number | null;
+  confetti: boolean;
+  sound: boolean;
+  /** Shown while nobody is on stage. */
+  message: string;
+  availableCount: number;
+}
+
+export type StageMessage =
+  | { type: 'state'; state: StageState }
+  // Sent by a stage window when it opens or closes, so the presenter can
+  // reply with the current state and show whether a stage is connected.
+  | { type: 'hello'; stageId: string }
+  | { type: 'bye'; stageId: string }
+  // Sent by a presenter window when it opens; stages answer with 'hello'.
+  | { type: 'presenter' };
+
+const CHANNEL = 'lucky-draw:stage';
+const VIEW_PARAM = 'view';
+const STAGE_VIEW = 'stage';
+
+export interface StageChannel {
+  post: (message: StageMessage) => void;
+  close: () => void;
+}
+
+/** Joins the channel shared by the presenter and every stage window of this origin. */
+export function openStageChannel(onMessage: (message: StageMessage) => void): StageChannel {
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.onmessage = (e: MessageEvent<StageMessage>) => onMessage(e.data);
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+export function isStageView(): boolean {
+  return new URLSearchParams(window.location.search).get(VIEW_PARAM) === STAGE_VIEW;
+}
+
+/** Opens (or focuses) the stage window, to be dragged onto the projector. */
+export function openStageWindow() {
+  const url = new URL(window.location.href);
+  url.search = `?${VIEW_PARAM}=${STAGE_VIEW}`;
+  url.hash = '';
+  window.open(url.toString(), 'lucky-draw-stage', 'popup,width=1280,height=720')?.focus();
+}
+
+const FULL_WIDTH = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303F\uFF01-\uFF60]/u;
+const NARROW = /[\s.,'’·\-ilIj]/;
+
+/**
+ * Rough width of a name in ems in the stage's heavy type: CJK characters are
+ * square, Latin letters a bit over half as wide.
+ */
+export function measureName(name: string): number {
+  let width = 0;
+  for (const char of name) width += FULL_WIDTH.test(char) ? 1 : NARROW.test(char) ? 0.3 : 0.62;
+  return Math.max(width, 1);
+}
+
+// Below this a name wraps instead of shrinking further.
+const MIN_NAME_REM = 2.5;
+
+/**
+ * Font size that fits `name` on one line of its container (which needs
+ * `container-type: inline-size`, e.g. Tailwind's `@container`), never larger
+ * than `maxRem`.
+ */
+export function fitNameSize(name: string, maxRem: number): string {
+  return `clamp(${MIN_NAME_REM}rem, ${(95 / measureName(name)).toFixed(2)}cqw, ${maxRem}rem)`;
+}
@@ -0,0 +1,89 @@
+import type { EventMeta, StoredEvent } from '../types';
+import { normalizeEventData } from './events';
+import { api, ApiError, hasServer } from './api';
+
+const DB_NAME = 'lucky-draw';
+const DB_VERSION = 1;
+const STORE = 'events';
+const ACTIVE_EVENT_KEY = 'lucky-draw:active-event';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Events live in the local server's database when the app is served by it,
+// and in this browser's IndexedDB otherwise.
+
+/** Event metadata, most recently updated first. */
+export async function listEvents(): Promise<EventMeta[]> {
+  if (await hasServer()) return api.listEvents();
+  const events = await withStore<StoredEvent[]>('readonly', store => store.getAll());
+  return events
+    .map(({ data: _data, ...meta }) => meta)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadEvent(id: string): Promise<StoredEvent | null> {
+  if (await hasServer()) {
+    return api.loadEvent(id).catch(err => {
+      if (err instanceof ApiError && err.status === 404) return null;
+      throw err;
+    });
+  }
+  const event = await withStore<StoredEvent | undefined>('readonly', store => store.get(id));
+  return event ? { ...event, data: normalizeEventData(event.data) } : null;
+}
+
+export async function saveEvent(event: StoredEvent): Promise<void> {
+  if (await hasServer()) {
+    await api.saveEvent(event);
+    return;
+  }
+  await withStore('readwrite', store => store.put(event));
+}
+
+/**
+ * Stores a new event with the draws it already has, e.g. a restored
+ * snapshot or a copy. The server only takes draws this way, never on a save.
+ */
+export async function importEvent(event: StoredEvent): Promise<void> {
+  if (await hasServer()) {
+    await api.createEvent(event);
+    return;
+  }
+  await withStore('readwrite', store => store.put(event));
+}
+
+export async function deleteEvent(id: string): Promise<void> {
+  if (await hasServer()) return api.deleteEvent(id);
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export function getActiveEventId(): string | null {
+  return localStorage.getItem(ACTIVE_EVENT_KEY);
+}
+
+export function setActiveEventId(id: string) {
+  localStorage.setItem(ACTIVE_EVENT_KEY, id);
+}
@@ -0,0 +1,458 @@
+/**
+ * English UI text, and the list of every message key. `{name}` marks a value
+ * filled in by `t`; other locales must translate every key.
+ */
+const en = {
+  // App shell
+  'app.title': 'Lucky Draw & Grouping',
+  'app.subtitle': 'Professional Tool',
+  'app.language': 'Language',
+  'app.storedOnServer': 'Events are stored by the local server',
+  'app.storedInBrowser': 'Events are stored in this browser',
+  'app.server': 'Server',
+  'app.local': 'Local',
+  'app.shareTitle': 'Share the groups and winners as a read-only link',
+  'app.share': 'Share',
+  'nav.participants': 'Participants',
+  'nav.draw': 'Lucky Draw',
+  'nav.group': 'Grouping',
+
+  // Shared
+  'common.add': 'Add',
+  'common.cancel': 'Cancel',
+  'common.clear': 'Clear',
+  'common.done': 'Done',
+  'common.export': 'Export',
+  'common.undo': 'Undo',
+  'common.checkedInOnly': 'Checked-in Only',
+  'field.externalId': 'Unique ID',
+  'field.email': 'Email',
+  'field.department': 'Department',
+  'role.leader': 'Leader',
+  'role.notetaker': 'Note-taker',
+
+  // Events
+  'events.defaultName': 'My Event',
+  'events.copyName': '{name} (copy)',
+  'events.loading': 'Loading…',
+  'events.events': 'Events',
+  'events.archived': 'Archived ({count})',
+  'events.noArchived': 'No archived events.',
+  'events.none': 'No events.',
+  'events.rename': 'Rename',
+  'events.duplicate': 'Duplicate',
+  'events.export': 'Export session',
+  'events.restore': 'Restore',
+  'events.archive': 'Archive',
+  'events.delete': 'Delete',
+  'events.confirmDelete': 'Delete "{name}" and all of its data? This cannot be undone.',
+  'events.newPlaceholder': 'New event name',
+  'events.create': 'Create',
+  'events.import': 'Import Session (.json)',
+  'events.importFailed': 'Couldn\'t import "{file}": {message}',
+  'snapshot.error.notSession': 'This file is not a lucky draw session.',
+  'snapshot.error.invalidJson': 'This file is not valid JSON.',
+  'snapshot.error.newer': 'This session was saved by a newer version of the app (format {version}). Update the app to open it.',
+  'snapshot.error.field': '{path} should be {expected}.',
+  'snapshot.expected.text': 'text',
+  'snapshot.expected.number': 'a number',
+  'snapshot.expected.boolean': 'true or false',
+  'snapshot.expected.list': 'a list',
+  'snapshot.expected.object': 'an object',
+  'snapshot.expected.wholeNumber': 'a whole number',
+
+  // Undo timeline
+  'history.undo': 'Undo {label} (Ctrl+Z)',
+  'history.nothingToUndo': 'Nothing to undo',
+  'history.redo': 'Redo {label} (Ctrl+Shift+Z)',
+  'history.nothingToRedo': 'Nothing to redo',
+  'history.timeline': 'Timeline',
+  'history.steps': '{count} step(s)',
+  'history.hint': 'Click a step to go back to it. The fairness audit log always keeps every draw.',
+  'history.serverDraws': 'Winners are kept by the server, so going back leaves the draw history as it is.',
+  'history.opened': 'Opened event',
+  'history.added': 'Added {count} participant(s)',
+  'history.merged': 'Merged {count} duplicate(s)',
+  'history.people': '{count} people',
+  'history.checkedIn': 'Checked in {names}',
+  'history.undidCheckIn': 'Undid check-in of {names}',
+  'history.setRole': 'Set role of {name}',
+  'history.removed': 'Removed {name}',
+  'history.clearedParticipants': 'Cleared all participants',
+  'history.clearedDraws': 'Cleared draw history',
+  'history.drewReplacement': 'Drew {name} as a replacement',
+  'history.drew': 'Drew {names}',
+  'history.drewForPrize': 'Drew {names} for {prize}',
+  'history.markedStatus': 'Marked {name} {status}',
+  'history.plannedRounds': 'Planned {count} rounds',
+  'history.generatedGroups': 'Generated {count} groups',
+  'history.showedRound': 'Showed round {number}',
+  'history.moved': 'Moved {name} to {group}',
+  'history.addedGroup': 'Added a group',
+  'history.reshuffled': 'Reshuffled unlocked members',
+  'history.changedLeader': 'Changed group leader',
+  'history.drewLeaders': 'Drew group leaders',
+  'history.deletedRound': 'Deleted a round',
+  'history.clearedRounds': 'Cleared all rounds',
+  'history.markedDistinct': 'Marked as different people',
+
+  // Participants tab
+  'source.manageList': 'Manage List',
+  'source.checkIn': 'Check-in ({checked}/{total})',
+  'source.pasteLabel': 'Paste Names (One per line)',
+  'source.pastePlaceholder': 'Enter names here...',
+  'source.addToList': 'Add to List',
+  'source.uploadCsv': 'Upload CSV',
+  'source.summary': 'List Summary',
+  'source.autoDedupe': 'Auto-Deduplicate',
+  'source.autoDedupeHint': 'Skip same ID, email or name on import',
+  'source.reviewDuplicates': 'Review Duplicates',
+  'source.clearAll': 'Clear All',
+  'source.confirmClearAll': 'Remove all {count} participants, the draw history and the groups? You can undo this with Ctrl+Z.',
+  'source.currentList': 'Current List',
+  'source.sortByName': 'A–Z',
+  'source.sortByName.title': 'Sort by name',
+  'source.sortAdded': 'Added',
+  'source.sortAdded.title': 'In the order they were added',
+  'source.empty': 'No participants added yet.',
+  'source.role': 'Group role',
+  'source.noRole': 'No role',
+  'source.tickets': 'Tickets',
+
+  // Check-in
+  'checkIn.search': 'Search by name, ID, email or department',
+  'checkIn.all': 'All',
+  'checkIn.absent': 'Not Checked In',
+  'checkIn.present': 'Checked In',
+  'checkIn.noMatch': 'Nobody matches.',
+  'checkIn.truncated': 'Showing {shown} of {total}. Search to narrow the list.',
+  'checkIn.attendance': 'Attendance',
+  'checkIn.ratio': 'checked in / registered',
+  'checkIn.confirmReset': 'Clear every check-in?',
+  'checkIn.reset': 'Reset Check-ins',
+  'checkIn.bulk': 'Bulk Check-in',
+  'checkIn.bulkPlaceholder': 'Paste names, IDs or emails, one per line',
+  'checkIn.bulkButton': 'Check In List',
+  'checkIn.bulkDone': '{count} checked in.',
+  'checkIn.notFound': '{count} not found.',
+  'checkIn.ambiguous': '{count} match several people; use their unique ID.',
+  'checkIn.leftInBox': 'They are left in the box above.',
+
+  // Duplicates
+  'duplicates.title': 'Review Duplicates',
+  'duplicates.none': 'No possible duplicates left.',
+  'duplicates.count': '{count} possible duplicate(s)',
+  'duplicates.allUnique': 'Everyone in the list looks unique.',
+  'duplicates.row': 'Row {row}',
+  'duplicates.checkedIn': 'checked in',
+  'duplicates.reason.id': 'Same unique ID',
+  'duplicates.reason.email': 'Same email',
+  'duplicates.reason.name': 'Same name',
+  'duplicates.reason.similar': 'Similar name',
+  'duplicates.keepLeft': 'Merge, keep left',
+  'duplicates.keepRight': 'Merge, keep right',
+  'duplicates.keepBoth': 'Keep both',
+  'duplicates.distinct': 'Different people',
+  'duplicates.distinct.title': 'Same or similar name, different people: never flag this pair again',
+  'duplicates.mergeHint': 'Merging keeps the chosen entry and fills its blanks from the other.',
+  'duplicates.mergeExactOne': 'Merge {count} Exact Match',
+  'duplicates.mergeExactMany': 'Merge {count} Exact Matches',
+
+  // CSV import
+  'import.title': 'Import Participants',
+  'import.readFailed': 'Could not read the file.',
+  'import.decodeFailed': 'The file could not be decoded as {encoding}.',
+  'import.encoding': 'Encoding',
+  'import.separator': 'Separator',
+  'import.autoDetect': 'Auto-detect',
+  'import.comma': 'Comma ( , )',
+  'import.semicolon': 'Semicolon ( ; )',
+  'import.tab': 'Tab',
+  'import.header': 'First row is header',
+  'import.preview': 'Showing {shown} of {total} rows.',
+  'import.skipped': '{count} row(s) will be skipped',
+  'import.rowIssue': 'Row {row}: {reason}',
+  'import.issue.missingName': 'Missing name',
+  'import.issue.duplicateId': 'Duplicate ID "{id}"',
+  'import.issue.invalidEmail': 'Invalid email "{email}"',
+  'import.issue.invalidWeight': 'Invalid weight "{weight}"',
+  'import.ready': '{count} participant(s) ready to import.',
+  'import.needName': 'Map one column to Name to continue.',
+  'import.import': 'Import {count}',
+  'column.name': 'Name',
+  'column.externalId': 'Unique ID',
+  'column.email': 'Email',
+  'column.department': 'Department',
+  'column.weight': 'Weight / Tickets',
+  'column.role': 'Group Role',
+  'column.attribute': 'Attribute',
+  'column.ignore': 'Ignore',
+
+  // Lucky draw tab
+  'draw.drawing': 'DRAWING...',
+  'draw.drawCount': 'DRAW {count}',
+  'draw.drawNow': 'DRAW NOW',
+  'draw.settings': 'Draw Settings',
+  'draw.stageConnected': 'Stage connected',
+  'draw.openStage': 'Open Stage',
+  'draw.single': 'Single Winner',
+  'draw.prizes': 'Prize Tiers',
+  'draw.allowRepeat': 'Allow Repeated Winners',
+  'draw.allowRepeatHint': 'If enabled, the same person can win multiple times.',
+  'draw.noParticipants': 'No participants found. Please add names in the {tab} tab first.',
+  'draw.eligibility': 'Eligibility',
+  'draw.animation': 'Animation',
+  'draw.odds': 'Odds per Pick',
+  'draw.ticketsInPool': '{count} tickets in pool',
+  'draw.failed': 'The draw failed: {message}',
+  'draw.noReplacement': 'Nobody is left to draw a replacement from.',
+  'draw.allPrizesDrawn': 'All prizes have been drawn.',
+  'draw.addPrize': 'Add a prize tier to start.',
+  'draw.ready': 'Ready to start the draw?',
+  'drawStatus.pending': 'pending',
+  'drawStatus.confirmed': 'confirmed',
+  'drawStatus.forfeited': 'forfeited',
+  'drawStatus.redrawn': 'redrawn',
+  'draw.chain.replacedBy': 'replaced by {name}',
+  'draw.chain.forfeited': '{name} forfeited',
+
+  // Stage
+  'stage.title': 'Stage',
+  'stage.pageTitle': '{event} · Stage',
+  'stage.defaultName': 'Lucky Draw',
+  'stage.fullscreen': 'Fullscreen',
+  'stage.waiting': 'Waiting for the presenter window…',
+  'stage.winner': 'Winner!',
+  'stage.winners': 'Winners!',
+  'stage.drawing': 'Drawing...',
+  'stage.choosing': 'Choosing...',
+  'stage.available': '{count} participants available',
+
+  // Prizes
+  'prizes.defaultName': 'Prize {number}',
+  'prizes.empty': 'No prizes yet. Add tiers in the order they should be drawn.',
+  'prizes.image': 'Image URL (optional)',
+  'prizes.add': 'Add Prize Tier',
+
+  // Eligibility
+  'eligibility.checkedInHint': 'Only the {checked} of {total} people who have checked in can win.',
+  'eligibility.exclusions': 'Exclusion List',
+  'eligibility.exclusionPlaceholder': 'Unique IDs, emails or names, comma-separated',
+  'eligibility.unmatchedToken': 'Matches nobody in the list',
+  'eligibility.filters': 'Attribute Filters',
+  'eligibility.addFilter': 'Add Filter',
+  'eligibility.noAttributes': 'Import participants with extra columns to filter on them.',
+  'eligibility.operator.is': 'is',
+  'eligibility.operator.isNot': 'is not',
+  'eligibility.operator.contains': 'contains',
+  'eligibility.operator.gt': '>',
+  'eligibility.operator.gte': '≥',
+  'eligibility.operator.lt': '<',
+  'eligibility.operator.lte': '≤',
+  'eligibility.listPlaceholder': 'Sales, Marketing',
+  'eligibility.valuePlaceholder': 'Value',
+  'eligibility.blockRecent': 'Block Recent Winners',
+  'eligibility.blockRecentOn': '{count} winners from the previous {events} event(s) can\'t win again.',
+  'eligibility.blockRecentOff': 'Winners of earlier events can win again.',
+  'eligibility.unmatched': '{count} exclusion list entries match nobody. Check them for typos.',
+  'eligibility.eligibleOf': '{count} of {total} eligible',
+  'eligibility.showExcluded': 'Show Excluded ({count})',
+  'eligibility.hideExcluded': 'Hide Excluded ({count})',
+  'eligibility.filter': '{attribute} {operator} {value}',
+  'eligibility.reason.notCheckedIn': 'Not checked in',
+  'eligibility.reason.excluded': 'On the exclusion list',
+  'eligibility.reason.needs': 'Needs {filter} (is {value})',
+  'eligibility.reason.empty': 'empty',
+  'eligibility.reason.wonAt': 'Won at "{event}"',
+  'eligibility.reason.noTickets': 'No tickets',
+  'eligibility.reason.alreadyDrawn': 'Already drawn',
+
+  // Animation
+  'animation.style.classic': 'Name Flash',
+  'animation.style.wheel': 'Wheel',
+  'animation.style.slot': 'Slot Machine',
+  'animation.style.cards': 'Card Flip',
+  'animation.style.cloud': 'Name Cloud',
+  'animation.duration': 'Duration',
+  'animation.easing': 'Easing',
+  'animation.easing.linear': 'Linear',
+  'animation.easing.easeOut': 'Ease out',
+  'animation.easing.easeInOut': 'Ease in-out',
+  'animation.easing.dramatic': 'Dramatic',
+  'animation.sound': 'Sound Effects',
+  'animation.soundHint': 'Ticks while drawing and a fanfare on reveal.',
+  'animation.confetti': 'Confetti',
+  'animation.confettiHint': 'Burst of confetti when the winners are shown.',
+
+  // Draw history
+  'drawHistory.title': 'History',
+  'drawHistory.confirmClear': 'Clear all {count} draw record(s)? You can undo this with Ctrl+Z.',
+  'drawHistory.empty': 'No history yet.',
+  'drawHistory.forfeited': '{name} forfeited →',
+  'drawHistory.replacedBy': 'replaced by {name}',
+  'drawHistory.confirm': 'Confirm',
+  'drawHistory.redraw': 'Absent → Redraw',
+  'drawHistory.redraw.title': 'Winner is absent: draw a replacement for the same prize',
+  'drawHistory.forfeit': 'Forfeit',
+  'drawHistory.forfeit.title': 'Winner is absent: give the prize back without drawing now',
+
+  // Fairness
+  'fairness.title': 'Fairness Audit',
+  'fairness.revealedSeed': 'Revealed seed',
+  'fairness.commitment': 'Commitment',
+  'fairness.freshSeeds': 'Each draw and grouping uses a fresh random seed. Publish a seed to commit to it in advance.',
+  'fairness.publish': 'Publish New Seed',
+  'fairness.publishFailed': 'The seed could not be published: {message}',
+  'fairness.unavailable': 'Auditing is unavailable: the browser only allows the hashing it needs over https or on localhost. Draws and groupings still work but are not logged.',
+  'fairness.commitmentHash': 'Commitment (SHA-256 of seed)',
+  'fairness.shareHash': 'Share this hash before drawing. {count} action(s) derived from the seed so far.',
+  'fairness.reveal': 'Reveal Seed',
+  'fairness.empty': 'Nothing logged yet.',
+  'fairness.drawEntry': 'Draw ×{count}',
+  'fairness.groupEntry': 'Grouping ×{count}',
+  'fairness.seed': 'seed {seed}',
+  'fairness.hiddenSeed': '(hidden until reveal)',
+  'fairness.input': 'input {hash} · {count} people',
+  'fairness.replayMatches': 'Replay matches',
+  'fairness.inputMismatch': 'Input hash mismatch',
+  'fairness.resultMismatch': 'Result mismatch',
+  'fairness.commitmentMismatch': 'Commitment mismatch',
+  'fairness.replay': 'Replay',
+
+  // Grouping tab
+  'grouping.groupName': 'Group {number}',
+  'grouping.bySize': 'People per Group',
+  'grouping.byCount': 'Number of Groups',
+  'grouping.generate': 'Generate Groups',
+  'grouping.leftover': 'Leftover People',
+  'grouping.leftover.even': 'Spread evenly (e.g. 4/3/3)',
+  'grouping.leftover.short': 'Allow one short group (e.g. 4/4/2)',
+  'grouping.leftover.range': 'Keep sizes within min/max',
+  'grouping.min': 'Min',
+  'grouping.max': 'Max',
+  'grouping.plan': '{count} group(s): {sizes}',
+  'grouping.balanceBy': 'Balance By',
+  'grouping.balanceHint': 'Selected attributes are spread as evenly as possible across groups.',
+  'grouping.checkedInHint': 'Group only the {checked} of {total} people who have checked in.',
+  'grouping.leaders': 'One Leader per Group',
+  'grouping.leadersHint': '{count} tagged leader(s). Each group gets exactly one; with fewer leaders than groups, fewer groups are made.',
+  'grouping.noteTakers': 'Note-taker per Group',
+  'grouping.noteTakersHint': '{count} tagged note-taker(s). Each group gets one while they last.',
+  'grouping.rotation': 'Rotation Mode',
+  'grouping.rotationHint': 'Save each grouping as a round and avoid pairing people who have already met.',
+  'grouping.pairingRules': 'Pairing Rules',
+  'grouping.noParticipants': 'Add participants first to enable grouping.',
+  'grouping.nobodyCheckedIn': 'Nobody has checked in yet. Check people in from the {tab} tab.',
+  'grouping.dragHint': 'Drag members between groups. Lock members or groups to keep them in place.',
+  'grouping.addGroup': 'Add Group',
+  'grouping.reshuffle': 'Reshuffle Unlocked',
+  'grouping.reshuffle.title': 'Lock a member or group first',
+  'grouping.drawLeaders': 'Draw Leaders',
+  'grouping.drawLeaders.title': 'Pick a leader at random from each group\'s members',
+  'grouping.failed': 'The grouping failed: {message}',
+  'grouping.empty': 'Set group size and click generate to see results.',
+  'grouping.rule': '{kind}: {names}',
+  'grouping.warning.fewLeaders': 'Only {count} leader(s) for {wanted} groups, so {groups} larger groups will be made.',
+  'grouping.warning.noNoteTakers': 'Nobody is tagged as a note-taker.',
+  'grouping.warning.fewNoteTakers': 'Only {count} note-taker(s) for {groups} groups; {without} group(s) will have none.',
+  'grouping.error.size': 'People per group must be a whole number of at least 1.',
+  'grouping.error.count': 'Number of groups must be a whole number of at least 1.',
+  'grouping.error.rangeCount': '{total} people cannot be split into {count} groups of {min}–{max}.',
+  'grouping.error.range': '{total} people cannot be split into groups of {min}–{max}.',
+  'grouping.error.noLeaders': 'Nobody is tagged as a leader. Tag leaders in the participant list or turn off "One leader per group".',
+  'grouping.error.fewLeaders': 'There are only {count} leader(s). {reason}',
+  'grouping.error.notEnough.leader': 'Not enough leaders to give each of the {groups} groups one.',
+  'grouping.error.notEnough.notetaker': 'Not enough note-takers to give each of the {groups} groups one.',
+  'grouping.error.blocked.leader': 'Not enough leaders to give each of the {groups} groups one. Pairing rules or group sizes keep the other leaders out of the groups still without one.',
+  'grouping.error.blocked.notetaker': 'Not enough note-takers to give each of the {groups} groups one. Pairing rules or group sizes keep the other note-takers out of the groups still without one.',
+  'grouping.error.tooBig': '"{rule}" needs {size} spots in one group, but groups hold at most {max}.',
+  'grouping.error.apartConflict': '"{rule}" conflicts with keep-together rules: {first} and {second} must share a group.',
+  'grouping.error.apartTooMany': '"{rule}" needs {count} separate groups, but there are only {groups}.',
+  'grouping.error.lockedSplit': '"{rule}" has locked members in different groups.',
+  'grouping.error.placeRule': 'Could not place everyone while honouring "{rule}". Try a different group size or relax this rule.',
+  'grouping.error.placeSizes': 'Could not place everyone within the group sizes. Try a different group size.',
+
+  // Group cards
+  'group.members': '{count} Members',
+  'group.lock': 'Lock group',
+  'group.unlock': 'Unlock group',
+  'group.remove': 'Remove group',
+  'group.dropHere': 'Drop members here.',
+  'group.makeLeader': 'Make leader',
+  'group.removeLeader': 'Remove as leader',
+  'group.lockMember': 'Lock member',
+  'group.unlockMember': 'Unlock member',
+
+  // Pairing rules
+  'constraints.together': 'Keep together',
+  'constraints.apart': 'Keep apart',
+  'constraints.placeholder': 'Names or IDs, separated by commas',
+  'constraints.csvHint': 'CSV rows look like {together} or {apart}.',
+  'constraints.needTwo': 'A rule needs at least two people.',
+  'constraints.badge.together': 'Together',
+  'constraints.badge.apart': 'Apart',
+  'constraints.removed': '(+{count} removed)',
+  'constraints.unknownKind': 'Unknown rule type "{kind}"',
+  'constraints.unknownParticipant': 'Unknown participant "{token}"',
+  'constraints.ambiguous': '"{token}" matches {count} people; use their unique ID',
+
+  // Rotation
+  'rotation.title': 'Rotation Rounds',
+  'rotation.confirmClear': 'Delete all {count} saved round(s)? You can undo this with Ctrl+Z.',
+  'rotation.plan': 'Plan {count} Rounds',
+  'rotation.empty': 'No rounds yet. Each generated grouping is saved here and later rounds avoid its pairings.',
+  'rotation.round': 'Round {number}',
+  'rotation.newPairs': '{percent} new pairings',
+
+  // Export
+  'export.groups': 'Export Groups',
+  'export.draws': 'Export Draw Results',
+  'export.groupsTitle': 'Groups',
+  'export.drawsTitle': 'Draw Results',
+  'export.format.csv': 'CSV',
+  'export.format.json': 'JSON',
+  'export.format.markdown': 'Markdown',
+  'export.format.html': 'Print (HTML)',
+  'export.fileName': 'File Name',
+  'export.csvHint': 'Saved as UTF-8 with a byte order mark, so Excel shows Chinese names correctly.',
+  'export.onePerPage': 'One Group per Page',
+  'export.onePerPageHint': 'Large type for posting on each table.',
+  'export.print': 'Print',
+  'export.download': 'Download',
+  'export.removed': '(removed)',
+  'export.exportedAt': 'Exported {time}',
+  'export.column.name': 'Name',
+  'export.column.role': 'Role',
+  'export.column.group': 'Group',
+  'export.column.round': 'Round',
+  'export.column.newPairings': 'New Pairings',
+  'export.column.prize': 'Prize',
+  'export.column.status': 'Status',
+  'export.column.replacedBy': 'Replaced By',
+  'export.column.time': 'Time',
+  'export.column.chain': 'Chain',
+  'export.column.tickets': 'Tickets',
+  'export.column.checkedIn': 'Checked In',
+
+  // Sharing
+  'share.title': 'Share Results',
+  'share.subtitle': 'A read-only page with names only, no server needed.',
+  'share.groups': 'Groups',
+  'share.groupCount': '{count} group(s)',
+  'share.winners': 'Winners',
+  'share.winnerCount': '{count} winner(s)',
+  'share.longLink': 'This link is {length} characters long. Some chat apps cut long links off; share the groups and winners separately if it doesn\'t open.',
+  'share.open': 'Open',
+  'share.copy': 'Copy Link',
+  'share.copied': 'Copied',
+  'shared.results': 'Results',
+  'shared.pageTitle': '{title} · Results',
+  'shared.sharedAt': 'Shared {time}',
+  'shared.damaged': 'This link is damaged or incomplete. Ask the organiser to send it again.',
+  'shared.findName': 'Find your name',
+  'shared.noMatch': 'Nobody called "{query}" is in a group.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
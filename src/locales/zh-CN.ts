@@ -0,0 +1,454 @@
+import type { MessageKey } from './en';
+
+const zhCN: Record<MessageKey, string> = {
+  // App shell
+  'app.title': '抽奖与分组',
+  'app.subtitle': '专业工具',
+  'app.language': '语言',
+  'app.storedOnServer': '活动数据保存在本地服务器',
+  'app.storedInBrowser': '活动数据保存在此浏览器',
+  'app.server': '服务器',
+  'app.local': '本地',
+  'app.shareTitle': '以只读链接分享分组和中奖名单',
+  'app.share': '分享',
+  'nav.participants': '参与者',
+  'nav.draw': '抽奖',
+  'nav.group': '分组',
+
+  // Shared
+  'common.add': '添加',
+  'common.cancel': '取消',
+  'common.clear': '清空',
+  'common.done': '完成',
+  'common.export': '导出',
+  'common.undo': '撤销',
+  'common.checkedInOnly': '仅限已签到',
+  'field.externalId': '唯一编号',
+  'field.email': '邮箱',
+  'field.department': '部门',
+  'role.leader': '组长',
+  'role.notetaker': '记录员',
+
+  // Events
+  'events.defaultName': '我的活动',
+  'events.copyName': '{name}（副本）',
+  'events.loading': '加载中…',
+  'events.events': '活动',
+  'events.archived': '已归档（{count}）',
+  'events.noArchived': '没有已归档的活动。',
+  'events.none': '没有活动。',
+  'events.rename': '重命名',
+  'events.duplicate': '复制',
+  'events.export': '导出会话',
+  'events.restore': '恢复',
+  'events.archive': '归档',
+  'events.delete': '删除',
+  'events.confirmDelete': '删除“{name}”及其全部数据？此操作无法撤销。',
+  'events.newPlaceholder': '新活动名称',
+  'events.create': '创建',
+  'events.import': '导入会话（.json）',
+  'events.importFailed': '无法导入“{file}”：{message}',
+  'snapshot.error.notSession': '此文件不是抽奖活动文件。',
+  'snapshot.error.invalidJson': '此文件不是有效的 JSON。',
+  'snapshot.error.newer': '此活动由更新版本的应用保存（格式 {version}）。请更新应用后再打开。',
+  'snapshot.error.field': '{path} 应为{expected}。',
+  'snapshot.expected.text': '文本',
+  'snapshot.expected.number': '数字',
+  'snapshot.expected.boolean': 'true 或 false',
+  'snapshot.expected.list': '列表',
+  'snapshot.expected.object': '对象',
+  'snapshot.expected.wholeNumber': '整数',
+
+  // Undo timeline
+  'history.undo': '撤销：{label}（Ctrl+Z）',
+  'history.nothingToUndo': '没有可撤销的操作',
+  'history.redo': '重做：{label}（Ctrl+Shift+Z）',
+  'history.nothingToRedo': '没有可重做的操作',
+  'history.timeline': '操作记录',
+  'history.steps': '共 {count} 步',
+  'history.hint': '点击某一步即可回到该状态。公平性审计日志始终保留每一次抽取。',
+  'history.serverDraws': '中奖记录由服务器保存，回退时抽奖历史保持不变。',
+  'history.opened': '打开活动',
+  'history.added': '添加了 {count} 名参与者',
+  'history.merged': '合并了 {count} 个重复项',
+  'history.people': '{count} 人',
+  'history.checkedIn': '{names} 已签到',
+  'history.undidCheckIn': '取消 {names} 的签到',
+  'history.setRole': '设置 {name} 的角色',
+  'history.removed': '移除 {name}',
+  'history.clearedParticipants': '清空全部参与者',
+  'history.clearedDraws': '清空抽奖记录',
+  'history.drewReplacement': '补抽出 {name}',
+  'history.drew': '抽中 {names}',
+  'history.drewForPrize': '{prize}抽中 {names}',
+  'history.markedStatus': '将 {name} 标记为{status}',
+  'history.plannedRounds': '规划了 {count} 轮',
+  'history.generatedGroups': '生成了 {count} 个组',
+  'history.showedRound': '查看第 {number} 轮',
+  'history.moved': '将 {name} 移到 {group}',
+  'history.addedGroup': '新增一个组',
+  'history.reshuffled': '重新打乱未锁定成员',
+  'history.changedLeader': '更换组长',
+  'history.drewLeaders': '抽取组长',
+  'history.deletedRound': '删除一轮',
+  'history.clearedRounds': '清空全部轮次',
+  'history.markedDistinct': '标记为不同的人',
+
+  // Participants tab
+  'source.manageList': '管理名单',
+  'source.checkIn': '签到（{checked}/{total}）',
+  'source.pasteLabel': '粘贴姓名（每行一个）',
+  'source.pastePlaceholder': '在此输入姓名…',
+  'source.addToList': '加入名单',
+  'source.uploadCsv': '上传 CSV',
+  'source.summary': '名单概览',
+  'source.autoDedupe': '自动去重',
+  'source.autoDedupeHint': '导入时跳过编号、邮箱或姓名相同的记录',
+  'source.reviewDuplicates': '检查重复项',
+  'source.clearAll': '全部清空',
+  'source.confirmClearAll': '移除全部 {count} 名参与者、抽奖记录和分组？可按 Ctrl+Z 撤销。',
+  'source.currentList': '当前名单',
+  'source.sortByName': '按姓名',
+  'source.sortByName.title': '按姓名拼音排序',
+  'source.sortAdded': '按添加',
+  'source.sortAdded.title': '按添加顺序排列',
+  'source.empty': '还没有添加参与者。',
+  'source.role': '组内角色',
+  'source.noRole': '无角色',
+  'source.tickets': '抽奖券数',
+
+  // Check-in
+  'checkIn.search': '按姓名、编号、邮箱或部门搜索',
+  'checkIn.all': '全部',
+  'checkIn.absent': '未签到',
+  'checkIn.present': '已签到',
+  'checkIn.noMatch': '没有匹配的人。',
+  'checkIn.truncated': '显示 {total} 人中的 {shown} 人。请搜索以缩小范围。',
+  'checkIn.attendance': '出席情况',
+  'checkIn.ratio': '已签到 / 已报名',
+  'checkIn.confirmReset': '清除所有签到记录？',
+  'checkIn.reset': '重置签到',
+  'checkIn.bulk': '批量签到',
+  'checkIn.bulkPlaceholder': '粘贴姓名、编号或邮箱，每行一个',
+  'checkIn.bulkButton': '按名单签到',
+  'checkIn.bulkDone': '{count} 人已签到。',
+  'checkIn.notFound': '{count} 个未找到。',
+  'checkIn.ambiguous': '{count} 个匹配到多人，请改用唯一编号。',
+  'checkIn.leftInBox': '它们保留在上方输入框中。',
+
+  // Duplicates
+  'duplicates.title': '检查重复项',
+  'duplicates.none': '没有剩余的疑似重复项。',
+  'duplicates.count': '{count} 组疑似重复',
+  'duplicates.allUnique': '名单中没有重复的人。',
+  'duplicates.row': '第 {row} 行',
+  'duplicates.checkedIn': '已签到',
+  'duplicates.reason.id': '编号相同',
+  'duplicates.reason.email': '邮箱相同',
+  'duplicates.reason.name': '姓名相同',
+  'duplicates.reason.similar': '姓名相似',
+  'duplicates.keepLeft': '合并，保留左侧',
+  'duplicates.keepRight': '合并，保留右侧',
+  'duplicates.keepBoth': '都保留',
+  'duplicates.distinct': '不是同一人',
+  'duplicates.distinct.title': '姓名相同或相似，但不是同一人：以后不再提示这一对',
+  'duplicates.mergeHint': '合并时保留所选记录，并用另一条记录补全其空白字段。',
+  'duplicates.mergeExactOne': '合并 {count} 个完全匹配',
+  'duplicates.mergeExactMany': '合并 {count} 个完全匹配',
+
+  // CSV import
+  'import.title': '导入参与者',
+  'import.readFailed': '无法读取该文件。',
+  'import.decodeFailed': '无法按 {encoding} 解码该文件。',
+  'import.encoding': '编码',
+  'import.separator': '分隔符',
+  'import.autoDetect': '自动检测',
+  'import.comma': '逗号（ , ）',
+  'import.semicolon': '分号（ ; ）',
+  'import.tab': '制表符',
+  'import.header': '首行为表头',
+  'import.preview': '显示 {total} 行中的前 {shown} 行。',
+  'import.skipped': '将跳过 {count} 行',
+  'import.rowIssue': '第 {row} 行：{reason}',
+  'import.issue.missingName': '缺少姓名',
+  'import.issue.duplicateId': '编号“{id}”重复',
+  'import.issue.invalidEmail': '邮箱“{email}”无效',
+  'import.issue.invalidWeight': '权重“{weight}”无效',
+  'import.ready': '{count} 名参与者可导入。',
+  'import.needName': '请将一列设为“姓名”后继续。',
+  'import.import': '导入 {count} 人',
+  'column.name': '姓名',
+  'column.externalId': '唯一编号',
+  'column.email': '邮箱',
+  'column.department': '部门',
+  'column.weight': '权重 / 抽奖券',
+  'column.role': '组内角色',
+  'column.attribute': '属性',
+  'column.ignore': '忽略',
+
+  // Lucky draw tab
+  'draw.drawing': '抽奖中…',
+  'draw.drawCount': '抽取 {count} 人',
+  'draw.drawNow': '开始抽奖',
+  'draw.settings': '抽奖设置',
+  'draw.stageConnected': '大屏已连接',
+  'draw.openStage': '打开大屏',
+  'draw.single': '单人抽取',
+  'draw.prizes': '奖项等级',
+  'draw.allowRepeat': '允许重复中奖',
+  'draw.allowRepeatHint': '开启后，同一人可以多次中奖。',
+  'draw.noParticipants': '还没有参与者。请先在{tab}页添加姓名。',
+  'draw.eligibility': '抽奖资格',
+  'draw.animation': '动画',
+  'draw.odds': '单次抽中概率',
+  'draw.ticketsInPool': '奖池共 {count} 张抽奖券',
+  'draw.failed': '抽奖失败：{message}',
+  'draw.noReplacement': '已没有可以补抽的人。',
+  'draw.allPrizesDrawn': '所有奖项均已抽完。',
+  'draw.addPrize': '请先添加一个奖项。',
+  'draw.ready': '准备好开始抽奖了吗？',
+  'drawStatus.pending': '待确认',
+  'drawStatus.confirmed': '已确认',
+  'drawStatus.forfeited': '已作废',
+  'drawStatus.redrawn': '已补抽',
+  'draw.chain.replacedBy': '补抽 {name}',
+  'draw.chain.forfeited': '{name}（放弃）',
+
+  // Stage
+  'stage.title': '大屏',
+  'stage.pageTitle': '{event} · 大屏',
+  'stage.defaultName': '幸运抽奖',
+  'stage.fullscreen': '全屏',
+  'stage.waiting': '等待主控窗口…',
+  'stage.winner': '恭喜中奖！',
+  'stage.winners': '恭喜中奖！',
+  'stage.drawing': '抽奖中…',
+  'stage.choosing': '抽取中…',
+  'stage.available': '{count} 名参与者可抽',
+
+  // Prizes
+  'prizes.defaultName': '奖项 {number}',
+  'prizes.empty': '还没有奖项。请按抽取顺序添加奖项。',
+  'prizes.image': '图片链接（可选）',
+  'prizes.add': '添加奖项',
+
+  // Eligibility
+  'eligibility.checkedInHint': '只有已签到的 {checked} 人（共 {total} 人）可以中奖。',
+  'eligibility.exclusions': '排除名单',
+  'eligibility.exclusionPlaceholder': '唯一编号、邮箱或姓名，用逗号分隔',
+  'eligibility.unmatchedToken': '名单中没有匹配的人',
+  'eligibility.filters': '属性筛选',
+  'eligibility.addFilter': '添加筛选',
+  'eligibility.noAttributes': '导入带有额外列的名单后即可按这些列筛选。',
+  'eligibility.operator.is': '是',
+  'eligibility.operator.isNot': '不是',
+  'eligibility.operator.contains': '包含',
+  'eligibility.operator.gt': '>',
+  'eligibility.operator.gte': '≥',
+  'eligibility.operator.lt': '<',
+  'eligibility.operator.lte': '≤',
+  'eligibility.listPlaceholder': '销售部, 市场部',
+  'eligibility.valuePlaceholder': '值',
+  'eligibility.blockRecent': '排除近期中奖者',
+  'eligibility.blockRecentOn': '前 {events} 场活动的 {count} 名中奖者不能再次中奖。',
+  'eligibility.blockRecentOff': '以往活动的中奖者可以再次中奖。',
+  'eligibility.unmatched': '排除名单中有 {count} 项没有匹配到任何人，请检查是否有错别字。',
+  'eligibility.eligibleOf': '{total} 人中 {count} 人有资格',
+  'eligibility.showExcluded': '显示被排除者（{count}）',
+  'eligibility.hideExcluded': '隐藏被排除者（{count}）',
+  'eligibility.filter': '{attribute} {operator} {value}',
+  'eligibility.reason.notCheckedIn': '未签到',
+  'eligibility.reason.excluded': '在排除名单中',
+  'eligibility.reason.needs': '需要 {filter}（实际为 {value}）',
+  'eligibility.reason.empty': '空',
+  'eligibility.reason.wonAt': '已在“{event}”中奖',
+  'eligibility.reason.noTickets': '没有抽奖券',
+  'eligibility.reason.alreadyDrawn': '已被抽中',
+
+  // Animation
+  'animation.style.classic': '姓名闪烁',
+  'animation.style.wheel': '转盘',
+  'animation.style.slot': '老虎机',
+  'animation.style.cards': '翻牌',
+  'animation.style.cloud': '姓名云',
+  'animation.duration': '时长',
+  'animation.easing': '缓动',
+  'animation.easing.linear': '匀速',
+  'animation.easing.easeOut': '渐慢',
+  'animation.easing.easeInOut': '先快后慢',
+  'animation.easing.dramatic': '悬念',
+  'animation.sound': '音效',
+  'animation.soundHint': '抽奖时播放滴答声，揭晓时播放庆祝音效。',
+  'animation.confetti': '彩纸',
+  'animation.confettiHint': '揭晓中奖者时撒出彩纸。',
+
+  // Draw history
+  'drawHistory.title': '抽奖记录',
+  'drawHistory.confirmClear': '清空全部 {count} 条抽奖记录？可按 Ctrl+Z 撤销。',
+  'drawHistory.empty': '还没有记录。',
+  'drawHistory.forfeited': '{name} 作废 →',
+  'drawHistory.replacedBy': '由 {name} 补上',
+  'drawHistory.confirm': '确认',
+  'drawHistory.redraw': '缺席 → 补抽',
+  'drawHistory.redraw.title': '中奖者缺席：为同一奖项补抽一人',
+  'drawHistory.forfeit': '作废',
+  'drawHistory.forfeit.title': '中奖者缺席：收回奖品，暂不补抽',
+
+  // Fairness
+  'fairness.title': '公平性审计',
+  'fairness.revealedSeed': '已公开的种子',
+  'fairness.commitment': '承诺值',
+  'fairness.freshSeeds': '每次抽奖和分组都使用新的随机种子。发布种子即可预先承诺。',
+  'fairness.publish': '发布新种子',
+  'fairness.publishFailed': '种子发布失败：{message}',
+  'fairness.unavailable': '审计不可用：浏览器只在 https 或 localhost 下提供所需的哈希功能。抽奖和分组仍可进行，但不会记录。',
+  'fairness.commitmentHash': '承诺值（种子的 SHA-256）',
+  'fairness.shareHash': '请在抽奖前公布此哈希值。目前已有 {count} 次操作使用了该种子。',
+  'fairness.reveal': '公开种子',
+  'fairness.empty': '暂无日志。',
+  'fairness.drawEntry': '抽奖 ×{count}',
+  'fairness.groupEntry': '分组 ×{count}',
+  'fairness.seed': '种子 {seed}',
+  'fairness.hiddenSeed': '（公开前隐藏）',
+  'fairness.input': '输入 {hash} · {count} 人',
+  'fairness.replayMatches': '重放结果一致',
+  'fairness.inputMismatch': '输入哈希不一致',
+  'fairness.resultMismatch': '结果不一致',
+  'fairness.commitmentMismatch': '承诺值不一致',
+  'fairness.replay': '重放',
+
+  // Grouping tab
+  'grouping.groupName': '第 {number} 组',
+  'grouping.bySize': '每组人数',
+  'grouping.byCount': '分组数量',
+  'grouping.generate': '生成分组',
+  'grouping.leftover': '剩余人员',
+  'grouping.leftover.even': '平均分配（如 4/3/3）',
+  'grouping.leftover.short': '允许一组人数较少（如 4/4/2）',
+  'grouping.leftover.range': '人数保持在最少/最多之间',
+  'grouping.min': '最少',
+  'grouping.max': '最多',
+  'grouping.plan': '{count} 个组：{sizes}',
+  'grouping.balanceBy': '均衡属性',
+  'grouping.balanceHint': '所选属性会尽量平均地分布到各组。',
+  'grouping.checkedInHint': '只为已签到的 {checked} 人（共 {total} 人）分组。',
+  'grouping.leaders': '每组一名组长',
+  'grouping.leadersHint': '已标记 {count} 名组长。每组恰好一名；组长少于组数时会减少组数。',
+  'grouping.noteTakers': '每组一名记录员',
+  'grouping.noteTakersHint': '已标记 {count} 名记录员。在人数足够时每组分配一名。',
+  'grouping.rotation': '轮换模式',
+  'grouping.rotationHint': '将每次分组保存为一轮，并尽量避免已同组过的人再次同组。',
+  'grouping.pairingRules': '同组规则',
+  'grouping.noParticipants': '请先添加参与者再进行分组。',
+  'grouping.nobodyCheckedIn': '还没有人签到。请在{tab}页为参与者签到。',
+  'grouping.dragHint': '拖动成员即可调组。锁定成员或整组可使其保持不动。',
+  'grouping.addGroup': '添加分组',
+  'grouping.reshuffle': '重排未锁定成员',
+  'grouping.reshuffle.title': '请先锁定成员或分组',
+  'grouping.drawLeaders': '抽取组长',
+  'grouping.drawLeaders.title': '从每组成员中随机抽取一名组长',
+  'grouping.failed': '分组失败：{message}',
+  'grouping.empty': '设置每组人数并点击生成即可查看结果。',
+  'grouping.rule': '{kind}：{names}',
+  'grouping.warning.fewLeaders': '只有 {count} 位组长，不够 {wanted} 个组，将改为 {groups} 个人数更多的组。',
+  'grouping.warning.noNoteTakers': '没有人被标记为记录员。',
+  'grouping.warning.fewNoteTakers': '只有 {count} 位记录员，共 {groups} 个组；{without} 个组将没有记录员。',
+  'grouping.error.size': '每组人数必须是不小于 1 的整数。',
+  'grouping.error.count': '组数必须是不小于 1 的整数。',
+  'grouping.error.rangeCount': '{total} 人无法分成 {count} 个 {min}–{max} 人的组。',
+  'grouping.error.range': '{total} 人无法分成每组 {min}–{max} 人。',
+  'grouping.error.noLeaders': '没有人被标记为组长。请在参与者列表中标记组长，或关闭“每组一名组长”。',
+  'grouping.error.fewLeaders': '只有 {count} 位组长。{reason}',
+  'grouping.error.notEnough.leader': '组长不足，无法为 {groups} 个组各安排一位。',
+  'grouping.error.notEnough.notetaker': '记录员不足，无法为 {groups} 个组各安排一位。',
+  'grouping.error.blocked.leader': '组长不足，无法为 {groups} 个组各安排一位。分组规则或每组人数使其余组长无法进入尚无组长的组。',
+  'grouping.error.blocked.notetaker': '记录员不足，无法为 {groups} 个组各安排一位。分组规则或每组人数使其余记录员无法进入尚无记录员的组。',
+  'grouping.error.tooBig': '“{rule}”需要在同一组中占 {size} 个位置，但每组最多 {max} 人。',
+  'grouping.error.apartConflict': '“{rule}”与必须同组的规则冲突：{first} 和 {second} 必须在同一组。',
+  'grouping.error.apartTooMany': '“{rule}”需要 {count} 个不同的组，但只有 {groups} 个组。',
+  'grouping.error.lockedSplit': '“{rule}”中已锁定的成员分在了不同的组。',
+  'grouping.error.placeRule': '在遵守“{rule}”的前提下无法安排所有人。请尝试调整每组人数或放宽此规则。',
+  'grouping.error.placeSizes': '按当前每组人数无法安排所有人。请尝试调整每组人数。',
+
+  // Group cards
+  'group.members': '{count} 人',
+  'group.lock': '锁定分组',
+  'group.unlock': '解锁分组',
+  'group.remove': '删除分组',
+  'group.dropHere': '将成员拖到这里。',
+  'group.makeLeader': '设为组长',
+  'group.removeLeader': '取消组长',
+  'group.lockMember': '锁定成员',
+  'group.unlockMember': '解锁成员',
+
+  // Pairing rules
+  'constraints.together': '必须同组',
+  'constraints.apart': '不能同组',
+  'constraints.placeholder': '姓名或编号，用逗号分隔',
+  'constraints.csvHint': 'CSV 每行格式如 {together} 或 {apart}。',
+  'constraints.needTwo': '一条规则至少需要两个人。',
+  'constraints.badge.together': '同组',
+  'constraints.badge.apart': '分开',
+  'constraints.removed': '（另有 {count} 人已移除）',
+  'constraints.unknownKind': '未知的规则类型“{kind}”',
+  'constraints.unknownParticipant': '未知的参与者“{token}”',
+  'constraints.ambiguous': '“{token}”匹配到 {count} 人，请使用其编号',
+
+  // Rotation
+  'rotation.title': '轮换轮次',
+  'rotation.confirmClear': '删除全部 {count} 个已保存的轮次？可按 Ctrl+Z 撤销。',
+  'rotation.plan': '规划 {count} 轮',
+  'rotation.empty': '还没有轮次。每次生成的分组都会保存在这里，之后的轮次会避开已有的组合。',
+  'rotation.round': '第 {number} 轮',
+  'rotation.newPairs': '{percent} 为新组合',
+
+  // Export
+  'export.groups': '导出分组',
+  'export.draws': '导出抽奖结果',
+  'export.groupsTitle': '分组',
+  'export.drawsTitle': '抽奖结果',
+  'export.format.csv': 'CSV',
+  'export.format.json': 'JSON',
+  'export.format.markdown': 'Markdown',
+  'export.format.html': '打印（HTML）',
+  'export.fileName': '文件名',
+  'export.csvHint': '以带 BOM 的 UTF-8 保存，Excel 可以正确显示中文姓名。',
+  'export.onePerPage': '每组一页',
+  'export.onePerPageHint': '大号字体，便于张贴在每张桌上。',
+  'export.print': '打印',
+  'export.download': '下载',
+  'export.removed': '（已移除）',
+  'export.exportedAt': '导出于 {time}',
+  'export.column.name': '姓名',
+  'export.column.role': '角色',
+  'export.column.group': '组',
+  'export.column.round': '轮次',
+  'export.column.newPairings': '新组合比例',
+  'export.column.prize': '奖项',
+  'export.column.status': '状态',
+  'export.column.replacedBy': '补抽人',
+  'export.column.time': '时间',
+  'export.column.chain': '经过',
+  'export.column.tickets': '抽奖券',
+  'export.column.checkedIn': '签到时间',
+
+  // Sharing
+  'share.title': '分享结果',
+  'share.subtitle': '只读页面，仅包含姓名，无需服务器。',
+  'share.groups': '分组',
+  'share.groupCount': '{count} 个组',
+  'share.winners': '中奖名单',
+  'share.winnerCount': '{count} 名中奖者',
+  'share.longLink': '此链接长达 {length} 个字符。部分聊天软件会截断长链接；如果打不开，请分别分享分组和中奖名单。',
+  'share.open': '打开',
+  'share.copy': '复制链接',
+  'share.copied': '已复制',
+  'shared.results': '结果',
+  'shared.pageTitle': '{title} · 结果',
+  'shared.sharedAt': '分享于 {time}',
+  'shared.damaged': '此链接已损坏或不完整。请联系组织者重新发送。',
+  'shared.findName': '查找你的名字',
+  'shared.noMatch': '没有名为“{query}”的人在分组中。',
+};
+
+export default zhCN;
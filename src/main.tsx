@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import StageWindow from './components/StageWindow.tsx';
+import SharedResultsView from './components/SharedResultsView.tsx';
+import {isStageView} from './lib/stage';
+import {isShareView} from './lib/share';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isStageView() ? <StageWindow /> : isShareView() ? <SharedResultsView /> : <App />}
   </StrictMode>,
 );
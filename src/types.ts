@@ -1,14 +1,224 @@
 export interface Participant {
   id: string;
   name: string;
+  /** Unique ID from the source system (employee number, student ID…). */
+  externalId?: string;
+  email?: string;
+  department?: string;
+  /** Number of tickets in the draw. Missing means 1; 0 means never drawn. */
+  weight?: number;
+  /** Any other imported columns, keyed by header. */
+  attributes?: Record<string, string>;
+  /** When they checked in at the venue; unset means registered but not (yet) present. */
+  checkedInAt?: number;
+  /** Ids of entries confirmed to be different people with a similar name. */
+  distinctFrom?: string[];
+  /** What they can do for a group when grouping with roles. */
+  role?: GroupRole;
 }
 
+/** `leader`: can facilitate a group. `notetaker`: can take notes for one. */
+export type GroupRole = 'leader' | 'notetaker';
+
 export type AppTab = 'source' | 'draw' | 'group';
 
+export type DrawMode = 'single' | 'prizes';
+
+export type DrawAnimationStyle = 'classic' | 'wheel' | 'slot' | 'cards' | 'cloud';
+export type AnimationEasing = 'linear' | 'easeOut' | 'easeInOut' | 'dramatic';
+
+/** How a draw is played back on stage. The winners are always decided before it starts. */
+export interface DrawAnimationSettings {
+  style: DrawAnimationStyle;
+  durationMs: number;
+  easing: AnimationEasing;
+  sound: boolean;
+  confetti: boolean;
+}
+
+export type FilterOperator = 'is' | 'isNot' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/** Keeps participants whose attribute `key` satisfies `operator value`. */
+export interface AttributeFilter {
+  id: string;
+  key: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface EligibilityRules {
+  /** Unique IDs, emails or names of people who may never win. */
+  excluded: string[];
+  /** All must match. */
+  filters: AttributeFilter[];
+  /** Blocks anyone who won in this many of the preceding events; 0 turns it off. */
+  blockRecentEvents: number;
+  /** Only people who have checked in can win. */
+  checkedInOnly: boolean;
+}
+
 export interface DrawSettings {
   allowRepeat: boolean;
+  mode: DrawMode;
+  animation: DrawAnimationSettings;
+  eligibility: EligibilityRules;
 }
 
+/** A prize tier. Tiers are drawn in ascending `order`, `quantity` winners each. */
+export interface Prize {
+  id: string;
+  name: string;
+  quantity: number;
+  order: number;
+  image?: string;
+}
+
+/**
+ * `pending` until the winner claims the prize (`confirmed`). An absent winner
+ * is `forfeited`, or `redrawn` once a replacement has been drawn for them.
+ */
+export type DrawStatus = 'pending' | 'confirmed' | 'forfeited' | 'redrawn';
+
+/** One winner in the draw history. `prizeId` is null for plain single draws. */
+export interface DrawRecord {
+  id: string;
+  prizeId: string | null;
+  prizeName: string | null;
+  participant: Participant;
+  timestamp: number;
+  status: DrawStatus;
+  /** The forfeited record this one was drawn to replace. */
+  replaces?: string;
+  /** Set on a `redrawn` record: its replacement. */
+  replacedBy?: string;
+}
+
+export type ConstraintKind = 'together' | 'apart';
+
+/** `together`: all members share one group. `apart`: no two members share a group. */
+export interface GroupingConstraint {
+  id: string;
+  kind: ConstraintKind;
+  memberIds: string[];
+}
+
+/** `size`: the user sets people per group. `count`: the user sets the number of groups. */
+export type GroupingMode = 'size' | 'count';
+
+/**
+ * How leftover people are handled: `even` spreads them so sizes differ by at
+ * most one, `short` leaves one smaller last group, `range` keeps every group
+ * within `minSize`–`maxSize`.
+ */
+export type RemainderPolicy = 'even' | 'short' | 'range';
+
 export interface GroupingSettings {
+  mode?: GroupingMode;
   groupSize: number;
+  groupCount?: number;
+  remainder?: RemainderPolicy;
+  minSize?: number;
+  maxSize?: number;
+  /** Group only the participants who have checked in. */
+  checkedInOnly?: boolean;
+  /** Attribute keys whose values should be spread evenly across groups. */
+  balanceBy?: string[];
+  /** Every group gets exactly one `leader`; fewer groups are made when there are too few. */
+  leaders?: boolean;
+  /** Groups also get one `notetaker` each, as far as there are enough. */
+  noteTakers?: boolean;
+  constraints?: GroupingConstraint[];
+  /** Rotation mode: keep new groups away from pairings in the saved rounds. */
+  avoidRepeats?: boolean;
+  /** Member IDs of earlier rounds, filled in when `avoidRepeats` is on. */
+  pastRounds?: string[][][];
+  /** Set by "reshuffle unlocked": current group sizes and the locked member IDs of each group. */
+  lockedLayout?: { capacities: number[]; fixed: string[][] };
+}
+
+/** A group as shown and edited in the Grouping tab. */
+export interface Group {
+  id: string;
+  name: string;
+  members: Participant[];
+  /** The member leading the group, set by grouping with leaders or drawn afterwards. */
+  leaderId?: string;
+  /** A locked group keeps all of its members on "reshuffle unlocked". */
+  locked?: boolean;
+  lockedMemberIds?: string[];
+}
+
+/** A saved grouping round, used by rotation mode to avoid repeat pairings. */
+export interface GroupRound {
+  id: string;
+  timestamp: number;
+  groups: string[][];
+  /** Share of pairs in this round that had never met in earlier rounds. */
+  newPairRatio: number;
+}
+
+/** A seed announced ahead of time by its SHA-256 commitment and revealed afterwards. */
+export interface PublishedSeed {
+  /** The secret; null where the server withholds it until the reveal. */
+  seed: string | null;
+  commitment: string;
+  revealed: boolean;
+  /** Number of draws/groupings already derived from this seed. */
+  uses: number;
+}
+
+interface AuditEntryBase {
+  id: string;
+  timestamp: number;
+  /**
+   * Seed the PRNG was created from; replaying with it reproduces `result`.
+   * Null where it is withheld until the published seed is revealed.
+   */
+  seed: string | null;
+  /** Commitment of the published seed `seed` was derived from, if any. */
+  commitment: string | null;
+  /** SHA-256 of the JSON-encoded `input`, in order. */
+  inputHash: string;
+  input: Participant[];
+}
+
+export interface DrawAuditEntry extends AuditEntryBase {
+  kind: 'draw';
+  params: { count: number };
+  /** Winner IDs in draw order. */
+  result: string[];
+}
+
+export interface GroupAuditEntry extends AuditEntryBase {
+  kind: 'group';
+  params: GroupingSettings;
+  /** Member IDs per group. */
+  result: string[][];
+}
+
+export type AuditEntry = DrawAuditEntry | GroupAuditEntry;
+
+/** Everything that belongs to one event and is saved between sessions. */
+export interface EventData {
+  participants: Participant[];
+  drawSettings: DrawSettings;
+  prizes: Prize[];
+  drawHistory: DrawRecord[];
+  publishedSeed: PublishedSeed | null;
+  auditLog: AuditEntry[];
+  groupingSettings: GroupingSettings;
+  groups: Group[];
+  groupRounds: GroupRound[];
+}
+
+export interface EventMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  archived: boolean;
+}
+
+export interface StoredEvent extends EventMeta {
+  data: EventData;
 }